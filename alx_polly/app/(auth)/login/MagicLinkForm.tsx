@@ -0,0 +1,182 @@
+'use client'
+
+import { useId, useState, type FormEvent } from 'react'
+import { useRouter } from 'next/navigation'
+import { AlertCircle, Mail } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { createClient } from '@/lib/supabase-client'
+import { LoginSchema, validateRateLimit } from '@/lib/validation-utils'
+import { getPostSignInPath } from '@/lib/mfa'
+
+interface MagicLinkFormProps {
+  /** Same-site path to land on after sign-in */
+  redirectTo: string
+}
+
+/**
+ * Passwordless sign-in: emails a link that signs the user in through
+ * /auth/callback, along with a one-time code that can be typed in here
+ * instead (handy when the email is opened on another device). New email
+ * addresses get an account, just like OAuth sign-in.
+ */
+export default function MagicLinkForm({ redirectTo }: MagicLinkFormProps) {
+  const [email, setEmail] = useState('')
+  const [code, setCode] = useState('')
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const [errorMsg, setErrorMsg] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const router = useRouter()
+
+  const emailId = useId()
+  const codeId = useId()
+  const errorId = useId()
+
+  const handleSend = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setErrorMsg('')
+
+    const parsedEmail = LoginSchema.shape.email.safeParse(email)
+    if (!parsedEmail.success) {
+      setErrorMsg(parsedEmail.error.issues[0]?.message || 'Please enter a valid email address')
+      return
+    }
+
+    const rateLimit = validateRateLimit(`magic_link_${parsedEmail.data}`, 3, 300000) // 3 emails per 5 minutes
+    if (!rateLimit.allowed) {
+      setErrorMsg(`Too many sign-in emails. Please try again after ${new Date(rateLimit.resetTime).toLocaleTimeString()}.`)
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const { error } = await createClient().auth.signInWithOtp({
+        email: parsedEmail.data,
+        options: {
+          emailRedirectTo: `${window.location.origin}/auth/callback?next=${encodeURIComponent(redirectTo)}`,
+          shouldCreateUser: true,
+        },
+      })
+
+      if (error) {
+        console.error('Magic link error:', error)
+        setErrorMsg(error.message.includes('rate limit')
+          ? 'Too many sign-in emails. Please wait a moment before trying again.'
+          : 'Could not send the sign-in email. Please try again.')
+        return
+      }
+
+      setSentTo(parsedEmail.data)
+    } catch (error) {
+      console.error('Magic link error:', error)
+      setErrorMsg('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleVerify = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!sentTo) return
+    setErrorMsg('')
+
+    if (!/^\d{6,10}$/.test(code.trim())) {
+      setErrorMsg('Enter the code from the email, digits only.')
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const supabase = createClient()
+      const { error } = await supabase.auth.verifyOtp({
+        email: sentTo,
+        token: code.trim(),
+        type: 'email',
+      })
+
+      if (error) {
+        setErrorMsg('That code is invalid or has expired. Check the email or send a new one.')
+        return
+      }
+
+      router.push(await getPostSignInPath(supabase, redirectTo))
+    } catch (error) {
+      console.error('OTP verification error:', error)
+      setErrorMsg('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const errorAlert = errorMsg && (
+    <Alert variant="destructive" role="alert" aria-describedby={errorId}>
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription id={errorId}>{errorMsg}</AlertDescription>
+    </Alert>
+  )
+
+  if (sentTo) {
+    return (
+      <form onSubmit={handleVerify} className="space-y-4" noValidate>
+        {errorAlert}
+        <p className="text-sm text-gray-600">
+          We sent a sign-in link to <span className="font-medium text-gray-900">{sentTo}</span>.
+          Open it on this device, or enter the code from the email below.
+        </p>
+        <div className="space-y-2">
+          <Label htmlFor={codeId}>Code</Label>
+          <Input
+            id={codeId}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="123456"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            disabled={isLoading}
+            className="w-full tracking-widest"
+          />
+        </div>
+        <Button type="submit" className="w-full" disabled={isLoading || !code.trim()}>
+          {isLoading ? 'Verifying...' : 'Sign In with Code'}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          className="w-full"
+          onClick={() => { setSentTo(null); setCode(''); setErrorMsg('') }}
+          disabled={isLoading}
+        >
+          Use a different email
+        </Button>
+      </form>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSend} className="space-y-4" noValidate>
+      {errorAlert}
+      <div className="space-y-2">
+        <Label htmlFor={emailId}>Email</Label>
+        <Input
+          id={emailId}
+          type="email"
+          placeholder="Enter your email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+          disabled={isLoading}
+          className="w-full"
+          autoComplete="email"
+          autoCapitalize="none"
+          spellCheck="false"
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isLoading || !email.trim()}>
+        <Mail className="h-4 w-4 mr-2" aria-hidden="true" />
+        {isLoading ? 'Sending...' : 'Email Me a Sign-In Link'}
+      </Button>
+    </form>
+  )
+}
@@ -5,16 +5,20 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
-import { useState, useCallback, useId } from 'react'
+import { useState, useCallback, useEffect, useId } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
-import { supabase } from '@/lib/supabase'
+import { createClient } from '@/lib/supabase-client'
 import { useRouter } from 'next/navigation'
 import { ErrorBoundary } from '@/components/ui/error-boundary'
 import { Eye, EyeOff, AlertCircle } from 'lucide-react'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { LoginSchema, validateRateLimit } from '@/lib/validation-utils'
+import { getSafeRedirectPath } from '@/lib/utils'
+import { getPostSignInPath } from '@/lib/mfa'
+import OAuthButtons from '@/components/oauth-buttons'
+import MagicLinkForm from './MagicLinkForm'
 
 type LoginFormData = {
   email: string;
@@ -33,7 +37,17 @@ function LoginPageContent() {
   const [errorMsg, setErrorMsg] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [rateLimitError, setRateLimitError] = useState<string | null>(null)
+  const [useMagicLink, setUseMagicLink] = useState(false)
+  const [redirectTo, setRedirectTo] = useState('/dashboard')
   const router = useRouter()
+
+  // Where to go after sign-in, and any error passed back by /auth/callback
+  useEffect(() => {
+    const urlParams = new URLSearchParams(window.location.search)
+    setRedirectTo(getSafeRedirectPath(urlParams.get('redirectTo')))
+    const callbackError = urlParams.get('error')
+    if (callbackError) setErrorMsg(callbackError)
+  }, [])
   
   const form = useForm<LoginFormData>({
     resolver: zodResolver(LoginSchema),
@@ -49,7 +63,7 @@ function LoginPageContent() {
   const errorId = useId()
 
   // Rate limiting check
-  const checkRateLimit = (email: string): boolean => {
+  const checkRateLimit = useCallback((email: string): boolean => {
     const rateLimit = validateRateLimit(`login_${email}`, 5, 300000); // 5 attempts per 5 minutes
     if (!rateLimit.allowed) {
       const resetTime = new Date(rateLimit.resetTime).toLocaleTimeString();
@@ -58,7 +72,7 @@ function LoginPageContent() {
     }
     setRateLimitError(null);
     return true;
-  };
+  }, []);
 
   const handleLogin = useCallback(async (data: LoginFormData) => {
     setIsLoading(true)
@@ -72,7 +86,8 @@ function LoginPageContent() {
       }
 
 
-      
+      // The cookie-backed client, so middleware and the two-factor challenge see the session
+      const supabase = createClient()
       const { data: authData, error } = await supabase.auth.signInWithPassword({
         email: data.email,
         password: data.password,
@@ -94,10 +109,7 @@ function LoginPageContent() {
         if (typeof window !== 'undefined') {
           localStorage.removeItem(`rate_limit_login_${data.email}`);
         }
-        // Get redirect URL from query params or default to dashboard
-        const urlParams = new URLSearchParams(window.location.search)
-        const redirectTo = urlParams.get('redirectTo') || '/dashboard'
-        router.push(redirectTo)
+        router.push(await getPostSignInPath(supabase, redirectTo))
       }
     } catch (error) {
       console.error('Login error:', error)
@@ -105,7 +117,7 @@ function LoginPageContent() {
     } finally {
       setIsLoading(false)
     }
-  }, [checkRateLimit, router])
+  }, [checkRateLimit, router, redirectTo])
 
   const togglePasswordVisibility = useCallback(() => {
     setShowPassword(prev => !prev)
@@ -127,16 +139,28 @@ function LoginPageContent() {
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {(errorMsg || rateLimitError) && (
+            <Alert variant="destructive" role="alert" aria-describedby={errorId} className="mb-4">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription id={errorId}>
+                {errorMsg || rateLimitError}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <OAuthButtons redirectTo={redirectTo} disabled={isLoading} onError={setErrorMsg} />
+
+          <div className="my-6 flex items-center gap-3 text-xs uppercase text-gray-500">
+            <span className="h-px flex-1 bg-gray-200" />
+            or
+            <span className="h-px flex-1 bg-gray-200" />
+          </div>
+
+          {useMagicLink ? (
+            <MagicLinkForm redirectTo={redirectTo} />
+          ) : (
           <form onSubmit={form.handleSubmit(handleLogin)} className="space-y-4" noValidate>
-            {(errorMsg || rateLimitError) && (
-              <Alert variant="destructive" role="alert" aria-describedby={errorId}>
-                <AlertCircle className="h-4 w-4" />
-                <AlertDescription id={errorId}>
-                  {errorMsg || rateLimitError}
-                </AlertDescription>
-              </Alert>
-            )}
-            
+
             <div className="space-y-2">
               <Label htmlFor={emailId}>Email</Label>
               <Input
@@ -219,6 +243,17 @@ function LoginPageContent() {
               )}
             </Button>
           </form>
+          )}
+
+          <Button
+            type="button"
+            variant="ghost"
+            className="w-full mt-2"
+            onClick={() => { setUseMagicLink(prev => !prev); clearErrors() }}
+            disabled={isLoading}
+          >
+            {useMagicLink ? 'Sign in with a password instead' : 'Email me a sign-in link instead'}
+          </Button>
           
           <div className="mt-6 text-center space-y-2">
             <Link 
@@ -0,0 +1,230 @@
+'use client'
+
+import Link from 'next/link'
+import { useEffect, useId, useState, type FormEvent } from 'react'
+import { useRouter } from 'next/navigation'
+import { AlertCircle, ShieldCheck } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { ErrorBoundary } from '@/components/ui/error-boundary'
+import { createClient } from '@/lib/supabase-client'
+import { redeemRecoveryCode } from '@/lib/actions'
+import { getSafeRedirectPath } from '@/lib/utils'
+import { needsMfaChallenge } from '@/lib/mfa'
+import { MfaCodeSchema, RecoveryCodeSchema } from '@/lib/validation-utils'
+
+/**
+ * Two-Factor Challenge Page
+ *
+ * WHAT: Second sign-in step for accounts with an authenticator app: the user
+ * enters a 6-digit code, or one of their recovery codes if the app is lost.
+ * WHY: Sign-in only gives an AAL1 session; protected pages and sensitive
+ * actions need AAL2 once two-factor authentication is turned on
+ * HOW: Verifies the code against the account's TOTP factor with Supabase,
+ * which upgrades the session, then continues to `?redirectTo=`
+ */
+function MfaChallengeContent() {
+  const [factorId, setFactorId] = useState<string | null>(null)
+  const [redirectTo, setRedirectTo] = useState('/dashboard')
+  const [code, setCode] = useState('')
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [recovered, setRecovered] = useState(false)
+  const [errorMsg, setErrorMsg] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const router = useRouter()
+  const supabase = createClient()
+
+  const codeId = useId()
+  const errorId = useId()
+
+  // Work out whether there's anything to verify, and with which factor
+  useEffect(() => {
+    const next = getSafeRedirectPath(new URLSearchParams(window.location.search).get('redirectTo'))
+    setRedirectTo(next)
+
+    const loadFactor = async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        router.replace(`/login?redirectTo=${encodeURIComponent(next)}`)
+        return
+      }
+
+      if (!await needsMfaChallenge(supabase)) {
+        router.replace(next)
+        return
+      }
+
+      const { data, error } = await supabase.auth.mfa.listFactors()
+      if (error || !data.totp[0]) {
+        setErrorMsg('Could not load your authenticator. Please sign in again.')
+        return
+      }
+      setFactorId(data.totp[0].id)
+    }
+
+    loadFactor()
+  }, [supabase, router])
+
+  const handleVerify = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!factorId) return
+    setErrorMsg('')
+
+    const parsedCode = MfaCodeSchema.safeParse(code)
+    if (!parsedCode.success) {
+      setErrorMsg(parsedCode.error.issues[0]?.message || 'Invalid code')
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code: parsedCode.data })
+
+      if (error) {
+        setErrorMsg('That code is incorrect or has expired. Check the time on your device and try again.')
+        return
+      }
+
+      router.replace(redirectTo)
+      router.refresh()
+    } catch (error) {
+      console.error('MFA verification error:', error)
+      setErrorMsg('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleRecover = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setErrorMsg('')
+
+    const parsedCode = RecoveryCodeSchema.safeParse(code)
+    if (!parsedCode.success) {
+      setErrorMsg('Enter a recovery code like abcd-efgh-jkmn')
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const result = await redeemRecoveryCode(parsedCode.data)
+
+      if (!result.success) {
+        setErrorMsg(result.error)
+        return
+      }
+
+      // Pick up the account without its authenticator
+      await supabase.auth.refreshSession()
+      setRecovered(true)
+    } catch (error) {
+      console.error('Recovery code error:', error)
+      setErrorMsg('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut()
+    router.replace('/login')
+  }
+
+  if (recovered) {
+    return (
+      <Card className="w-full">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">You&apos;re signed in</CardTitle>
+          <CardDescription className="text-center">
+            Two-factor authentication is now off, and your other recovery codes no longer work.
+            Set up your authenticator app again to keep your account protected.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Link href="/profile/edit">
+            <Button className="w-full">Set up two-factor authentication</Button>
+          </Link>
+          <Button variant="ghost" className="w-full" onClick={() => router.replace(redirectTo)}>
+            Continue
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="space-y-1">
+        <ShieldCheck className="h-10 w-10 mx-auto text-blue-600" aria-hidden="true" />
+        <CardTitle className="text-2xl font-bold text-center">Two-Factor Authentication</CardTitle>
+        <CardDescription className="text-center">
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={useRecoveryCode ? handleRecover : handleVerify} className="space-y-4" noValidate>
+          {errorMsg && (
+            <Alert variant="destructive" role="alert" aria-describedby={errorId}>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription id={errorId}>{errorMsg}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor={codeId}>{useRecoveryCode ? 'Recovery code' : 'Code'}</Label>
+            <Input
+              id={codeId}
+              inputMode={useRecoveryCode ? 'text' : 'numeric'}
+              autoComplete={useRecoveryCode ? 'off' : 'one-time-code'}
+              autoCapitalize="none"
+              spellCheck="false"
+              placeholder={useRecoveryCode ? 'abcd-efgh-jkmn' : '123456'}
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              disabled={isLoading || (!factorId && !useRecoveryCode)}
+              className="w-full tracking-widest"
+              autoFocus
+            />
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isLoading || !code.trim() || (!factorId && !useRecoveryCode)}>
+            {isLoading ? 'Verifying...' : 'Verify'}
+          </Button>
+        </form>
+
+        <Button
+          type="button"
+          variant="ghost"
+          className="w-full mt-2"
+          onClick={() => { setUseRecoveryCode(prev => !prev); setCode(''); setErrorMsg('') }}
+          disabled={isLoading}
+        >
+          {useRecoveryCode ? 'Use your authenticator app instead' : 'Lost your authenticator? Use a recovery code'}
+        </Button>
+
+        <div className="mt-6 text-center">
+          <button
+            type="button"
+            onClick={handleSignOut}
+            className="text-sm text-gray-600 hover:text-gray-900 hover:underline"
+          >
+            Sign out
+          </button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function MfaChallengePage() {
+  return (
+    <ErrorBoundary>
+      <MfaChallengeContent />
+    </ErrorBoundary>
+  )
+}
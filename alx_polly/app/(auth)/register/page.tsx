@@ -15,6 +15,7 @@ import { ErrorBoundary } from '@/components/ui/error-boundary'
 import { Eye, EyeOff, AlertCircle, User } from 'lucide-react'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { RegistrationSchema, validatePasswordStrength, validateRateLimit } from '@/lib/validation-utils'
+import OAuthButtons from '@/components/oauth-buttons'
 
 /**
  * Enhanced Registration Page Component
@@ -146,6 +147,14 @@ function RegisterPageContent() {
           </CardDescription>
         </CardHeader>
         <CardContent>
+          <OAuthButtons redirectTo="/dashboard" disabled={isLoading} onError={setErrorMsg} />
+
+          <div className="my-6 flex items-center gap-3 text-xs uppercase text-gray-500">
+            <span className="h-px flex-1 bg-gray-200" />
+            or
+            <span className="h-px flex-1 bg-gray-200" />
+          </div>
+
           <form onSubmit={form.handleSubmit(handleRegister)} className="space-y-4" noValidate>
             {(errorMsg || rateLimitError) && (
               <Alert 
@@ -2,6 +2,7 @@
 
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
+import { Avatar } from "@/components/ui/avatar";
 import { useAuth } from "@/app/(auth)/context/authContext";
 import { supabase } from "@/lib/supabase";
 import { useRouter } from "next/navigation";
@@ -25,7 +26,7 @@ export default function PollsLayout({ children }: { children: React.ReactNode })
 
   return (
     <div className="min-h-screen">
-      <header className="border-b bg-white text-black">
+      <header className="border-b bg-white text-black print:hidden">
         <div className="container mx-auto grid grid-cols-3 items-center p-4">
           <Link href="/" className="font-bold text-[20px] justify-self-start">ALX Polly</Link>
           <nav className="justify-self-center flex items-center gap-6 text-[16px] font-medium">
@@ -39,10 +40,10 @@ export default function PollsLayout({ children }: { children: React.ReactNode })
               <div className="flex items-center">
                 <button
                   onClick={() => setIsDropdownOpen(!isDropdownOpen)}
-                  className="h-12 w-12 rounded-full bg-gradient-to-br from-blue-600 to-blue-400 flex items-center justify-center text-xl font-bold text-white border-2 border-blue-200 shadow hover:scale-105 transition ml-4"
+                  className="rounded-full border-2 border-blue-200 shadow hover:scale-105 transition ml-4"
                   aria-label="Open profile menu"
                 >
-                  {user?.email?.[0]?.toUpperCase()}
+                  <Avatar src={user?.user_metadata?.avatar_url} name={user?.email} size={44} className="text-xl" />
                 </button>
                 {isDropdownOpen && (
                   <div className="absolute right-8 top-20 w-64 bg-white rounded-xl shadow-2xl z-50 border border-gray-200 animate-fade-in" style={{minWidth:'220px'}}>
@@ -57,9 +58,12 @@ export default function PollsLayout({ children }: { children: React.ReactNode })
                       </button>
                     </div>
                     <div className="flex flex-col items-center gap-2 px-6 pt-2 pb-4 border-b border-gray-100">
-                      <div className="h-14 w-14 rounded-full bg-gradient-to-br from-blue-600 to-blue-400 flex items-center justify-center text-2xl font-bold text-white border-2 border-blue-200">
-                        {user?.email?.[0]?.toUpperCase()}
-                      </div>
+                      <Avatar
+                        src={user?.user_metadata?.avatar_url}
+                        name={user?.email}
+                        size={56}
+                        className="text-2xl border-2 border-blue-200"
+                      />
                       <span className="font-semibold text-gray-900 text-base">{user?.email?.split('@')[0]}</span>
                       <span className="text-gray-500 text-sm">{user?.email}</span>
                     </div>
@@ -81,8 +85,8 @@ export default function PollsLayout({ children }: { children: React.ReactNode })
           </div>
         </div>
       </header>
-      <main className="container mx-auto p-4 mt-6 pb-16">{children}</main>
-      <footer className="fixed bottom-0 text-black left-0 right-0 border-t bg-white">
+      <main className="container mx-auto p-4 mt-6 pb-16 print:m-0 print:p-0">{children}</main>
+      <footer className="fixed bottom-0 text-black left-0 right-0 border-t bg-white print:hidden">
         <div className="mx-auto p-4 pt-5 text-[14px] text-gray-500 text-center">
           © 2025 ALX Polly. All rights reserved.
         </div>
@@ -0,0 +1,147 @@
+'use client';
+
+/**
+ * InfinitePollList Component
+ *
+ * Renders the first page of polls from the server and loads the following
+ * pages from GET /api/polls as the sentinel below the grid scrolls into view.
+ * A "Load more" button stays available for browsers without
+ * IntersectionObserver and for retrying after a failed request.
+ *
+ * @component
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { PaginatedResponse, PollWithStats } from '@/lib/types';
+import type { PollListFilterValues } from './PollListFilters';
+
+interface InfinitePollListProps {
+  initialPolls: PollWithStats[];
+  initialCursor: string | null;
+  filters: PollListFilterValues;
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return `${String(date.getMonth() + 1).padStart(2, "0")}/${String(date.getDate()).padStart(2, "0")}/${date.getFullYear()}`;
+};
+
+export default function InfinitePollList({ initialPolls, initialCursor, filters }: InfinitePollListProps) {
+  const [polls, setPolls] = useState(initialPolls);
+  const [cursor, setCursor] = useState(initialCursor);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const loadMore = useCallback(async () => {
+    if (!cursor || isLoading) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ status: filters.status, sort: filters.sort, cursor });
+      if (filters.search) params.set('search', filters.search);
+      if (filters.creator) params.set('creator', filters.creator);
+
+      const res = await fetch(`/api/polls?${params.toString()}`);
+      const page: PaginatedResponse<PollWithStats> = await res.json();
+
+      if (!page.success) {
+        throw new Error(page.error || 'Failed to load more polls');
+      }
+
+      // Guard against duplicates if the same page is requested twice
+      setPolls(prev => {
+        const seen = new Set(prev.map(poll => poll.id));
+        return [...prev, ...(page.data || []).filter(poll => !seen.has(poll.id))];
+      });
+      setCursor(page.pagination?.nextCursor ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load more polls');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [cursor, isLoading, filters]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    // Stop auto-loading after an error so a failing request isn't retried in a loop
+    if (!sentinel || !cursor || error || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          loadMore();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [cursor, error, loadMore]);
+
+  return (
+    <>
+      <div className="grid gap-8 sm:grid-cols-2 lg:grid-cols-3 justify-center">
+        {polls.map((poll) => (
+          <Link key={poll.id} href={`/polls/${poll.id}`} className="block">
+            <div className="bg-gradient-to-br from-white to-blue-50 rounded-2xl border-2 border-blue-100 shadow-sm p-10 flex flex-col gap-2 w-full max-w-[1500px] h-[260px] mx-auto transition hover:shadow-2xl hover:scale-[1.03] overflow-hidden">
+              <div className="pb-4">
+                <div className="text-2xl font-bold leading-tight text-blue-800 mb-2 break-words whitespace-normal">
+                  {poll.title}
+                </div>
+                <div className="text-[16px] leading-relaxed mt-1 text-gray-700 break-words">
+                  {poll.description || "No description provided"}
+                </div>
+              </div>
+              <div className="grid gap-2 text-[15px] text-black font-medium">
+                <span className="text-blue-700 font-semibold">
+                  {poll.option_count} {poll.option_count === 1 ? 'choice' : 'choices'}
+                </span>
+                <span className="text-green-600 font-semibold">
+                  {poll.total_votes} {poll.total_votes === 1 ? 'vote' : 'votes'}
+                </span>
+                <span className="text-purple-600 font-semibold">
+                  {poll.unique_voters} {poll.unique_voters === 1 ? 'voter' : 'voters'}
+                </span>
+                <span className="mt-2 text-[14px] font-normal text-gray-500">
+                  Created {formatDate(poll.created_at)}
+                  {poll.end_date && ` · Ends ${formatDate(poll.end_date)}`}
+                </span>
+              </div>
+            </div>
+          </Link>
+        ))}
+      </div>
+
+      <div ref={sentinelRef} className="flex flex-col items-center gap-3 py-10">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {cursor ? (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={loadMore}
+            disabled={isLoading}
+            className="bg-white text-black"
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Loading...
+              </>
+            ) : (
+              'Load more'
+            )}
+          </Button>
+        ) : (
+          polls.length > 0 && <p className="text-sm text-gray-500">You&apos;ve reached the end</p>
+        )}
+      </div>
+    </>
+  );
+}
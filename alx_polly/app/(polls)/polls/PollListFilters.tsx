@@ -0,0 +1,128 @@
+'use client';
+
+/**
+ * PollListFilters Component
+ *
+ * Search box, status filter and sort order for the /polls listing. The
+ * filters live in the URL so listings can be bookmarked and shared; changing
+ * one replaces the search params and the server renders the first page again.
+ *
+ * @component
+ */
+
+import { useState, type FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { Search, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import type { PollListSort, PollListStatus } from '@/lib/types';
+
+export interface PollListFilterValues {
+  search?: string;
+  status: PollListStatus;
+  sort: PollListSort;
+  creator?: string;
+}
+
+interface PollListFiltersProps {
+  filters: PollListFilterValues;
+}
+
+const STATUS_OPTIONS: Array<{ value: PollListStatus; label: string }> = [
+  { value: 'active', label: 'Active' },
+  { value: 'closing_soon', label: 'Closing soon' },
+  { value: 'scheduled', label: 'Scheduled' },
+  { value: 'ended', label: 'Ended' },
+  { value: 'all', label: 'All' },
+];
+
+const SORT_OPTIONS: Array<{ value: PollListSort; label: string }> = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'most_votes', label: 'Most votes' },
+  { value: 'ending_soon', label: 'Ending soonest' },
+];
+
+/**
+ * Builds the /polls URL for a set of filters, leaving defaults out
+ */
+function buildListUrl({ search, status, sort, creator }: PollListFilterValues): string {
+  const params = new URLSearchParams();
+  if (search) params.set('search', search);
+  if (status !== 'active') params.set('status', status);
+  if (sort !== 'newest') params.set('sort', sort);
+  if (creator) params.set('creator', creator);
+
+  const queryString = params.toString();
+  return queryString ? `/polls?${queryString}` : '/polls';
+}
+
+export default function PollListFilters({ filters }: PollListFiltersProps) {
+  const router = useRouter();
+  const [search, setSearch] = useState(filters.search ?? '');
+
+  const applyFilters = (changes: Partial<PollListFilterValues>) => {
+    router.replace(buildListUrl({ ...filters, ...changes }), { scroll: false });
+  };
+
+  const handleSearch = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    applyFilters({ search: search.trim() || undefined });
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-4 mb-8">
+      <form onSubmit={handleSearch} className="flex flex-1 gap-2" role="search">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" aria-hidden="true" />
+          <Input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search polls by title or description"
+            maxLength={100}
+            className="pl-9 bg-white"
+            aria-label="Search polls"
+          />
+        </div>
+        <Button type="submit" className="bg-blue-700 hover:bg-blue-800 text-white">
+          Search
+        </Button>
+      </form>
+
+      <div className="flex gap-2">
+        <select
+          value={filters.status}
+          onChange={(e) => applyFilters({ status: e.target.value as PollListStatus })}
+          className="h-9 rounded-md border border-gray-300 bg-white px-3 text-sm text-black"
+          aria-label="Filter by status"
+        >
+          {STATUS_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          value={filters.sort}
+          onChange={(e) => applyFilters({ sort: e.target.value as PollListSort })}
+          className="h-9 rounded-md border border-gray-300 bg-white px-3 text-sm text-black"
+          aria-label="Sort polls"
+        >
+          {SORT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {filters.creator && (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => applyFilters({ creator: undefined })}
+          className="bg-white text-black"
+        >
+          One creator only
+          <X className="h-4 w-4 ml-1" aria-hidden="true" />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client'
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { duplicatePoll, savePollAsTemplate } from "@/lib/actions";
+
+interface PollCopyActionsProps {
+  pollId: string;
+}
+
+/**
+ * Owner buttons that copy a poll: into a new draft, opened on its edit page,
+ * or into a template, shown applied in the create form. Failures (rate limits,
+ * the template limit) are shown under the buttons.
+ */
+export default function PollCopyActions({ pollId }: PollCopyActionsProps) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleDuplicate = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await duplicatePoll(pollId);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      router.push(`/polls/${result.data.pollId}/edit`);
+    });
+  };
+
+  const handleSaveAsTemplate = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await savePollAsTemplate(pollId);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      router.push(`/polls/new?template=${result.data.templateId}`);
+    });
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <div className="flex gap-3">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleDuplicate}
+          disabled={isPending}
+          className="bg-white text-black hover:bg-gray-100 border-gray-300 text-lg font-bold"
+        >
+          Duplicate
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleSaveAsTemplate}
+          disabled={isPending}
+          className="bg-white text-black hover:bg-gray-100 border-gray-300 text-lg font-bold"
+        >
+          Save as Template
+        </Button>
+      </div>
+      {error && (
+        <p role="alert" className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+/**
+ * PollInvites Component
+ *
+ * Invite link manager shown to the owner of a private poll. Each link carries
+ * its own optional expiry and usage cap and can be revoked on its own; anyone
+ * holding a live link can view the poll and vote on it.
+ *
+ * @component
+ */
+
+import { useState, useTransition, type FormEvent } from 'react';
+import { Link2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { createPollInvite, revokePollInvite } from '@/lib/actions';
+import type { PollInvite } from '@/lib/types';
+
+interface PollInvitesProps {
+  pollId: string;
+  /** Existing invites, newest first */
+  initialInvites: PollInvite[];
+}
+
+/**
+ * Describes an invite's state for the list
+ */
+function describeInvite(invite: PollInvite): { label: string; usable: boolean } {
+  if (invite.revoked_at) return { label: 'Revoked', usable: false };
+  if (invite.expires_at && new Date(invite.expires_at) <= new Date()) return { label: 'Expired', usable: false };
+  if (invite.max_uses !== null && invite.use_count >= invite.max_uses) return { label: 'Used up', usable: false };
+  return { label: 'Active', usable: true };
+}
+
+export default function PollInvites({ pollId, initialInvites }: PollInvitesProps) {
+  const [invites, setInvites] = useState<PollInvite[]>(initialInvites);
+  const [expiresAt, setExpiresAt] = useState('');
+  const [maxUses, setMaxUses] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const inviteUrl = (token: string) => `${window.location.origin}/polls/${pollId}?invite=${token}`;
+
+  const handleCreate = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      const result = await createPollInvite(pollId, {
+        // datetime-local values are in the browser's time zone
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+        maxUses: maxUses ? Number(maxUses) : null,
+      });
+
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+
+      setInvites(prev => [result.data.invite, ...prev]);
+      setExpiresAt('');
+      setMaxUses('');
+    });
+  };
+
+  const handleRevoke = (inviteId: string) => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await revokePollInvite(inviteId);
+
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+
+      const revokedAt = new Date().toISOString();
+      setInvites(prev => prev.map(invite => (
+        invite.id === inviteId ? { ...invite, revoked_at: revokedAt } : invite
+      )));
+    });
+  };
+
+  const handleCopy = async (invite: PollInvite) => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl(invite.token));
+      setCopiedId(invite.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy invite link:', error);
+    }
+  };
+
+  return (
+    <div className="mt-10 rounded-lg border border-gray-300 p-6">
+      <h3 className="flex items-center gap-2 text-2xl font-bold text-black mb-2">
+        <Link2 className="h-6 w-6" aria-hidden="true" />
+        Invite links
+      </h3>
+      <p className="text-gray-600 mb-6">
+        This poll is private. Anyone with an active invite link can view it and vote.
+      </p>
+
+      <form onSubmit={handleCreate} className="grid gap-4 md:grid-cols-[1fr_1fr_auto] md:items-end mb-6">
+        <div className="grid gap-2 text-black">
+          <Label htmlFor="inviteExpiresAt" className="font-semibold">Expires (Optional)</Label>
+          <Input
+            id="inviteExpiresAt"
+            type="datetime-local"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            disabled={isPending}
+            className="bg-white"
+          />
+        </div>
+        <div className="grid gap-2 text-black">
+          <Label htmlFor="inviteMaxUses" className="font-semibold">Usage limit (Optional)</Label>
+          <Input
+            id="inviteMaxUses"
+            type="number"
+            min={1}
+            max={10000}
+            placeholder="Unlimited"
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+            disabled={isPending}
+            className="bg-white"
+          />
+        </div>
+        <Button type="submit" disabled={isPending} className="bg-black text-white hover:bg-gray-800 font-bold">
+          {isPending ? 'Working...' : 'Create link'}
+        </Button>
+      </form>
+
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {invites.length === 0 ? (
+        <p className="text-sm text-gray-500">No invite links yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {invites.map(invite => {
+            const { label, usable } = describeInvite(invite);
+            return (
+              <li key={invite.id} className="flex flex-col gap-2 rounded-md border border-gray-200 p-3 md:flex-row md:items-center">
+                <div className="flex-1 min-w-0">
+                  <code className={`block truncate text-sm ${usable ? 'text-black' : 'text-gray-400 line-through'}`}>
+                    /polls/{pollId}?invite={invite.token}
+                  </code>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {label}
+                    {' · '}
+                    {invite.max_uses !== null ? `${invite.use_count} / ${invite.max_uses} uses` : `${invite.use_count} uses`}
+                    {invite.expires_at && ` · Expires ${new Date(invite.expires_at).toLocaleString('en-GB')}`}
+                  </p>
+                </div>
+                {usable && (
+                  <div className="flex gap-2">
+                    <Button type="button" variant="outline" onClick={() => handleCopy(invite)} className="bg-white text-black">
+                      {copiedId === invite.id ? '✓ Copied!' : 'Copy'}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => handleRevoke(invite.id)}
+                      disabled={isPending}
+                      className="bg-white text-red-600 hover:bg-red-50"
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
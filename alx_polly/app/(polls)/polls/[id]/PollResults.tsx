@@ -5,10 +5,18 @@
  * @param userVotes - An array of user vote IDs.
  * @param showVotes - A boolean indicating whether to show the votes.
  * @returns A React component displaying the poll results.
+ *
+ * For ranked-choice polls the option list shows first-choice votes and the
+ * instant-runoff rounds are listed below it, one elimination step at a time.
+ *
+ * Results stay live: votes cast or removed while the page is open update the
+ * bars and totals through a Supabase Realtime subscription.
  */
 
 import { useMemo, memo } from 'react';
-import { createOptimizedVoteProcessor } from '@/lib/vote-utils';
+import { createOptimizedVoteProcessor, type InstantRunoffResult, type RankedBallot } from '@/lib/vote-utils';
+import type { VotingMethod } from '@/lib/types';
+import { useRealTimeVoteStats } from '@/hooks/useVoteStats';
 
 interface PollOption {
   option_id: string;
@@ -23,7 +31,9 @@ interface Poll {
   title: string;
   description?: string;
   allow_multiple_selections: boolean;
+  voting_method?: VotingMethod;
   options: PollOption[];
+  ballots?: RankedBallot[];
 }
 
 interface PollResultsProps {
@@ -32,26 +42,134 @@ interface PollResultsProps {
   showVotes: boolean;
 }
 
+interface InstantRunoffRoundsProps {
+  result: InstantRunoffResult;
+  optionText: Map<string, string>;
+}
+
+/** Lists each instant-runoff round with its tallies and eliminated options */
+function InstantRunoffRounds({ result, optionText }: InstantRunoffRoundsProps) {
+  if (result.rounds.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 rounded-lg border border-green-200 bg-green-50 text-green-900">
+        {result.winner ? (
+          <span>
+            <span className="font-bold">{optionText.get(result.winner)}</span> wins after{' '}
+            {result.rounds.length} {result.rounds.length === 1 ? 'round' : 'rounds'}
+          </span>
+        ) : (
+          <span>
+            Tie between{' '}
+            <span className="font-bold">
+              {result.tiedOptions.map(optionId => optionText.get(optionId)).join(', ')}
+            </span>
+          </span>
+        )}
+      </div>
+
+      {result.rounds.map((round) => {
+        const continuing = Object.values(round.tallies).reduce((sum, count) => sum + count, 0);
+        const ordered = Object.entries(round.tallies).sort(([, a], [, b]) => b - a);
+
+        return (
+          <div key={round.round} className="p-4 border border-gray-300 rounded-lg bg-white">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="font-semibold text-black">Round {round.round}</h4>
+              {round.exhaustedBallots > 0 && (
+                <span className="text-sm text-gray-600">
+                  {round.exhaustedBallots} exhausted {round.exhaustedBallots === 1 ? 'ballot' : 'ballots'}
+                </span>
+              )}
+            </div>
+            <div className="space-y-2">
+              {ordered.map(([optionId, count]) => {
+                const percentage = continuing > 0 ? Math.round((count / continuing) * 100) : 0;
+                const isEliminated = round.eliminated.includes(optionId);
+                const isWinner = result.winner === optionId && round.round === result.rounds.length;
+
+                return (
+                  <div key={optionId}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className="font-medium text-black">
+                        {optionText.get(optionId)}
+                        {isEliminated && (
+                          <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                            Eliminated
+                          </span>
+                        )}
+                        {isWinner && (
+                          <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                            Winner
+                          </span>
+                        )}
+                      </span>
+                      <span className="text-gray-700">
+                        {count} ({percentage}%)
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className={`h-2 rounded-full ${isEliminated ? 'bg-red-300' : isWinner ? 'bg-green-500' : 'bg-gray-400'}`}
+                        style={{ width: `${percentage}%` }}
+                      ></div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 const PollResults = memo(function PollResults({ poll, userVotes, showVotes }: PollResultsProps) {
+  const isRankedChoice = poll.voting_method === 'ranked_choice';
+  const { options, ballots, isConnected } = useRealTimeVoteStats(poll.id, poll.options, {
+    votingMethod: poll.voting_method,
+    ballots: poll.ballots,
+  });
+
   // OPTIMIZED: Use efficient vote processor instead of repeated array operations
   const voteProcessor = useMemo(() => 
-    createOptimizedVoteProcessor(poll.options), 
-    [poll.options]
+    createOptimizedVoteProcessor(options, ballots), 
+    [options, ballots]
   );
   
-  const { totalVotes, maxVotes } = voteProcessor.getStats();
+  const { totalVotes } = voteProcessor.getStats();
+  const runoff = isRankedChoice ? voteProcessor.getInstantRunoff() : null;
+  const optionText = useMemo(
+    () => new Map(options.map(option => [option.option_id, option.option_text])),
+    [options]
+  );
 
   return (
     <div className="space-y-6">
       <div className="space-y-4">
-        <h3 className="text-xl font-semibold text-black mb-4">Poll Results</h3>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold text-black">
+            {isRankedChoice ? 'First-Choice Votes' : 'Poll Results'}
+          </h3>
+          {showVotes && isConnected && (
+            <span className="inline-flex items-center gap-2 px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+              <span className="h-2 w-2 rounded-full bg-green-500 animate-pulse" aria-hidden="true"></span>
+              Live
+            </span>
+          )}
+        </div>
 
-        {poll.options.map((option) => {
+        {options.map((option) => {
           // OPTIMIZED: Use pre-calculated values from vote processor
           const voteCount = voteProcessor.getVoteCount(option.option_id);
           const percentage = voteProcessor.getPercentage(option.option_id);
           const isUserChoice = userVotes.includes(option.option_id);
-          const isWinning = voteProcessor.isWinning(option.option_id);
+          // Ranked-choice polls are decided by the runoff, not the first-choice count
+          const isWinning = runoff ? runoff.winner === option.option_id : voteProcessor.isWinning(option.option_id);
 
           return (
             <div 
@@ -110,6 +228,13 @@ const PollResults = memo(function PollResults({ poll, userVotes, showVotes }: Po
         })}
       </div>
 
+      {runoff && showVotes && (
+        <div className="space-y-4">
+          <h3 className="text-xl font-semibold text-black">Instant-Runoff Rounds</h3>
+          <InstantRunoffRounds result={runoff} optionText={optionText} />
+        </div>
+      )}
+
       {/* Summary */}
       <div className="mt-6 p-4 bg-gray-50 rounded-lg">
         <div className="text-center">
@@ -117,7 +242,7 @@ const PollResults = memo(function PollResults({ poll, userVotes, showVotes }: Po
             {showVotes ? totalVotes : '•••'}
           </div>
           <div className="text-sm text-gray-600">
-            Total {totalVotes === 1 ? 'Vote' : 'Votes'}
+            Total {isRankedChoice ? (totalVotes === 1 ? 'Ballot' : 'Ballots') : (totalVotes === 1 ? 'Vote' : 'Votes')}
           </div>
           {userVotes.length > 0 && (
             <div className="mt-2 text-sm text-blue-600 font-medium">
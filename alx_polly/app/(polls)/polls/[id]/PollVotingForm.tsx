@@ -23,23 +23,29 @@
  * 
  * Features:
  * - Single and multiple selection support
+ * - Ranked-choice ballots (drag options into preference order)
  * - Real-time form validation
  * - Optimistic UI updates with loading states
  * - Error handling and user feedback
  * - Accessible form controls (radio/checkbox)
  * - Prevents duplicate submissions
+ * - Changing or retracting an existing ballot (signed-in voters)
  * 
  * @component
  */
 
 import { useState, useTransition } from 'react';
+import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { submitVote } from '@/lib/actions';
+import { changeVote, retractVote, submitVote } from '@/lib/actions';
 import { VoteSubmissionSchema, validateRateLimit } from '@/lib/validation-utils';
+import { getIneligibilityMessage } from '@/lib/utils';
+import type { VoteEligibilityStatus, VotingMethod } from '@/lib/types';
+import RankedChoiceBallot from './RankedChoiceBallot';
 
 /** Represents a poll option with voting statistics */
 interface PollOption {
@@ -56,6 +62,7 @@ interface Poll {
   title: string;
   description?: string;
   allow_multiple_selections: boolean;
+  voting_method?: VotingMethod;
   options: PollOption[];
 }
 
@@ -63,10 +70,19 @@ interface Poll {
 interface PollVotingFormProps {
   /** Poll data containing options and settings */
   poll: Poll;
-  /** Optional authenticated user ID */
-  userId?: string;
   /** Whether multiple selections are allowed */
   allowMultiple: boolean;
+  /** Invite token from the page URL, needed to vote on a private poll */
+  inviteToken?: string;
+  /** Whether the viewer meets the poll's eligibility rule, and if not why */
+  eligibility?: VoteEligibilityStatus;
+  /** Domain of an email-domain restricted poll, for the explanation */
+  eligibleEmailDomain?: string | null;
+  /**
+   * Option IDs of the viewer's current ballot, in preference order. When set,
+   * the form shows the ballot with Change and Retract buttons instead.
+   */
+  currentVotes?: string[];
 }
 
 type VoteFormData = z.infer<typeof VoteSubmissionSchema>;
@@ -78,20 +94,40 @@ type VoteFormData = z.infer<typeof VoteSubmissionSchema>;
  * Handles vote submission with proper error handling and loading states.
  * 
  * @param poll - Poll data with options and settings
- * @param userId - Optional authenticated user ID for vote attribution
  * @param allowMultiple - Whether multiple option selection is allowed
+ * @param inviteToken - Optional invite token for private polls
+ * @param eligibility - Eligibility of the viewer; ineligible viewers see why and can't submit
+ * @param currentVotes - The viewer's existing ballot, which they can change or retract
  * @returns React component for poll voting interface
  */
-export default function PollVotingForm({ poll, userId, allowMultiple }: PollVotingFormProps) {
+export default function PollVotingForm({
+  poll,
+  allowMultiple,
+  inviteToken,
+  eligibility = 'eligible',
+  eligibleEmailDomain,
+  currentVotes = []
+}: PollVotingFormProps) {
   const [isPending, startTransition] = useTransition();
+  const hasBallot = currentVotes.length > 0;
+  const [isChanging, setIsChanging] = useState(false);
+  const ineligibleMessage = eligibility === 'eligible' ? null : getIneligibilityMessage(eligibility, eligibleEmailDomain);
+  const isDisabled = isPending || !!ineligibleMessage;
   const [error, setError] = useState<string>('');
   const [rateLimitError, setRateLimitError] = useState<string | null>(null);
+  const isRankedChoice = poll.voting_method === 'ranked_choice';
+
+  // A ranked ballot starts in poll order (or the voter's current order) and
+  // the voter rearranges it
+  const initialOptionIds = isRankedChoice
+    ? [...currentVotes, ...poll.options.map(option => option.option_id).filter(id => !currentVotes.includes(id))]
+    : currentVotes;
 
   const form = useForm<VoteFormData>({
     resolver: zodResolver(VoteSubmissionSchema),
     defaultValues: {
       pollId: poll.id,
-      optionIds: []
+      optionIds: initialOptionIds
     }
   });
 
@@ -122,6 +158,13 @@ export default function PollVotingForm({ poll, userId, allowMultiple }: PollVoti
     if (rateLimitError) setRateLimitError(null);
   };
 
+  /** Stores the voter's new preference order for ranked-choice polls */
+  const handleRankingChange = (ranking: string[]) => {
+    form.setValue('optionIds', ranking);
+    if (error) setError('');
+    if (rateLimitError) setRateLimitError(null);
+  };
+
   // Rate limiting check
   const checkRateLimit = (): boolean => {
     const rateLimit = validateRateLimit('submit_vote', 10, 60000); // 10 votes per minute
@@ -153,13 +196,17 @@ export default function PollVotingForm({ poll, userId, allowMultiple }: PollVoti
           return;
         }
 
-        // Submit votes for all selected options
-        const result = await submitVote(poll.id, data.optionIds, userId);
+        // Submit votes for all selected options, or replace the existing ballot
+        const result = hasBallot
+          ? await changeVote(poll.id, data.optionIds, inviteToken)
+          : await submitVote(poll.id, data.optionIds, inviteToken);
         
         if (!result.success) {
           setError(result.error);
           return;
         }
+
+        setIsChanging(false);
         
         // Clear rate limiting data on successful vote
         if (typeof window !== 'undefined') {
@@ -172,13 +219,89 @@ export default function PollVotingForm({ poll, userId, allowMultiple }: PollVoti
     });
   };
 
+  /** Withdraws the viewer's ballot after confirmation */
+  const handleRetract = () => {
+    if (!window.confirm('Retract your vote? You can vote again while the poll is open.')) return;
+    setError('');
+
+    startTransition(async () => {
+      const result = await retractVote(poll.id, inviteToken);
+      if (!result.success) {
+        setError(result.error);
+      }
+      // Page will be revalidated and show the voting form again
+    });
+  };
+
+  /** Puts the form back to the current ballot and leaves change mode */
+  const handleCancelChange = () => {
+    form.reset({ pollId: poll.id, optionIds: initialOptionIds });
+    setError('');
+    setIsChanging(false);
+  };
+
+  if (hasBallot && !isChanging) {
+    const optionText = new Map(poll.options.map(option => [option.option_id, option.option_text]));
+
+    return (
+      <div className="rounded-lg border border-gray-300 bg-gray-50 p-6 space-y-4">
+        <p className="text-lg text-black">
+          <span className="font-semibold">You voted for:</span>{' '}
+          {currentVotes.map(id => optionText.get(id)).filter(Boolean).join(isRankedChoice ? ' > ' : ', ')}
+        </p>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-wrap gap-3">
+          <Button
+            type="button"
+            onClick={() => setIsChanging(true)}
+            disabled={isPending}
+            className="bg-black text-white hover:bg-gray-800 font-bold"
+          >
+            Change vote
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleRetract}
+            disabled={isPending}
+            className="bg-white text-red-600 hover:bg-red-50 font-bold"
+          >
+            {isPending ? 'Retracting...' : 'Retract vote'}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div className="space-y-4">
         <h3 className="text-xl font-semibold text-black mb-4">
-          {allowMultiple ? 'Select one or more options:' : 'Select one option:'}
+          {isRankedChoice
+            ? 'Drag the options into your order of preference:'
+            : allowMultiple ? 'Select one or more options:' : 'Select one option:'}
         </h3>
         
+        {ineligibleMessage && (
+          <Alert>
+            <AlertDescription>
+              {ineligibleMessage}
+              {eligibility === 'login_required' && (
+                <>
+                  {' '}
+                  <Link href="/login" className="font-semibold text-blue-600 hover:underline">Sign in to vote</Link>
+                </>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
         {(error || rateLimitError) && (
           <Alert variant="destructive">
             <AlertDescription>{error || rateLimitError}</AlertDescription>
@@ -191,11 +314,20 @@ export default function PollVotingForm({ poll, userId, allowMultiple }: PollVoti
           </Alert>
         )}
 
-        {poll.options.map((option) => (
+        {isRankedChoice && (
+          <RankedChoiceBallot
+            options={poll.options}
+            ranking={form.watch('optionIds')}
+            onChange={handleRankingChange}
+            disabled={isDisabled}
+          />
+        )}
+
+        {!isRankedChoice && poll.options.map((option) => (
           <div 
             key={option.option_id} 
             className="flex items-center p-6 border border-gray-300 rounded-lg bg-white hover:bg-gray-50 cursor-pointer transition-colors"
-            onClick={() => !isPending && handleOptionChange(option.option_id)}
+            onClick={() => !isDisabled && handleOptionChange(option.option_id)}
           >
             <input
               type={allowMultiple ? 'checkbox' : 'radio'}
@@ -204,7 +336,7 @@ export default function PollVotingForm({ poll, userId, allowMultiple }: PollVoti
               checked={form.watch('optionIds').includes(option.option_id)}
               onChange={() => handleOptionChange(option.option_id)}
               className="mr-4 h-5 w-5 text-blue-600"
-              disabled={isPending}
+              disabled={isDisabled}
             />
             <span className="font-bold text-xl text-black flex-1">
               {option.option_text}
@@ -213,21 +345,38 @@ export default function PollVotingForm({ poll, userId, allowMultiple }: PollVoti
         ))}
       </div>
 
-      <div className="flex justify-center pt-4">
+      <div className="flex justify-center gap-3 pt-4">
         <Button
           onClick={form.handleSubmit(handleSubmit)}
-          disabled={form.watch('optionIds').length === 0 || isPending || !!rateLimitError}
+          disabled={form.watch('optionIds').length === 0 || isDisabled || !!rateLimitError}
           className="bg-black text-white hover:bg-gray-800 px-8 py-3 text-lg font-bold min-w-[150px]"
         >
-          {isPending ? 'Submitting...' : 'Submit Vote'}
+          {isPending ? 'Submitting...' : hasBallot ? 'Save changes' : 'Submit Vote'}
         </Button>
+        {hasBallot && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleCancelChange}
+            disabled={isPending}
+            className="bg-white text-black px-8 py-3 text-lg font-bold"
+          >
+            Cancel
+          </Button>
+        )}
       </div>
 
-      {allowMultiple && (
+      {allowMultiple && !isRankedChoice && (
         <p className="text-sm text-gray-600 text-center">
           You can select multiple options for this poll
         </p>
       )}
+
+      {isRankedChoice && (
+        <p className="text-sm text-gray-600 text-center">
+          If your first choice is eliminated, your vote moves to your next choice
+        </p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,98 @@
+'use client';
+
+/**
+ * RankedChoiceBallot Component
+ *
+ * Sortable list used to vote on ranked-choice polls. Voters drag options into
+ * their order of preference; the up/down buttons give keyboard and touch users
+ * the same control, since native drag and drop only works with a mouse.
+ *
+ * @component
+ */
+
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, GripVertical } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface RankedChoiceOption {
+  option_id: string;
+  option_text: string;
+}
+
+interface RankedChoiceBallotProps {
+  /** Poll options available to rank */
+  options: RankedChoiceOption[];
+  /** Option IDs in the voter's current order of preference */
+  ranking: string[];
+  /** Called with the new order whenever the voter moves an option */
+  onChange: (ranking: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Moves one entry of an array to a new position
+ * @returns A new array; the input is left untouched
+ */
+function moveItem(items: string[], from: number, to: number): string[] {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+export default function RankedChoiceBallot({ options, ranking, onChange, disabled = false }: RankedChoiceBallotProps) {
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const optionText = new Map(options.map(option => [option.option_id, option.option_text]));
+
+  const handleDrop = (targetIndex: number) => {
+    if (draggedIndex === null || draggedIndex === targetIndex) return;
+    onChange(moveItem(ranking, draggedIndex, targetIndex));
+    setDraggedIndex(null);
+  };
+
+  return (
+    <ol className="space-y-3" aria-label="Your ranking">
+      {ranking.map((optionId, index) => (
+        <li
+          key={optionId}
+          draggable={!disabled}
+          onDragStart={() => setDraggedIndex(index)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={() => handleDrop(index)}
+          onDragEnd={() => setDraggedIndex(null)}
+          className={`flex items-center gap-4 p-4 border rounded-lg bg-white transition-colors ${
+            draggedIndex === index ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:bg-gray-50'
+          } ${disabled ? 'opacity-60' : 'cursor-move'}`}
+        >
+          <GripVertical className="h-5 w-5 text-gray-400" aria-hidden="true" />
+          <span className="inline-flex items-center justify-center h-8 w-8 rounded-full bg-blue-100 text-blue-800 font-bold">
+            {index + 1}
+          </span>
+          <span className="font-bold text-xl text-black flex-1">
+            {optionText.get(optionId)}
+          </span>
+          <Button
+            type="button"
+            variant="outline"
+            className="px-3"
+            onClick={() => onChange(moveItem(ranking, index, index - 1))}
+            disabled={disabled || index === 0}
+            aria-label={`Rank ${optionText.get(optionId)} higher`}
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            className="px-3"
+            onClick={() => onChange(moveItem(ranking, index, index + 1))}
+            disabled={disabled || index === ranking.length - 1}
+            aria-label={`Rank ${optionText.get(optionId)} lower`}
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,14 +1,79 @@
 'use client'
 
 import { Button } from "@/components/ui/button";
-import { useState } from "react";
+import Link from "next/link";
+import { QRCodeCanvas, QRCodeSVG } from "qrcode.react";
+import { useRef, useState } from "react";
 
 interface ShareButtonsProps {
   pollTitle: string;
+  pollId: string;
 }
 
-export default function ShareButtons({ pollTitle }: ShareButtonsProps) {
+/** Pixel size of the downloaded PNG, large enough for print */
+const QR_PNG_SIZE = 1024;
+
+type EmbedTheme = 'light' | 'dark';
+type EmbedSnippet = 'iframe' | 'script';
+
+/**
+ * Escapes a value for use inside a double-quoted HTML attribute
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * Returns the URL of a poll page, keeping only the invite token from the
+ * current URL so scanned codes still open private polls
+ * @param subpath - Page below the poll, e.g. '/poster'
+ */
+function getPollUrl(pollId: string, subpath = ''): string {
+  const { origin, search } = window.location;
+  const invite = new URLSearchParams(search).get('invite');
+  return `${origin}/polls/${pollId}${subpath}${invite ? `?invite=${encodeURIComponent(invite)}` : ''}`;
+}
+
+/**
+ * Starts a browser download of the given URL
+ */
+function downloadFile(href: string, filename: string) {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  link.click();
+}
+
+/**
+ * Builds the copy-and-paste snippets for embedding the poll on another site.
+ * A private poll's invite token is carried over from the current URL so the
+ * embed can show it.
+ */
+function buildEmbedSnippets(pollId: string, pollTitle: string, theme: EmbedTheme): Record<EmbedSnippet, string> {
+  const { origin, search } = window.location;
+  const invite = new URLSearchParams(search).get('invite');
+
+  const query = new URLSearchParams({ theme });
+  if (invite) query.set('invite', invite);
+
+  const iframe = `<iframe src="${origin}/embed/polls/${pollId}?${escapeAttribute(query.toString())}" ` +
+    `width="100%" height="420" style="border:0" title="Poll: ${escapeAttribute(pollTitle)}" loading="lazy"></iframe>`;
+
+  const script = `<div data-polly-poll="${pollId}" data-theme="${theme}"` +
+    `${invite ? ` data-invite="${escapeAttribute(invite)}"` : ''}></div>\n` +
+    `<script async src="${origin}/embed.js"></script>`;
+
+  return { iframe, script };
+}
+
+export default function ShareButtons({ pollTitle, pollId }: ShareButtonsProps) {
   const [copied, setCopied] = useState(false);
+  const [showEmbed, setShowEmbed] = useState(false);
+  const [embedTheme, setEmbedTheme] = useState<EmbedTheme>('light');
+  const [copiedSnippet, setCopiedSnippet] = useState<EmbedSnippet | null>(null);
+  const [showQr, setShowQr] = useState(false);
+  const qrSvgRef = useRef<SVGSVGElement>(null);
+  const qrCanvasRef = useRef<HTMLCanvasElement>(null);
 
   const handleCopyLink = async () => {
     try {
@@ -29,11 +94,39 @@ export default function ShareButtons({ pollTitle }: ShareButtonsProps) {
     );
   };
 
+  const snippets = showEmbed ? buildEmbedSnippets(pollId, pollTitle, embedTheme) : null;
+
+  const handleCopySnippet = async (snippet: EmbedSnippet) => {
+    if (!snippets) return;
+    try {
+      await navigator.clipboard.writeText(snippets[snippet]);
+      setCopiedSnippet(snippet);
+      setTimeout(() => setCopiedSnippet(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy embed code:', error);
+    }
+  };
+
+  const pollUrl = showQr ? getPollUrl(pollId) : null;
+
+  const handleDownloadPng = () => {
+    if (!qrCanvasRef.current) return;
+    downloadFile(qrCanvasRef.current.toDataURL('image/png'), `poll-${pollId}-qr.png`);
+  };
+
+  const handleDownloadSvg = () => {
+    if (!qrSvgRef.current) return;
+    const markup = new XMLSerializer().serializeToString(qrSvgRef.current);
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+    downloadFile(url, `poll-${pollId}-qr.svg`);
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="mt-16 pt-10">
       <h3 className="text-2xl font-bold mb-8 text-black">Share this poll</h3>
       <div className="flex justify-center">
-        <div className="flex justify-between w-full gap-6">
+        <div className="flex flex-col md:flex-row justify-between w-full gap-6">
           <Button 
             variant="outline" 
             className="bg-white text-black hover:bg-gray-100 border-gray-300 flex-1 text-lg py-3 font-bold"
@@ -48,8 +141,89 @@ export default function ShareButtons({ pollTitle }: ShareButtonsProps) {
           >
             Share on Twitter
           </Button>
+          <Button 
+            variant="outline" 
+            className="bg-white text-black hover:bg-gray-100 border-gray-300 flex-1 text-lg py-3 font-bold"
+            onClick={() => setShowEmbed(prev => !prev)}
+            aria-expanded={showEmbed}
+          >
+            {showEmbed ? 'Hide embed code' : 'Get embed code'}
+          </Button>
+          <Button 
+            variant="outline" 
+            className="bg-white text-black hover:bg-gray-100 border-gray-300 flex-1 text-lg py-3 font-bold"
+            onClick={() => setShowQr(prev => !prev)}
+            aria-expanded={showQr}
+          >
+            {showQr ? 'Hide QR code' : 'QR code'}
+          </Button>
         </div>
       </div>
+
+      {pollUrl && (
+        <div className="mt-6 rounded-lg border border-gray-300 p-6 text-black flex flex-col items-center gap-4 md:flex-row md:items-start">
+          <QRCodeSVG
+            ref={qrSvgRef}
+            value={pollUrl}
+            size={192}
+            level="M"
+            marginSize={2}
+            title={`QR code for ${pollTitle}`}
+          />
+          {/* Off-screen, full-resolution copy for the PNG download */}
+          <QRCodeCanvas ref={qrCanvasRef} value={pollUrl} size={QR_PNG_SIZE} level="M" marginSize={2} className="hidden" />
+          <div className="flex-1 min-w-0">
+            <p className="font-semibold mb-1">Scan to vote</p>
+            <p className="text-sm text-gray-600 break-all mb-4">{pollUrl}</p>
+            <div className="flex flex-wrap gap-2">
+              <Button type="button" variant="outline" onClick={handleDownloadPng} className="bg-white text-black">
+                Download PNG
+              </Button>
+              <Button type="button" variant="outline" onClick={handleDownloadSvg} className="bg-white text-black">
+                Download SVG
+              </Button>
+              <Link href={getPollUrl(pollId, '/poster')} target="_blank">
+                <Button type="button" variant="outline" className="bg-white text-black">
+                  Printable poster
+                </Button>
+              </Link>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {snippets && (
+        <div className="mt-6 rounded-lg border border-gray-300 p-6 text-black">
+          <div className="flex items-center gap-3 mb-4">
+            <label htmlFor="embedTheme" className="font-semibold">Theme</label>
+            <select
+              id="embedTheme"
+              value={embedTheme}
+              onChange={(e) => setEmbedTheme(e.target.value as EmbedTheme)}
+              className="h-9 rounded-md border border-gray-300 bg-white px-3 text-sm"
+            >
+              <option value="light">Light</option>
+              <option value="dark">Dark</option>
+            </select>
+          </div>
+
+          {([
+            ['iframe', 'Iframe', 'Paste anywhere that accepts HTML.'],
+            ['script', 'Script', 'Resizes itself to fit the poll. Add data-accent="2563eb" to change the highlight colour.']
+          ] as const).map(([snippet, label, hint]) => (
+            <div key={snippet} className="mb-4 last:mb-0">
+              <div className="flex items-center justify-between mb-2">
+                <p className="font-semibold">{label}</p>
+                <Button type="button" variant="outline" onClick={() => handleCopySnippet(snippet)} className="bg-white text-black">
+                  {copiedSnippet === snippet ? '✓ Copied!' : 'Copy'}
+                </Button>
+              </div>
+              <pre className="whitespace-pre-wrap break-all rounded-md bg-gray-50 p-3 text-xs text-gray-800">{snippets[snippet]}</pre>
+              <p className="text-xs text-gray-500 mt-1">{hint}</p>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
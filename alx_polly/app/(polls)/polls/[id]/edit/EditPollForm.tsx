@@ -0,0 +1,429 @@
+'use client';
+
+/**
+ * EditPollForm Component
+ *
+ * WHAT: Form that lets a poll owner change the title, description, end date and
+ * visibility of a poll, and reorder, add or remove its options.
+ *
+ * WHY: Options that already have votes can't be treated like fresh ones:
+ * - Their text is locked so existing votes keep their meaning
+ * - Removing one asks for explicit confirmation, because its votes are deleted too
+ *
+ * HOW: react-hook-form with useFieldArray holds the options in display order.
+ * Existing options keep their database ID so the server can tell kept, new and
+ * removed options apart; the updatePoll server action does the actual write.
+ *
+ * @component
+ */
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { DeleteConfirmation } from '@/components/ui/delete-confirmation';
+import { ArrowDown, ArrowUp, Loader2, Lock, Plus, Trash2 } from 'lucide-react';
+import { updatePoll } from '@/lib/actions';
+import { PollUpdateSchema } from '@/lib/validation-utils';
+import type { PollOption } from '@/lib/types';
+import { toDateTimeLocalValue } from '@/lib/utils';
+
+/** Poll data needed to prefill the edit form */
+interface EditablePoll {
+  id: string;
+  title: string;
+  description?: string | null;
+  is_public: boolean;
+  is_active: boolean;
+  export_voter_identity?: boolean;
+  allow_anonymous_votes?: boolean;
+  lock_votes?: boolean;
+  starts_at?: string | null;
+  end_date?: string | null;
+  options: PollOption[];
+}
+
+type PollUpdateFormData = z.output<typeof PollUpdateSchema>;
+
+interface EditPollFormProps {
+  poll: EditablePoll;
+}
+
+export default function EditPollForm({ poll }: EditPollFormProps) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [pendingRemoveIndex, setPendingRemoveIndex] = useState<number | null>(null);
+
+  const voteCounts = new Map(poll.options.map(option => [option.option_id, option.vote_count || 0]));
+  const initialEndDate = poll.end_date ? toDateTimeLocalValue(poll.end_date) : undefined;
+
+  const form = useForm({
+    resolver: zodResolver(PollUpdateSchema),
+    defaultValues: {
+      title: poll.title,
+      description: poll.description || '',
+      options: poll.options.map(option => ({ id: option.option_id, text: option.option_text })),
+      isPublic: poll.is_public,
+      isActive: poll.is_active,
+      exportVoterIdentity: poll.export_voter_identity ?? false,
+      allowAnonymousVotes: poll.allow_anonymous_votes ?? true,
+      lockVotes: poll.lock_votes ?? false,
+      startsAt: poll.starts_at ? toDateTimeLocalValue(poll.starts_at) : undefined,
+      endDate: initialEndDate,
+      confirmRemoveVotedOptions: false
+    }
+  });
+
+  // Field array items get their React key in `key`, leaving `id` for the option ID
+  const { fields, append, remove, move } = useFieldArray({
+    control: form.control,
+    name: 'options',
+    keyName: 'key'
+  });
+
+  const getVoteCount = (index: number): number => {
+    const optionId = form.getValues(`options.${index}.id`);
+    return optionId ? voteCounts.get(optionId) || 0 : 0;
+  };
+
+  const addOption = () => {
+    if (fields.length < 10) {
+      append({ text: '' });
+    }
+  };
+
+  const removeOption = (index: number) => {
+    if (fields.length <= 2) return;
+
+    if (getVoteCount(index) > 0) {
+      setPendingRemoveIndex(index);
+      return;
+    }
+
+    remove(index);
+  };
+
+  const confirmRemoveOption = () => {
+    if (pendingRemoveIndex === null) return;
+
+    remove(pendingRemoveIndex);
+    form.setValue('confirmRemoveVotedOptions', true);
+    setPendingRemoveIndex(null);
+  };
+
+  const handleSubmit = async (data: PollUpdateFormData) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      // An untouched end date is sent back as stored, so a poll that has
+      // already ended can still be edited and keeps its exact end time
+      const endDateChanged = data.endDate !== initialEndDate;
+      let endDate = null;
+      if (data.endDate) {
+        endDate = endDateChanged ? new Date(data.endDate) : new Date(poll.end_date!);
+        if (endDateChanged && endDate <= new Date()) {
+          throw new Error('End date must be in the future');
+        }
+      }
+
+      // datetime-local values are in the browser's time zone
+      const startsAt = data.startsAt ? new Date(data.startsAt) : null;
+      if (startsAt && endDate && endDate <= startsAt) {
+        throw new Error('End date must be after the start date');
+      }
+
+      const result = await updatePoll(poll.id, {
+        title: data.title,
+        description: data.description || undefined,
+        options: data.options,
+        isPublic: data.isPublic,
+        isActive: data.isActive,
+        exportVoterIdentity: data.exportVoterIdentity,
+        allowAnonymousVotes: data.allowAnonymousVotes,
+        lockVotes: data.lockVotes,
+        startsAt: startsAt ? startsAt.toISOString() : null,
+        endDate: endDate ? endDate.toISOString() : null,
+        confirmRemoveVotedOptions: data.confirmRemoveVotedOptions
+      });
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update poll');
+      }
+
+      router.push(`/polls/${poll.id}`);
+      router.refresh();
+    } catch (error) {
+      console.error('Poll update error:', error);
+      setError(error instanceof Error ? error.message : 'An error occurred while updating the poll');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="min-h-[80vh] bg-[#f7fafd] py-12 px-4 flex flex-col items-center justify-center">
+      <div className="w-full max-w-2xl mx-auto bg-white rounded-2xl shadow-lg border border-gray-200 p-10 flex flex-col items-center">
+        <div className="flex items-center justify-between w-full mb-10">
+          <h1 className="text-4xl font-extrabold text-black tracking-tight">Edit Poll</h1>
+          <Button
+            type="button"
+            className="px-6 py-2 bg-gray-100 border border-gray-300 text-black rounded-lg font-semibold shadow hover:bg-gray-200"
+            onClick={() => router.push(`/polls/${poll.id}`)}
+          >
+            Cancel
+          </Button>
+        </div>
+
+        {error && (
+          <Alert className="w-full mb-6" variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="w-full space-y-6">
+          <Card className="max-w-2xl w-full mx-auto p-8 space-y-6 bg-white rounded-2xl border border-[#e5e7eb] shadow-md">
+            <CardHeader className="text-black text-[20px] rounded-2xl pb-2">
+              <CardTitle className="font-bold text-[20px]">Poll Information</CardTitle>
+              <CardDescription className="text-[#6b7280] text-[15px]">
+                Options that already have votes are locked. You can still move them, or remove them along with their votes.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="rounded-2xl">
+              <div className="grid gap-4 text-black">
+                <div className="grid gap-2">
+                  <Label htmlFor="title" className="font-semibold">Poll Title <span className="text-red-500">*</span></Label>
+                  <Input
+                    id="title"
+                    {...form.register('title')}
+                    className="rounded-lg border border-[#e5e7eb] bg-[#f9fafb]"
+                    required
+                    minLength={3}
+                    maxLength={200}
+                    disabled={isSubmitting}
+                  />
+                  {form.formState.errors.title && (
+                    <p className="text-sm text-red-600 mt-1">{form.formState.errors.title.message}</p>
+                  )}
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="description" className="font-semibold">Description (Optional)</Label>
+                  <Textarea
+                    id="description"
+                    {...form.register('description')}
+                    className="rounded-lg border border-[#e5e7eb] bg-[#f9fafb]"
+                    maxLength={1000}
+                    disabled={isSubmitting}
+                    rows={3}
+                  />
+                  {form.formState.errors.description && (
+                    <p className="text-sm text-red-600 mt-1">{form.formState.errors.description.message}</p>
+                  )}
+                </div>
+                <div className="grid gap-2">
+                  <Label className="font-semibold">Poll Options <span className="text-red-500">*</span></Label>
+                  <div className="space-y-2">
+                    {fields.map((field, index) => {
+                      const voteCount = getVoteCount(index);
+                      const isLocked = voteCount > 0;
+
+                      return (
+                        <div key={field.key} className="space-y-2">
+                          <div className="flex gap-2 items-center">
+                            <div className="relative flex-1">
+                              <Input
+                                {...form.register(`options.${index}.text`)}
+                                placeholder={`Option ${index + 1}`}
+                                className={`rounded-lg border border-[#e5e7eb] bg-[#f9fafb] ${isLocked ? 'pr-28 text-gray-500' : ''}`}
+                                maxLength={100}
+                                readOnly={isLocked}
+                                disabled={isSubmitting}
+                                aria-describedby={isLocked ? `option-${index}-locked` : undefined}
+                              />
+                              {isLocked && (
+                                <span
+                                  id={`option-${index}-locked`}
+                                  className="absolute right-2 top-1/2 -translate-y-1/2 inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700"
+                                >
+                                  <Lock className="h-3 w-3" aria-hidden="true" />
+                                  {voteCount} {voteCount === 1 ? 'vote' : 'votes'}
+                                </span>
+                              )}
+                            </div>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              className="px-3"
+                              onClick={() => move(index, index - 1)}
+                              disabled={isSubmitting || index === 0}
+                              aria-label={`Move option ${index + 1} up`}
+                            >
+                              <ArrowUp className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              className="px-3"
+                              onClick={() => move(index, index + 1)}
+                              disabled={isSubmitting || index === fields.length - 1}
+                              aria-label={`Move option ${index + 1} down`}
+                            >
+                              <ArrowDown className="h-4 w-4" />
+                            </Button>
+                            {fields.length > 2 && (
+                              <Button
+                                type="button"
+                                variant="outline"
+                                className="px-3 text-red-500 hover:text-red-700 hover:bg-red-50"
+                                onClick={() => removeOption(index)}
+                                disabled={isSubmitting}
+                                aria-label={`Remove option ${index + 1}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                          <DeleteConfirmation
+                            isVisible={pendingRemoveIndex === index}
+                            isDeleting={isSubmitting}
+                            onConfirm={confirmRemoveOption}
+                            onCancel={() => setPendingRemoveIndex(null)}
+                            title="Remove voted option?"
+                            message={`This option has ${voteCount} ${voteCount === 1 ? 'vote' : 'votes'}. Removing it will permanently delete those votes when you save.`}
+                          />
+                          {form.formState.errors.options?.[index]?.text && (
+                            <p className="text-sm text-red-600">{form.formState.errors.options[index]?.text?.message}</p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {form.formState.errors.options && typeof form.formState.errors.options === 'object' && 'message' in form.formState.errors.options && (
+                    <p className="text-sm text-red-600">{form.formState.errors.options.message}</p>
+                  )}
+                </div>
+                <div className="flex justify-start">
+                  <Button
+                    type="button"
+                    onClick={addOption}
+                    className="bg-[#f3f6fa] text-black border border-[#e5e7eb] rounded-lg font-semibold hover:bg-[#e5e7eb]"
+                    disabled={isSubmitting || fields.length >= 10}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    {fields.length >= 10 ? 'Maximum Options Reached' : 'Add Option'}
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="max-w-2xl w-full mx-auto p-8 space-y-6 bg-white rounded-2xl border border-[#e5e7eb] shadow-md">
+            <CardHeader className="text-black text-[20px] rounded-2xl pb-2">
+              <CardTitle className="font-bold text-[20px]">Poll Settings</CardTitle>
+            </CardHeader>
+            <CardContent className="rounded-2xl">
+              <div className="flex flex-col gap-3 my-4">
+                <label className="flex items-center gap-2 text-black">
+                  <input
+                    type="checkbox"
+                    {...form.register('isActive')}
+                    className="h-4 w-4"
+                    disabled={isSubmitting}
+                  />
+                  Open for voting
+                </label>
+                <label className="flex items-center gap-2 text-black">
+                  <input
+                    type="checkbox"
+                    {...form.register('isPublic')}
+                    className="h-4 w-4"
+                    disabled={isSubmitting}
+                  />
+                  Make poll results public
+                </label>
+                <label className="flex items-center gap-2 text-black">
+                  <input
+                    type="checkbox"
+                    {...form.register('allowAnonymousVotes')}
+                    className="h-4 w-4"
+                    disabled={isSubmitting}
+                  />
+                  Allow anonymous votes
+                </label>
+                <label className="flex items-center gap-2 text-black">
+                  <input
+                    type="checkbox"
+                    {...form.register('lockVotes')}
+                    className="h-4 w-4"
+                    disabled={isSubmitting}
+                  />
+                  Lock votes once cast
+                </label>
+                <label className="flex items-center gap-2 text-black">
+                  <input
+                    type="checkbox"
+                    {...form.register('exportVoterIdentity')}
+                    className="h-4 w-4"
+                    disabled={isSubmitting}
+                  />
+                  Include voter identities in exports
+                </label>
+                <p className="text-sm text-gray-500 -mt-1 ml-6">
+                  When off, ballot exports replace voters with stable pseudonyms.
+                </p>
+              </div>
+              <div className="grid gap-2 text-black mb-4">
+                <Label htmlFor="startsAt" className="font-semibold">Voting Opens (Optional)</Label>
+                <Input
+                  id="startsAt"
+                  {...form.register('startsAt', { setValueAs: (value) => value || undefined })}
+                  type="datetime-local"
+                  className="rounded-lg border border-[#e5e7eb] bg-[#f9fafb]"
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="grid gap-2 text-black">
+                <Label htmlFor="endDate" className="font-semibold">Poll End Date (Optional)</Label>
+                <Input
+                  id="endDate"
+                  {...form.register('endDate', { setValueAs: (value) => value || undefined })}
+                  type="datetime-local"
+                  className="rounded-lg border border-[#e5e7eb] bg-[#f9fafb]"
+                  disabled={isSubmitting}
+                />
+                {form.formState.errors.endDate && (
+                  <p className="text-sm text-red-600 mt-1">{form.formState.errors.endDate.message}</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end w-full max-w-2xl">
+            <Button
+              type="submit"
+              className="px-8 py-2 text-white bg-blue-700 rounded-lg font-semibold shadow hover:bg-blue-800"
+              disabled={isSubmitting || pendingRemoveIndex !== null}
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Save Changes'
+              )}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,43 @@
+import { notFound, redirect } from "next/navigation";
+import { getPollWithResults } from "@/lib/actions";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import type { PollOption } from "@/lib/types";
+import type { RankedBallot } from "@/lib/vote-utils";
+import EditPollForm from "./EditPollForm";
+
+interface EditPollPageProps {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Poll edit page. Only the poll creator can open it; everyone else gets the
+ * poll's not-found page so private polls don't leak their existence.
+ */
+async function EditPollPage({ params }: EditPollPageProps) {
+  const { id } = await params;
+
+  const supabase = await createServerSupabaseClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect(`/login?redirectTo=/polls/${id}/edit`);
+  }
+
+  const poll = await getPollWithResults(id);
+
+  if (!poll || poll.created_by !== user.id) {
+    notFound();
+  }
+
+  // poll_results counts first preferences only; an option ranked lower down has votes too
+  const options = poll.voting_method === 'ranked_choice'
+    ? (poll.options as PollOption[]).map(option => ({
+        ...option,
+        vote_count: ((poll.ballots ?? []) as RankedBallot[]).filter(ballot => ballot.rankings.includes(option.option_id)).length
+      }))
+    : poll.options;
+
+  return <EditPollForm poll={{ ...poll, options }} />;
+}
+
+export default EditPollPage;
@@ -0,0 +1,69 @@
+import { ImageResponse } from "next/og";
+import { getPollPreview } from "@/lib/actions";
+
+/**
+ * Open Graph card for a poll link: the title, the leading options and their
+ * current percentage bars. Private and missing polls get a generic card, so
+ * the image never shows what a private poll is about.
+ */
+
+export const alt = 'ALX Polly poll';
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+
+interface PollImageProps {
+  params: { id: string }
+}
+
+export default async function PollOpenGraphImage({ params }: PollImageProps) {
+  const preview = await getPollPreview(params.id);
+
+  if (!preview) {
+    return new ImageResponse(
+      (
+        <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', background: '#ffffff', color: '#000000' }}>
+          <div style={{ fontSize: 80, fontWeight: 700 }}>ALX Polly</div>
+          <div style={{ fontSize: 40, color: '#4b5563', marginTop: 24 }}>You&apos;ve been invited to vote</div>
+        </div>
+      ),
+      size
+    );
+  }
+
+  // Satori needs a single text node here
+  const voteLabel = `${preview.totalVotes} ${preview.totalVotes === 1 ? 'vote' : 'votes'}`;
+  const footer = [
+    preview.otherOptionCount > 0 ? `+${preview.otherOptionCount} more` : null,
+    preview.voting_method === 'ranked_choice' ? `${voteLabel} (first preferences)` : voteLabel
+  ].filter(Boolean).join(' · ');
+
+  return new ImageResponse(
+    (
+      <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column', padding: 64, background: '#ffffff', color: '#000000' }}>
+        <div style={{ fontSize: 56, fontWeight: 700, lineHeight: 1.15, display: 'flex' }}>
+          {preview.title.length > 90 ? `${preview.title.slice(0, 87)}...` : preview.title}
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column', marginTop: 40, gap: 20 }}>
+          {preview.topOptions.map(option => (
+            <div key={option.option_id} style={{ display: 'flex', flexDirection: 'column' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 30 }}>
+                <span>{option.option_text.length > 50 ? `${option.option_text.slice(0, 47)}...` : option.option_text}</span>
+                <span style={{ fontWeight: 700 }}>{Math.round(option.vote_percentage)}%</span>
+              </div>
+              <div style={{ display: 'flex', height: 16, marginTop: 8, borderRadius: 8, background: '#e5e7eb' }}>
+                <div style={{ width: `${Math.min(100, option.vote_percentage)}%`, borderRadius: 8, background: '#2563eb' }} />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: 'auto', fontSize: 28, color: '#4b5563' }}>
+          <span>{footer}</span>
+          <span style={{ fontWeight: 700, color: '#000000' }}>ALX Polly</span>
+        </div>
+      </div>
+    ),
+    size
+  );
+}
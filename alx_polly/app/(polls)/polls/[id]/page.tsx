@@ -1,46 +1,130 @@
+import type { Metadata } from "next";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import { notFound } from "next/navigation";
-import { getPollWithResults, getUserVotes, deletePoll } from "@/lib/actions";
+import { getPollWithResults, getUserVotes, deletePoll, getPollInvites, getPollInviteStatus, getWebhooks, getVoteEligibility, getVoteChangeStats, getPollPreview } from "@/lib/actions";
 import { createServerSupabaseClient } from "@/lib/supabase-server";
 import { createOptimizedVoteProcessor } from "@/lib/vote-utils";
+import { isPollScheduled } from "@/lib/utils";
 import PollVotingForm from "./PollVotingForm";
 import PollResults from "./PollResults";
 import ShareButtons from "./ShareButtons";
+import PollCopyActions from "./PollCopyActions";
+import PollInvites from "./PollInvites";
+import WebhookManager from "@/components/webhook-manager";
+import { Avatar } from "@/components/ui/avatar";
+import type { PollInviteStatus } from "@/lib/types";
 
 interface PollDetailPageProps {
   params: Promise<{ id: string }>
+  searchParams: Promise<{ invite?: string }>
 }
 
-async function PollDetailPage({ params }: PollDetailPageProps) {
+const INVITE_UNAVAILABLE_MESSAGES: Record<Exclude<PollInviteStatus, 'valid'>, string> = {
+  invalid: "This invite link isn't valid. Check that you copied the whole link.",
+  revoked: 'The poll owner has revoked this invite link.',
+  expired: 'This invite link has expired.',
+  used_up: 'This invite link has reached its usage limit.'
+};
+
+/**
+ * Link preview metadata. Only public polls describe themselves; private ones
+ * get a generic title so a shared invite link doesn't leak their content.
+ * The Open Graph image comes from ./opengraph-image.tsx.
+ */
+export async function generateMetadata({ params }: PollDetailPageProps): Promise<Metadata> {
   const { id } = await params;
+  const preview = await getPollPreview(id);
+
+  if (!preview) {
+    return {
+      title: 'Poll · ALX Polly',
+      robots: { index: false }
+    };
+  }
+
+  const description = preview.description
+    || `${preview.totalVotes} ${preview.totalVotes === 1 ? 'vote' : 'votes'} so far. Cast yours on ALX Polly.`;
 
-  // Get poll data with results
-  const poll = await getPollWithResults(id);
+  return {
+    title: `${preview.title} · ALX Polly`,
+    description,
+    openGraph: {
+      title: preview.title,
+      description,
+      type: 'website',
+      siteName: 'ALX Polly'
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: preview.title,
+      description
+    }
+  };
+}
+
+async function PollDetailPage({ params, searchParams }: PollDetailPageProps) {
+  const { id } = await params;
+  const { invite } = await searchParams;
+
+  // Get poll data with results; an invite opens private polls
+  const poll = await getPollWithResults(id, invite);
   
   if (!poll) {
-    notFound();
+    if (!invite) {
+      notFound();
+    }
+
+    const inviteStatus = await getPollInviteStatus(id, invite);
+    return (
+      <div className="min-h-screen bg-white py-8 flex items-center justify-center">
+        <div className="text-center max-w-md mx-auto px-4">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">Invite Link Unavailable</h2>
+          <p className="text-gray-600 mb-8">
+            {inviteStatus === 'valid'
+              ? "This poll couldn't be loaded. Please try again later."
+              : INVITE_UNAVAILABLE_MESSAGES[inviteStatus]}
+          </p>
+          <Link href="/polls" className="text-blue-600 hover:underline font-medium">
+            Browse public polls
+          </Link>
+        </div>
+      </div>
+    );
   }
 
   // Get current user
   const supabase = await createServerSupabaseClient()
   const { data: { user } } = await supabase.auth.getUser();
   
-  // Get user's votes if authenticated
-  const userVotes = user ? await getUserVotes(id, user.id) : [];
+  // Get the viewer's votes, by account or anonymous voter cookie
+  const userVotes = await getUserVotes(id, user?.id, invite);
   const hasVoted = userVotes.length > 0;
 
   // Check if user is the poll creator
   const isCreator = user?.id === poll.created_by;
+  const invites = isCreator && !poll.is_public ? await getPollInvites(id) : [];
+  const voteChanges = isCreator ? await getVoteChangeStats(id) : null;
+  const webhooks = isCreator ? await getWebhooks(id) : [];
+  const creatorName = poll.creator?.full_name || poll.profiles?.full_name || poll.profiles?.email || 'Anonymous';
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-GB');
   };
 
+  const formatDateTime = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+  };
+
   const isPollEnded = poll.end_date && new Date(poll.end_date) <= new Date();
-  const isActive = poll.is_active && !isPollEnded;
+  const isScheduled = poll.is_active && isPollScheduled(poll.starts_at);
+  const isActive = poll.is_active && !isPollEnded && !isScheduled;
+  const eligibility = isActive && !hasVoted ? await getVoteEligibility(id) : 'eligible';
+  // Signed-in voters can change or retract their ballot while the poll is open
+  const canChangeVote = isActive && hasVoted && !!user && !poll.lock_votes;
 
   // OPTIMIZED: Create vote processor for efficient calculations
   const voteProcessor = createOptimizedVoteProcessor(poll.options);
@@ -55,10 +139,13 @@ async function PollDetailPage({ params }: PollDetailPageProps) {
             ← Back to Polls
           </Link>
           {isCreator && (
-            <div className="flex gap-3">
-              <Button variant="outline" className="bg-white text-black hover:bg-gray-100 border-gray-300 text-lg font-bold">
-                Edit Poll
-              </Button>
+            <div className="flex items-start gap-3">
+              <Link href={`/polls/${id}/edit`}>
+                <Button variant="outline" className="bg-white text-black hover:bg-gray-100 border-gray-300 text-lg font-bold">
+                  Edit Poll
+                </Button>
+              </Link>
+              <PollCopyActions pollId={id} />
               <form action={async () => {
                 'use server';
                 await deletePoll(id);
@@ -77,7 +164,12 @@ async function PollDetailPage({ params }: PollDetailPageProps) {
 
         {/* Poll status indicators */}
         <div className="mb-4 flex gap-2">
-          {!isActive && (
+          {isScheduled && (
+            <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-purple-100 text-purple-800">
+              Scheduled
+            </span>
+          )}
+          {!isActive && !isScheduled && (
             <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-red-100 text-red-800">
               {isPollEnded ? 'Poll Ended' : 'Inactive'}
             </span>
@@ -87,6 +179,18 @@ async function PollDetailPage({ params }: PollDetailPageProps) {
               Private Poll
             </span>
           )}
+          {poll.lock_votes && (
+            <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-800">
+              Votes Locked
+            </span>
+          )}
+          {poll.eligibility && poll.eligibility !== 'anyone' && (
+            <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-indigo-100 text-indigo-800">
+              {poll.eligibility === 'authenticated' && 'Signed-in voters only'}
+              {poll.eligibility === 'email_domain' && `@${poll.eligible_email_domain} voters only`}
+              {poll.eligibility === 'email_list' && 'Listed voters only'}
+            </span>
+          )}
         </div>
 
         {/* Main poll card */}
@@ -101,18 +205,44 @@ async function PollDetailPage({ params }: PollDetailPageProps) {
           </CardHeader>
           <CardContent className="space-y-6 px-8 pb-8">
             {/* Show voting form or results */}
-            {isActive && !hasVoted ? (
+            {isScheduled && poll.starts_at ? (
+              <div className="rounded-lg border border-purple-200 bg-purple-50 p-6 text-center">
+                <p className="text-lg font-semibold text-purple-900">
+                  Voting opens on {formatDateTime(poll.starts_at)}
+                </p>
+                <p className="text-sm text-purple-700 mt-1">
+                  Come back then to cast your vote.
+                </p>
+              </div>
+            ) : isActive && !hasVoted ? (
               <PollVotingForm 
                 poll={poll} 
-                userId={user?.id}
                 allowMultiple={poll.allow_multiple_selections}
+                inviteToken={invite}
+                eligibility={eligibility}
+                eligibleEmailDomain={poll.eligible_email_domain}
               />
             ) : (
-              <PollResults 
-                poll={poll} 
-                userVotes={userVotes}
-                showVotes={hasVoted || !isActive || !user}
-              />
+              <>
+                {canChangeVote && (
+                  <PollVotingForm
+                    poll={poll}
+                    allowMultiple={poll.allow_multiple_selections}
+                    inviteToken={invite}
+                    currentVotes={userVotes}
+                  />
+                )}
+                {isActive && hasVoted && poll.lock_votes && (
+                  <p className="text-sm text-gray-600">
+                    Votes on this poll are final once cast.
+                  </p>
+                )}
+                <PollResults 
+                  poll={poll} 
+                  userVotes={userVotes}
+                  showVotes={hasVoted || !isActive || !user}
+                />
+              </>
             )}
 
             {/* Poll statistics */}
@@ -137,16 +267,36 @@ async function PollDetailPage({ params }: PollDetailPageProps) {
                   <div className="text-sm text-gray-600">Unique Voters</div>
                 </div>
               </div>
+              {voteChanges && (voteChanges.changed > 0 || voteChanges.retracted > 0) && (
+                <p className="text-sm text-gray-600 text-center mb-6">
+                  {voteChanges.changed} {voteChanges.changed === 1 ? 'vote' : 'votes'} changed
+                  {' · '}
+                  {voteChanges.retracted} retracted
+                </p>
+              )}
 
               {/* Creator and date info */}
               <div className="flex justify-between items-end">
                 <div className="text-left">
-                  <div className="text-lg text-black font-normal">
-                    Created by {poll.profiles?.full_name || poll.profiles?.email || 'Anonymous'}
+                  <div className="flex items-center gap-3 text-lg text-black font-normal">
+                    <Avatar src={poll.creator?.avatar_url} name={creatorName} size={40} className="text-lg" />
+                    <span>
+                      Created by{' '}
+                      {poll.creator?.handle ? (
+                        <Link href={`/u/${poll.creator.handle}`} className="font-semibold text-blue-600 hover:underline">
+                          {creatorName}
+                        </Link>
+                      ) : creatorName}
+                    </span>
                   </div>
                 </div>
                 <div className="text-lg text-black text-right font-normal">
                   Created on {formatDate(poll.created_at)}
+                  {poll.starts_at && (
+                    <div className="text-sm text-gray-600">
+                      {isScheduled ? 'Opens' : 'Opened'} on {formatDateTime(poll.starts_at)}
+                    </div>
+                  )}
                   {poll.end_date && (
                     <div className="text-sm text-gray-600">
                       Ends on {formatDate(poll.end_date)}
@@ -158,8 +308,14 @@ async function PollDetailPage({ params }: PollDetailPageProps) {
           </CardContent>
         </Card>
 
-        {/* Share section */}
-        <ShareButtons pollTitle={poll.title} />
+        {/* Invite links for private polls, or the public share section */}
+        {isCreator && !poll.is_public ? (
+          <PollInvites pollId={id} initialInvites={invites} />
+        ) : (
+          <ShareButtons pollTitle={poll.title} pollId={id} />
+        )}
+
+        {isCreator && <WebhookManager pollId={id} initialWebhooks={webhooks} />}
       </div>
     </div>
   );
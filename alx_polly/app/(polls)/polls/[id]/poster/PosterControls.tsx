@@ -0,0 +1,38 @@
+'use client';
+
+/**
+ * PosterControls Component
+ *
+ * Client-side pieces of the printable poster: the QR code (qrcode.react
+ * renders in the browser) and a print button that is hidden on paper.
+ *
+ * @component
+ */
+
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from '@/components/ui/button';
+
+export function PosterQrCode({ url, title }: { url: string; title: string }) {
+  return (
+    <QRCodeSVG
+      value={url}
+      size={320}
+      level="M"
+      marginSize={2}
+      title={`QR code for ${title}`}
+      className="h-auto w-[80mm] max-w-full"
+    />
+  );
+}
+
+export function PrintButton() {
+  return (
+    <Button
+      type="button"
+      onClick={() => window.print()}
+      className="bg-black text-white hover:bg-gray-800 font-bold print:hidden"
+    >
+      Print poster
+    </Button>
+  );
+}
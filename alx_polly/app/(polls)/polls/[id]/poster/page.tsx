@@ -0,0 +1,75 @@
+import Link from "next/link";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import { getPollWithResults } from "@/lib/actions";
+import type { PollOption } from "@/lib/types";
+import { PosterQrCode, PrintButton } from "./PosterControls";
+import "./poster.css";
+
+interface PollPosterPageProps {
+  params: Promise<{ id: string }>
+  searchParams: Promise<{ invite?: string }>
+}
+
+/**
+ * Printable A4 poster for a poll, for events where people vote from their
+ * phones: the title, the options, a QR code and a short URL. A private
+ * poll's invite token is kept in the QR code so scanning still opens it.
+ */
+async function PollPosterPage({ params, searchParams }: PollPosterPageProps) {
+  const { id } = await params;
+  const { invite } = await searchParams;
+
+  const poll = await getPollWithResults(id, invite);
+
+  if (!poll) {
+    notFound();
+  }
+
+  const requestHeaders = await headers();
+  const host = requestHeaders.get('x-forwarded-host') ?? requestHeaders.get('host') ?? 'localhost:3000';
+  const protocol = requestHeaders.get('x-forwarded-proto') ?? (host.startsWith('localhost') ? 'http' : 'https');
+
+  const pollPath = `/polls/${id}${invite ? `?invite=${encodeURIComponent(invite)}` : ''}`;
+  const pollUrl = `${protocol}://${host}${pollPath}`;
+
+  const instructions = poll.voting_method === 'ranked_choice'
+    ? 'Rank the options in order of preference'
+    : poll.allow_multiple_selections ? 'Choose all that apply' : 'Choose one';
+
+  return (
+    <div>
+      <div className="mx-auto mb-6 flex max-w-[210mm] items-center justify-between print:hidden">
+        <Link href={pollPath} className="text-blue-600 hover:underline text-lg font-bold">
+          ← Back to poll
+        </Link>
+        <PrintButton />
+      </div>
+
+      <article className="mx-auto flex aspect-[210/297] max-w-[210mm] flex-col items-center border border-gray-300 bg-white p-[15mm] text-center text-black print:aspect-auto print:h-[270mm] print:border-0 print:p-0">
+        <h1 className="text-5xl font-bold leading-tight">{poll.title}</h1>
+        {poll.description && (
+          <p className="mt-4 text-xl text-gray-600">{poll.description}</p>
+        )}
+
+        <p className="mt-8 text-lg font-semibold uppercase tracking-wide text-gray-500">{instructions}</p>
+        <ol className="mt-4 w-full max-w-[150mm] space-y-3 text-left text-2xl">
+          {(poll.options as PollOption[]).map((option, index) => (
+            <li key={option.option_id} className="flex gap-4 rounded-lg border border-gray-300 px-5 py-3">
+              <span className="font-bold text-gray-400">{index + 1}</span>
+              <span>{option.option_text}</span>
+            </li>
+          ))}
+        </ol>
+
+        <div className="mt-auto flex flex-col items-center pt-8">
+          <PosterQrCode url={pollUrl} title={poll.title} />
+          <p className="mt-4 text-2xl font-bold">Scan to vote</p>
+          <p className="mt-1 text-lg text-gray-600 break-all">{host}{pollPath}</p>
+        </div>
+      </article>
+    </div>
+  );
+}
+
+export default PollPosterPage;
@@ -0,0 +1,123 @@
+'use client';
+
+/**
+ * TemplatePicker Component
+ *
+ * Row of poll templates shown above the create form: the built-in templates
+ * followed by the ones the user saved from their own polls. Picking a template
+ * hands it to `onSelect`, which prefills the form; nothing is created until
+ * the form is submitted. Saved templates can be deleted from here.
+ *
+ * @component
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { LayoutTemplate, X } from 'lucide-react';
+import { deletePollTemplate, getPollTemplates } from '@/lib/actions';
+import { BUILT_IN_TEMPLATES } from '@/lib/poll-templates';
+import type { PollTemplate } from '@/lib/types';
+
+interface TemplatePickerProps {
+  /** Called with the template the user picked */
+  onSelect: (template: PollTemplate) => void;
+  /** ID of a template to apply as soon as templates are loaded (from `?template=`) */
+  initialTemplateId?: string | null;
+  disabled?: boolean;
+}
+
+export default function TemplatePicker({ onSelect, initialTemplateId, disabled = false }: TemplatePickerProps) {
+  const [savedTemplates, setSavedTemplates] = useState<PollTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const onSelectRef = useRef(onSelect);
+
+  useEffect(() => {
+    onSelectRef.current = onSelect;
+  }, [onSelect]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getPollTemplates().then(templates => {
+      if (cancelled) return;
+      setSavedTemplates(templates);
+
+      const initial = initialTemplateId
+        ? [...templates, ...BUILT_IN_TEMPLATES].find(template => template.id === initialTemplateId)
+        : undefined;
+      if (initial) {
+        setSelectedId(initial.id);
+        onSelectRef.current(initial);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [initialTemplateId]);
+
+  const handleSelect = (template: PollTemplate) => {
+    setSelectedId(template.id);
+    onSelect(template);
+  };
+
+  const handleDelete = async (templateId: string) => {
+    setError(null);
+    const result = await deletePollTemplate(templateId);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to delete template');
+      return;
+    }
+
+    setSavedTemplates(prev => prev.filter(template => template.id !== templateId));
+    if (selectedId === templateId) {
+      setSelectedId(null);
+    }
+  };
+
+  const templates = [...BUILT_IN_TEMPLATES, ...savedTemplates];
+
+  return (
+    <div className="w-full max-w-2xl mb-6">
+      <div className="flex items-center gap-2 mb-3 text-black font-semibold">
+        <LayoutTemplate className="h-5 w-5" aria-hidden="true" />
+        Start from a template
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {templates.map(template => (
+          <div
+            key={template.id}
+            className={`inline-flex items-center rounded-full border text-sm transition-colors ${
+              selectedId === template.id
+                ? 'border-blue-600 bg-blue-50 text-blue-800'
+                : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() => handleSelect(template)}
+              disabled={disabled}
+              className="px-3 py-1.5"
+              title={template.title}
+            >
+              {template.name}
+            </button>
+            {!template.built_in && (
+              <button
+                type="button"
+                onClick={() => handleDelete(template.id)}
+                disabled={disabled}
+                className="pr-2 text-gray-400 hover:text-red-600"
+                aria-label={`Delete template ${template.name}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useForm, useFieldArray, type SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -17,17 +17,33 @@ import { Textarea } from "@/components/ui/textarea";
 import { Plus, Trash2, Loader2 } from 'lucide-react';
 import { ErrorBoundary } from '@/components/ui/error-boundary';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import type { PollEligibility, PollTemplate } from '@/lib/types';
+import TemplatePicker from './TemplatePicker';
 
 type PollFormData = z.infer<typeof PollCreationSchema>;
 
+const ELIGIBILITY_OPTIONS: Array<{ value: PollEligibility; label: string }> = [
+  { value: 'anyone', label: 'Anyone' },
+  { value: 'authenticated', label: 'Signed-in users only' },
+  { value: 'email_domain', label: 'Users with an email address at one domain' },
+  { value: 'email_list', label: 'Only the email addresses I list' },
+];
+
 function NewPollPage() {
   const [activeTab, setActiveTab] = useState<'basic' | 'settings'>('basic');
   const [error, setError] = useState<string | null>(null);
   const [rateLimitError, setRateLimitError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [initialTemplateId, setInitialTemplateId] = useState<string | null>(null);
   const formRef = useRef<HTMLFormElement>(null);
   const router = useRouter();
 
+  // `?template=` preselects a template, e.g. right after "Save as Template".
+  // Read from window rather than useSearchParams so the page can still prerender.
+  useEffect(() => {
+    setInitialTemplateId(new URLSearchParams(window.location.search).get('template'));
+  }, []);
+
   const form = useForm({
     resolver: zodResolver(PollCreationSchema),
     defaultValues: {
@@ -36,7 +52,14 @@ function NewPollPage() {
       options: [{ text: '' }, { text: '' }],
       allowMultipleSelections: false,
       isPublic: true,
-      endDate: undefined
+      allowAnonymousVotes: true,
+      lockVotes: false,
+      votingMethod: 'plurality' as const,
+      startsAt: undefined,
+      endDate: undefined,
+      eligibility: 'anyone' as const,
+      eligibleEmailDomain: '',
+      eligibleEmails: ''
     }
   });
 
@@ -75,6 +98,27 @@ function NewPollPage() {
     if (rateLimitError) setRateLimitError(null);
   };
 
+  // Prefill the form from a template; visibility, eligibility and dates are left to the user
+  const applyTemplate = (template: PollTemplate) => {
+    form.reset({
+      title: template.title,
+      description: template.description || '',
+      options: template.options.map(text => ({ text })),
+      allowMultipleSelections: template.voting_method === 'ranked_choice' ? false : template.allow_multiple_selections,
+      votingMethod: template.voting_method,
+      isPublic: form.getValues('isPublic'),
+      allowAnonymousVotes: form.getValues('allowAnonymousVotes'),
+      lockVotes: form.getValues('lockVotes'),
+      startsAt: undefined,
+      endDate: undefined,
+      eligibility: form.getValues('eligibility'),
+      eligibleEmailDomain: form.getValues('eligibleEmailDomain'),
+      eligibleEmails: form.getValues('eligibleEmails')
+    });
+    setActiveTab('basic');
+    clearErrors();
+  };
+
 
 
   const handleSubmit = async (data: any) => {
@@ -97,13 +141,26 @@ function NewPollPage() {
         }
       }
 
+      // datetime-local values are in the browser's time zone
+      const startsAt = data.startsAt ? new Date(data.startsAt) : null;
+      if (startsAt && endDate && endDate <= startsAt) {
+        throw new Error('End date must be after the start date');
+      }
+
       const pollData = {
         title: data.title,
         description: data.description || null,
         options: data.options,
         allowMultipleSelections: data.allowMultipleSelections,
         isPublic: data.isPublic,
-        endDate: endDate ? endDate.toISOString() : null
+        allowAnonymousVotes: data.allowAnonymousVotes,
+        lockVotes: data.lockVotes,
+        votingMethod: data.votingMethod,
+        startsAt: startsAt ? startsAt.toISOString() : null,
+        endDate: endDate ? endDate.toISOString() : null,
+        eligibility: data.eligibility,
+        eligibleEmailDomain: data.eligibleEmailDomain || null,
+        eligibleEmails: data.eligibleEmails
       };
 
       const result = await createPoll(pollData);
@@ -147,6 +204,12 @@ function NewPollPage() {
           </Alert>
         )}
         
+        <TemplatePicker
+          onSelect={applyTemplate}
+          initialTemplateId={initialTemplateId}
+          disabled={isSubmitting}
+        />
+
         <div className="flex w-full bg-blue-50 rounded-xl border border-blue-100 mb-6">
           <button
             className={`flex-1 py-3 rounded-xl font-semibold transition-all duration-150 ${activeTab === 'basic' ? 'bg-white text-blue-900 shadow' : 'bg-transparent text-gray-500'}`}
@@ -275,10 +338,42 @@ function NewPollPage() {
                 <CardDescription className="text-[#6b7280] text-[15px]">Configure additional options for your poll</CardDescription>
               </CardHeader>
               <CardContent className="rounded-2xl">
+                <div className="grid gap-2 text-black">
+                  <Label className="font-semibold">Voting Method</Label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name="votingMethod"
+                      checked={form.watch('votingMethod') === 'plurality'}
+                      onChange={() => {
+                        form.setValue('votingMethod', 'plurality');
+                        clearErrors();
+                      }}
+                      className="h-4 w-4"
+                    />
+                    Standard (most votes wins)
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name="votingMethod"
+                      checked={form.watch('votingMethod') === 'ranked_choice'}
+                      onChange={() => {
+                        form.setValue('votingMethod', 'ranked_choice');
+                        // Ranked ballots already include every option
+                        form.setValue('allowMultipleSelections', false);
+                        clearErrors();
+                      }}
+                      className="h-4 w-4"
+                    />
+                    Ranked choice (instant runoff)
+                  </label>
+                </div>
                 <div className="flex flex-col gap-3 my-4">
                   <label className="flex items-center gap-2 text-black">
                     <input 
                       type="checkbox" 
+                      disabled={form.watch('votingMethod') === 'ranked_choice'}
                       checked={form.watch('allowMultipleSelections')}
                       onChange={(e) => {
                         form.setValue('allowMultipleSelections', e.target.checked);
@@ -300,6 +395,95 @@ function NewPollPage() {
                     />
                     Make poll results public
                   </label>
+                  <label className="flex items-center gap-2 text-black">
+                    <input 
+                      type="checkbox" 
+                      checked={form.watch('lockVotes')}
+                      onChange={(e) => {
+                        form.setValue('lockVotes', e.target.checked);
+                        clearErrors();
+                      }}
+                      className="h-4 w-4" 
+                    />
+                    Lock votes once cast (voters can&apos;t change or retract them)
+                  </label>
+                </div>
+                <div className="grid gap-2 text-black mb-4">
+                  <Label className="font-semibold">Who Can Vote</Label>
+                  {ELIGIBILITY_OPTIONS.map(option => (
+                    <label key={option.value} className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name="eligibility"
+                        checked={form.watch('eligibility') === option.value}
+                        onChange={() => {
+                          form.setValue('eligibility', option.value);
+                          clearErrors();
+                        }}
+                        className="h-4 w-4"
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                  {form.watch('eligibility') === 'email_domain' && (
+                    <>
+                      <Input
+                        {...form.register('eligibleEmailDomain')}
+                        placeholder="example.com"
+                        aria-label="Allowed email domain"
+                        className="rounded-lg border border-[#e5e7eb] bg-[#f9fafb]"
+                      />
+                      {form.formState.errors.eligibleEmailDomain && (
+                        <p className="text-sm text-red-600">{form.formState.errors.eligibleEmailDomain.message}</p>
+                      )}
+                    </>
+                  )}
+                  {form.watch('eligibility') === 'email_list' && (
+                    <>
+                      <Textarea
+                        {...form.register('eligibleEmails')}
+                        placeholder={'alice@example.com\nbob@example.com'}
+                        aria-label="Allowed email addresses"
+                        rows={4}
+                        className="rounded-lg border border-[#e5e7eb] bg-[#f9fafb]"
+                      />
+                      <p className="text-sm text-gray-500">One address per line, or separated by commas.</p>
+                      {form.formState.errors.eligibleEmails && (
+                        <p className="text-sm text-red-600">{form.formState.errors.eligibleEmails.message}</p>
+                      )}
+                    </>
+                  )}
+                  {form.watch('eligibility') === 'anyone' && (
+                    <label className="flex items-center gap-2 ml-6">
+                      <input
+                        type="checkbox"
+                        checked={form.watch('allowAnonymousVotes')}
+                        onChange={(e) => {
+                          form.setValue('allowAnonymousVotes', e.target.checked);
+                          clearErrors();
+                        }}
+                        className="h-4 w-4"
+                      />
+                      Allow anonymous votes (without signing in)
+                    </label>
+                  )}
+                  {form.watch('eligibility') !== 'anyone' && (
+                    <p className="text-sm text-gray-500">Voters must sign in; email rules also require a confirmed email address.</p>
+                  )}
+                </div>
+                <div className="grid gap-2 text-black mb-4">
+                  <Label htmlFor="startsAt" className="font-semibold">Voting Opens (Optional)</Label>
+                  <Input 
+                    id="startsAt" 
+                    {...form.register('startsAt')}
+                    onChange={(e) => {
+                      form.setValue('startsAt', e.target.value || undefined);
+                      clearErrors();
+                    }}
+                    type="datetime-local" 
+                    className="rounded-lg border border-[#e5e7eb] bg-[#f9fafb]" 
+                  />
+                  <p className="text-sm text-gray-500">Leave empty to open the poll as soon as it is created.</p>
                 </div>
                 <div className="grid gap-2 text-black">
                   <Label htmlFor="endDate" className="font-semibold">Poll End Date (Optional)</Label>
@@ -0,0 +1,84 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { getPublicProfile, listPolls } from "@/lib/actions";
+import { formatDate } from "@/lib/utils";
+import { Avatar } from "@/components/ui/avatar";
+import InfinitePollList from "@/app/(polls)/polls/InfinitePollList";
+import type { PollListFilterValues } from "@/app/(polls)/polls/PollListFilters";
+
+interface PublicProfilePageProps {
+  params: Promise<{ handle: string }>
+}
+
+export async function generateMetadata({ params }: PublicProfilePageProps): Promise<Metadata> {
+  const { handle } = await params;
+  const profile = await getPublicProfile(handle);
+
+  if (!profile) {
+    return { title: 'Profile not found · ALX Polly' };
+  }
+
+  const name = profile.full_name || `@${profile.handle}`;
+  return {
+    title: `${name} (@${profile.handle}) · ALX Polly`,
+    description: profile.bio || `Polls created by ${name} on ALX Polly.`
+  };
+}
+
+/**
+ * Public creator profile at /u/[handle]: name, avatar, bio, join date and
+ * the creator's public polls. Hidden profiles and unknown handles 404.
+ */
+async function PublicProfilePage({ params }: PublicProfilePageProps) {
+  const { handle } = await params;
+  const profile = await getPublicProfile(handle);
+
+  if (!profile || !profile.handle) {
+    notFound();
+  }
+
+  const filters: PollListFilterValues = { status: 'all', sort: 'newest', creator: profile.id };
+  const page = await listPolls(filters);
+  const polls = page.data || [];
+  const name = profile.full_name || `@${profile.handle}`;
+
+  return (
+    <section className="min-h-[80vh] bg-[#f7fafd] py-12 px-4">
+      <div className="w-full max-w-7xl mx-auto">
+        <div className="flex flex-col items-center text-center sm:flex-row sm:items-center sm:text-left gap-6 mb-12">
+          <Avatar src={profile.avatar_url} name={name} size={112} className="text-4xl border-4 border-white shadow-lg" />
+          <div>
+            <h1 className="text-4xl font-extrabold text-black tracking-tight">{name}</h1>
+            <p className="text-gray-500 text-lg mt-1">
+              @{profile.handle}
+              {profile.created_at && <> · Joined {formatDate(profile.created_at)}</>}
+            </p>
+            {profile.bio && (
+              <p className="text-gray-700 mt-4 max-w-2xl whitespace-pre-line">{profile.bio}</p>
+            )}
+          </div>
+        </div>
+
+        <h2 className="text-2xl font-bold text-black mb-6">Public polls</h2>
+
+        {!page.success ? (
+          <div className="text-center py-12">
+            <p className="text-red-600">{page.error || 'Failed to load polls'}</p>
+          </div>
+        ) : polls.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">{name} hasn&apos;t published any polls yet.</p>
+          </div>
+        ) : (
+          <InfinitePollList
+            initialPolls={polls}
+            initialCursor={page.pagination?.nextCursor ?? null}
+            filters={filters}
+          />
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default PublicProfilePage;
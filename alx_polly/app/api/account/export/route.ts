@@ -0,0 +1,105 @@
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { NextResponse } from 'next/server'
+import { EXPORT_CONTENT_TYPES } from '@/lib/export-utils'
+import { MFA_REQUIRED_MESSAGE, needsMfaChallenge } from '@/lib/mfa'
+
+// GET /api/account/export - Downloads everything the signed-in user has stored, as JSON
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'You must be logged in to download your data' }, { status: 401 })
+    }
+
+    if (await needsMfaChallenge(supabase, user)) {
+      return NextResponse.json({ error: MFA_REQUIRED_MESSAGE }, { status: 403 })
+    }
+
+    const [
+      { data: profile, error: profileError },
+      { data: polls, error: pollsError },
+      { data: votes, error: votesError },
+    ] = await Promise.all([
+      supabase
+        .from('profiles')
+        .select('*')
+        .eq('id', user.id)
+        .single(),
+      supabase
+        .from('polls')
+        .select('*, poll_options(id, text, order_index)')
+        .eq('created_by', user.id)
+        .order('created_at', { ascending: true }),
+      // Ballots cast on any poll, including other people's
+      supabase
+        .from('votes')
+        .select('id, poll_id, option_id, rank, ballot_id, created_at, polls(title), poll_options(text)')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true }),
+    ])
+
+    if (profileError || pollsError || votesError) {
+      console.error('Error fetching account data for export:', profileError || pollsError || votesError)
+      return NextResponse.json({ error: 'Failed to export your data' }, { status: 500 })
+    }
+
+    // Aggregate counts only; who voted on the user's polls isn't their data to take
+    const pollIds = (polls || []).map(poll => poll.id)
+    const { data: results, error: resultsError } = pollIds.length
+      ? await supabase
+          .from('poll_results')
+          .select('poll_id, option_id, option_text, order_index, vote_count, vote_percentage')
+          .in('poll_id', pollIds)
+          .order('order_index', { ascending: true })
+      : { data: [], error: null }
+
+    if (resultsError) {
+      console.error('Error fetching poll results for account export:', resultsError)
+      return NextResponse.json({ error: 'Failed to export your data' }, { status: 500 })
+    }
+
+    const exportedAt = new Date().toISOString()
+    const bundle = {
+      exported_at: exportedAt,
+      account: {
+        id: user.id,
+        email: user.email ?? null,
+        created_at: user.created_at,
+        sign_in_methods: user.identities?.map(identity => identity.provider) ?? [],
+      },
+      profile,
+      polls: (polls || []).map(({ poll_options: options, ...poll }) => ({
+        ...poll,
+        options: [...(options || [])].sort((a, b) => a.order_index - b.order_index),
+        results: (results || [])
+          .filter(result => result.poll_id === poll.id)
+          .map(result => ({
+            option_id: result.option_id,
+            option_text: result.option_text,
+            vote_count: result.vote_count || 0,
+            vote_percentage: result.vote_percentage || 0,
+          })),
+      })),
+      votes: (votes || []).map(({ polls: votedPoll, poll_options: votedOption, ...vote }) => ({
+        ...vote,
+        poll_title: (Array.isArray(votedPoll) ? votedPoll[0] : votedPoll)?.title ?? null,
+        option_text: (Array.isArray(votedOption) ? votedOption[0] : votedOption)?.text ?? null,
+      })),
+    }
+
+    return new NextResponse(JSON.stringify(bundle, null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES.json,
+        'Content-Disposition': `attachment; filename="alx-polly-data-${exportedAt.slice(0, 10)}.json"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+
+  } catch (error) {
+    console.error('Error in GET /api/account/export:', error)
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 })
+  }
+}
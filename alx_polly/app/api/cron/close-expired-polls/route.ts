@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { closeExpiredPolls } from '@/lib/poll-lifecycle'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+
+async function handleSweep(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { closedPollIds, closedAt } = await closeExpiredPolls()
+    return NextResponse.json({ success: true, data: { closed: closedPollIds.length, pollIds: closedPollIds, closedAt } })
+  } catch (error) {
+    console.error('Error in /api/cron/close-expired-polls:', error)
+    return NextResponse.json({ error: 'Failed to close expired polls' }, { status: 500 })
+  }
+}
+
+// GET /api/cron/close-expired-polls - Closes polls past their end date (Vercel Cron sends GET)
+export async function GET(request: NextRequest) {
+  return handleSweep(request)
+}
+
+// POST /api/cron/close-expired-polls - Same sweep, for schedulers that POST
+export async function POST(request: NextRequest) {
+  return handleSweep(request)
+}
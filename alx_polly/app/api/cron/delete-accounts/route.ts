@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteScheduledAccounts } from '@/lib/account-lifecycle'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+
+async function handleSweep(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { deletedUserIds, failedUserIds } = await deleteScheduledAccounts()
+    return NextResponse.json({ success: true, data: { deleted: deletedUserIds.length, failed: failedUserIds.length } })
+  } catch (error) {
+    console.error('Error in /api/cron/delete-accounts:', error)
+    return NextResponse.json({ error: 'Failed to delete scheduled accounts' }, { status: 500 })
+  }
+}
+
+// GET /api/cron/delete-accounts - Deletes accounts past their grace period (Vercel Cron sends GET)
+export async function GET(request: NextRequest) {
+  return handleSweep(request)
+}
+
+// POST /api/cron/delete-accounts - Same sweep, for schedulers that POST
+export async function POST(request: NextRequest) {
+  return handleSweep(request)
+}
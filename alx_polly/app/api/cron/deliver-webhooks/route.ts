@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deliverDueWebhooks } from '@/lib/webhooks'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+
+async function handleSweep(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await deliverDueWebhooks()
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    console.error('Error in /api/cron/deliver-webhooks:', error)
+    return NextResponse.json({ error: 'Failed to deliver webhooks' }, { status: 500 })
+  }
+}
+
+// GET /api/cron/deliver-webhooks - Retries webhook deliveries that are due (Vercel Cron sends GET)
+export async function GET(request: NextRequest) {
+  return handleSweep(request)
+}
+
+// POST /api/cron/deliver-webhooks - Same sweep, for schedulers that POST
+export async function POST(request: NextRequest) {
+  return handleSweep(request)
+}
@@ -0,0 +1,167 @@
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { NextRequest, NextResponse } from 'next/server'
+import { PollExportQuerySchema } from '@/lib/validation-utils'
+import {
+  EXPORT_CONTENT_TYPES,
+  exportFilename,
+  pseudonymiseVoter,
+  toCsv,
+  toJson,
+  toXlsx,
+  type ExportSheet,
+} from '@/lib/export-utils'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+// GET /api/polls/[id]/export?format=csv|json|xlsx&type=results|ballots - Owner-only download
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const pollId = params.id
+  const { searchParams } = new URL(request.url)
+
+  const queryResult = PollExportQuerySchema.safeParse({
+    format: searchParams.get('format') ?? undefined,
+    type: searchParams.get('type') ?? undefined,
+  })
+
+  if (!queryResult.success) {
+    const errorMessages = queryResult.error.issues.map(issue => issue.message).join(', ')
+    return NextResponse.json({ error: `Validation failed: ${errorMessages}` }, { status: 400 })
+  }
+
+  const { format, type } = queryResult.data
+
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'You must be logged in to export a poll' }, { status: 401 })
+    }
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('id, title, created_by, voting_method, export_voter_identity')
+      .eq('id', pollId)
+      .single()
+
+    if (pollError || !poll) {
+      return NextResponse.json({ error: 'Poll not found' }, { status: 404 })
+    }
+
+    if (poll.created_by !== user.id) {
+      return NextResponse.json({ error: 'You can only export your own polls' }, { status: 403 })
+    }
+
+    const isRankedChoice = poll.voting_method === 'ranked_choice'
+    const meta = {
+      poll: { id: poll.id, title: poll.title, voting_method: poll.voting_method },
+      exported_at: new Date().toISOString(),
+    }
+
+    let sheet: ExportSheet
+
+    if (type === 'results') {
+      const { data: results, error: resultsError } = await supabase
+        .from('poll_results')
+        .select('option_id, option_text, order_index, vote_count, vote_percentage')
+        .eq('poll_id', pollId)
+        .order('order_index', { ascending: true })
+
+      if (resultsError) {
+        console.error('Error fetching poll results for export:', resultsError)
+        return NextResponse.json({ error: 'Failed to export poll results' }, { status: 500 })
+      }
+
+      sheet = {
+        name: 'Results',
+        meta,
+        columns: [
+          { key: 'position', header: 'Position' },
+          { key: 'option_text', header: 'Option' },
+          { key: 'option_id', header: 'Option ID' },
+          // Ranked-choice counts come from the poll_results view, which only counts first preferences
+          { key: 'vote_count', header: isRankedChoice ? 'First-choice votes' : 'Votes' },
+          { key: 'vote_percentage', header: 'Percentage' },
+        ],
+        rows: (results || []).map(result => ({
+          position: result.order_index + 1,
+          option_id: result.option_id,
+          option_text: result.option_text,
+          vote_count: result.vote_count || 0,
+          vote_percentage: result.vote_percentage || 0,
+        })),
+      }
+    } else {
+      const [{ data: votes, error: votesError }, { data: options, error: optionsError }] = await Promise.all([
+        supabase
+          .from('votes')
+          .select('user_id, voter_token, voter_ip, option_id, rank, ballot_id, created_at')
+          .eq('poll_id', pollId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('poll_options')
+          .select('id, text')
+          .eq('poll_id', pollId),
+      ])
+
+      if (votesError || optionsError) {
+        console.error('Error fetching ballots for export:', votesError || optionsError)
+        return NextResponse.json({ error: 'Failed to export ballots' }, { status: 500 })
+      }
+
+      const optionText = new Map((options || []).map(option => [option.id, option.text as string]))
+
+      sheet = {
+        name: 'Ballots',
+        meta: { ...meta, voters: poll.export_voter_identity ? 'identified' : 'pseudonymised' },
+        columns: [
+          { key: 'voted_at', header: 'Voted at' },
+          { key: 'voter', header: poll.export_voter_identity ? 'Voter' : 'Voter (pseudonym)' },
+          { key: 'option_text', header: 'Option' },
+          { key: 'option_id', header: 'Option ID' },
+          ...(isRankedChoice
+            ? [
+                { key: 'rank', header: 'Rank' },
+                { key: 'ballot_id', header: 'Ballot ID' },
+              ]
+            : []),
+        ],
+        rows: (votes || []).map(vote => {
+          // Anonymous voters are identified by their voter cookie hash; older votes by IP
+          const identity = String(vote.user_id ?? vote.voter_token ?? vote.voter_ip ?? 'unknown')
+          return {
+            voted_at: vote.created_at,
+            voter: poll.export_voter_identity ? identity : pseudonymiseVoter(pollId, identity),
+            option_id: vote.option_id,
+            option_text: optionText.get(vote.option_id) ?? '',
+            rank: vote.rank ?? null,
+            ballot_id: vote.ballot_id ?? null,
+          }
+        }),
+      }
+    }
+
+    const body = format === 'csv'
+      ? toCsv(sheet)
+      : format === 'json'
+        ? toJson(sheet)
+        : new Uint8Array(await toXlsx(sheet))
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${exportFilename(poll.title, type, format)}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+
+  } catch (error) {
+    console.error(`Error in GET /api/polls/${pollId}/export:`, error)
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 })
+  }
+}
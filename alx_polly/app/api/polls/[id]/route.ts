@@ -1,7 +1,9 @@
 
 import { createServerSupabaseClient } from '@/lib/supabase-server'
-import { revalidatePath } from 'next/cache'
 import { NextRequest, NextResponse } from 'next/server'
+import { InviteTokenSchema } from '@/lib/validation-utils'
+import { deletePoll, POLL_ERROR_STATUS, updatePoll } from '@/lib/services/polls'
+import { rateLimitedResponse, withRateLimitHeaders } from '@/lib/route-rate-limit'
 
 interface RouteParams {
   params: {
@@ -10,11 +12,15 @@ interface RouteParams {
 }
 
 // GET /api/polls/[id] - Retrieves a single poll with results
+// Private polls are readable with ?invite=<token>
 export async function GET(request: NextRequest, { params }: RouteParams) {
   const pollId = params.id
 
   try {
-    const supabase = await createServerSupabaseClient()
+    const inviteResult = InviteTokenSchema.safeParse(request.nextUrl.searchParams.get('invite'))
+    const supabase = await createServerSupabaseClient({
+      inviteToken: inviteResult.success ? inviteResult.data : null
+    })
 
     const { data: poll, error: pollError } = await supabase
       .from('polls')
@@ -62,50 +68,57 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   }
 }
 
-// DELETE /api/polls/[id] - Deletes a poll
-export async function DELETE(request: NextRequest, { params }: RouteParams) {
+// PATCH /api/polls/[id] - Updates a poll and its options
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
   const pollId = params.id
 
   try {
-    const supabase = await createServerSupabaseClient()
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
-
-    if (authError || !user) {
-      return NextResponse.json({ error: 'You must be logged in to delete a poll' }, { status: 401 })
+    const body = await request.json()
+    const result = await updatePoll(pollId, body)
+
+    if (!result.success) {
+      if (result.error.code === 'RATE_LIMITED' && result.rateLimit) {
+        return rateLimitedResponse(result.rateLimit)
+      }
+
+      const { message, code = 'CREATION_FAILED' } = result.error
+      return withRateLimitHeaders(
+        NextResponse.json({ error: message, code }, { status: POLL_ERROR_STATUS[code] }),
+        result.rateLimit
+      )
     }
 
-    const { data: poll, error: pollError } = await supabase
-      .from('polls')
-      .select('created_by')
-      .eq('id', pollId)
-      .single()
-
-    if (pollError || !poll) {
-      return NextResponse.json({ error: 'Poll not found' }, { status: 404 })
-    }
+    return withRateLimitHeaders(NextResponse.json({ success: true, data: result.data }), result.rateLimit)
 
-    if (poll.created_by !== user.id) {
-      return NextResponse.json({ error: 'You can only delete your own polls' }, { status: 403 })
-    }
+  } catch (error) {
+    console.error(`Error in PATCH /api/polls/${pollId}:`, error)
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 })
+  }
+}
 
-    const { error: deleteError } = await supabase
-      .from('polls')
-      .delete()
-      .eq('id', pollId)
+// DELETE /api/polls/[id] - Deletes a poll
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const pollId = params.id
 
-    if (deleteError) {
-      console.error('Error deleting poll:', deleteError)
-      return NextResponse.json({ error: 'Failed to delete poll' }, { status: 500 })
+  try {
+    const result = await deletePoll(pollId)
+
+    if (!result.success) {
+      if (result.error.code === 'RATE_LIMITED' && result.rateLimit) {
+        return rateLimitedResponse(result.rateLimit)
+      }
+
+      const { message, code = 'CREATION_FAILED' } = result.error
+      return withRateLimitHeaders(
+        NextResponse.json({ error: message, code }, { status: POLL_ERROR_STATUS[code] }),
+        result.rateLimit
+      )
     }
 
-    revalidatePath('/polls')
-    return NextResponse.json({ success: true })
+    return withRateLimitHeaders(NextResponse.json({ success: true }), result.rateLimit)
 
   } catch (error) {
     console.error(`Error in DELETE /api/polls/${pollId}:`, error)
-    if (error instanceof Error) {
-        return NextResponse.json({ error: error.message }, { status: 500 })
-    }
     return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 })
   }
 }
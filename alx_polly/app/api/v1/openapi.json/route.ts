@@ -0,0 +1,8 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildOpenApiDocument } from '@/lib/openapi'
+
+// GET /api/v1/openapi.json - OpenAPI 3.0 description of /api/v1
+// Public: no API key needed
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin))
+}
@@ -0,0 +1,23 @@
+import { apiData, pollErrorResponse, withApiKey } from '@/lib/api-v1'
+import { getPollResults } from '@/lib/services/polls'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+// GET /api/v1/polls/[id]/options - Lists a poll's options in display order
+// Scope: read. Private polls are readable by their owner or with ?invite=<token>
+export const GET = withApiKey('read', async (request, { params }: RouteParams, { auth }) => {
+  const result = await getPollResults(params.id, request.nextUrl.searchParams.get('invite'), auth)
+  if (!result.success) {
+    return pollErrorResponse(result.error)
+  }
+
+  return apiData(result.data.options.map(option => ({
+    id: option.option_id,
+    text: option.option_text,
+    order_index: option.order_index
+  })))
+})
@@ -0,0 +1,20 @@
+import { apiData, pollErrorResponse, withApiKey } from '@/lib/api-v1'
+import { getPollResults } from '@/lib/services/polls'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+// GET /api/v1/polls/[id]/results - Vote tallies, plus the instant-runoff count on ranked polls
+// Scope: read. Private polls are readable by their owner or with ?invite=<token>
+export const GET = withApiKey('read', async (request, { params }: RouteParams, { auth }) => {
+  const result = await getPollResults(params.id, request.nextUrl.searchParams.get('invite'), auth)
+  if (!result.success) {
+    return pollErrorResponse(result.error)
+  }
+
+  const { options, totalVotes, runoff } = result.data
+  return apiData({ options, totalVotes, runoff })
+})
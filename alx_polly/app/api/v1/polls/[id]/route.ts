@@ -0,0 +1,34 @@
+import { apiData, pollErrorResponse, withApiKey } from '@/lib/api-v1'
+import { deletePoll, getPollResults } from '@/lib/services/polls'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+// GET /api/v1/polls/[id] - Retrieves a poll with its options
+// Scope: read. Private polls are readable by their owner or with ?invite=<token>
+export const GET = withApiKey('read', async (request, { params }: RouteParams, { auth }) => {
+  const result = await getPollResults(params.id, request.nextUrl.searchParams.get('invite'), auth)
+  if (!result.success) {
+    return pollErrorResponse(result.error)
+  }
+
+  const { poll, options } = result.data
+  return apiData({
+    ...poll,
+    options: options.map(option => ({ id: option.option_id, text: option.option_text, order_index: option.order_index }))
+  })
+})
+
+// DELETE /api/v1/polls/[id] - Deletes a poll owned by the key's owner
+// Scope: write
+export const DELETE = withApiKey('write', async (_request, { params }: RouteParams, { auth }) => {
+  const result = await deletePoll(params.id, auth)
+  if (!result.success) {
+    return pollErrorResponse(result.error, result.rateLimit)
+  }
+
+  return apiData(result.data)
+})
@@ -0,0 +1,42 @@
+import { apiData, apiError, voteErrorResponse, withApiKey } from '@/lib/api-v1'
+import { castVote, getOwnBallot } from '@/lib/services/polls'
+
+interface RouteParams {
+  params: {
+    id: string
+  }
+}
+
+// GET /api/v1/polls/[id]/votes - The key owner's ballot on the poll
+// Scope: read. `optionIds` is empty if the owner hasn't voted
+export const GET = withApiKey('read', async (_request, { params }: RouteParams, { auth }) => {
+  const result = await getOwnBallot(params.id, auth)
+  if (!result.success) {
+    return voteErrorResponse(result.error)
+  }
+
+  return apiData(result.data)
+})
+
+// POST /api/v1/polls/[id]/votes - Casts the key owner's ballot
+// Scope: write. Body: { optionIds, inviteToken? }; ranked polls take optionIds in preference order
+export const POST = withApiKey('write', async (request, { params }: RouteParams, { auth }) => {
+  let body: { optionIds?: unknown; inviteToken?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return apiError(400, 'Request body must be JSON', 'VALIDATION_ERROR')
+  }
+
+  const result = await castVote({
+    pollId: params.id,
+    optionIds: Array.isArray(body?.optionIds) ? body.optionIds : [],
+    inviteToken: typeof body?.inviteToken === 'string' ? body.inviteToken : null
+  }, auth)
+
+  if (!result.success) {
+    return voteErrorResponse(result.error, result.rateLimit)
+  }
+
+  return apiData(result.data, 201)
+})
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { listPolls } from '@/lib/actions'
+import { createPoll } from '@/lib/services/polls'
+import { apiData, apiError, pollErrorResponse, withApiKey } from '@/lib/api-v1'
+
+// GET /api/v1/polls - Lists public polls, one cursor-paginated page at a time
+// Scope: read. Query params: search, status, sort, creator, cursor, limit (see PollListQuerySchema)
+export const GET = withApiKey('read', async (request) => {
+  const query = Object.fromEntries(request.nextUrl.searchParams.entries())
+
+  try {
+    const response = await listPolls(query)
+    if (!response.success) {
+      const status = response.statusCode ?? 500
+      return apiError(status, response.error ?? 'An unexpected error occurred', status === 400 ? 'VALIDATION_ERROR' : undefined)
+    }
+
+    return NextResponse.json({ data: response.data ?? [], pagination: response.pagination })
+  } catch (error) {
+    console.error('Error in GET /api/v1/polls:', error)
+    return apiError(500, 'An unexpected error occurred')
+  }
+})
+
+// POST /api/v1/polls - Creates a poll owned by the key's owner
+// Scope: write. Body: see PollCreationSchema
+export const POST = withApiKey('write', async (request, _context, { auth }) => {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return apiError(400, 'Request body must be JSON', 'VALIDATION_ERROR')
+  }
+
+  const result = await createPoll(body, auth)
+  if (!result.success) {
+    return pollErrorResponse(result.error, result.rateLimit)
+  }
+
+  return apiData(result.data, 201)
+})
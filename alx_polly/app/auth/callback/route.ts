@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { EmailOtpType } from '@supabase/supabase-js'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getSafeRedirectPath } from '@/lib/utils'
+import { getPostSignInPath } from '@/lib/mfa'
+
+/** Email link types Supabase sends with a token_hash */
+const EMAIL_OTP_TYPES: EmailOtpType[] = ['magiclink', 'email', 'signup', 'invite', 'recovery', 'email_change']
+
+/**
+ * Sends the user back to the login page with a message it can show
+ */
+function redirectToLogin(request: NextRequest, error: string) {
+  const url = new URL('/login', request.nextUrl.origin)
+  url.searchParams.set('error', error)
+  return NextResponse.redirect(url)
+}
+
+// GET /auth/callback - Finishes OAuth and magic-link sign-in, then redirects to ?next=
+// OAuth and the default email template send a PKCE `code`; custom email
+// templates can link here with `token_hash` and `type` instead
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const next = getSafeRedirectPath(searchParams.get('next'))
+
+  // The provider refused or the user cancelled
+  const providerError = searchParams.get('error_description') || searchParams.get('error')
+  if (providerError) {
+    return redirectToLogin(request, providerError)
+  }
+
+  const code = searchParams.get('code')
+  const tokenHash = searchParams.get('token_hash')
+  const type = searchParams.get('type') as EmailOtpType | null
+
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    if (code) {
+      // The PKCE verifier was stored in a cookie when sign-in started
+      const { error } = await supabase.auth.exchangeCodeForSession(code)
+      if (error) {
+        console.error('Error exchanging auth code:', error)
+        return redirectToLogin(request, 'This sign-in link is invalid or has expired. Please try again.')
+      }
+    } else if (tokenHash && type && EMAIL_OTP_TYPES.includes(type)) {
+      const { error } = await supabase.auth.verifyOtp({ token_hash: tokenHash, type })
+      if (error) {
+        console.error('Error verifying email link:', error)
+        return redirectToLogin(request, 'This sign-in link is invalid or has expired. Please try again.')
+      }
+    } else {
+      return redirectToLogin(request, 'The sign-in link is incomplete. Please try again.')
+    }
+
+    // Accounts with two-factor authentication still have to enter a code
+    const destination = await getPostSignInPath(supabase, type === 'recovery' ? '/reset-password' : next)
+    return NextResponse.redirect(new URL(destination, request.nextUrl.origin))
+  } catch (error) {
+    console.error('Error in /auth/callback:', error)
+    return redirectToLogin(request, 'Sign-in failed. Please try again.')
+  }
+}
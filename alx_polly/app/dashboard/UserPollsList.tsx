@@ -9,7 +9,7 @@
  * Features:
  * - Responsive grid layout (1-3 columns based on screen size)
  * - Integrated poll deletion with confirmation dialog
- * - Edit functionality placeholder (for future implementation)
+ * - Edit button linking to the poll edit page
  * - Error handling and loading states
  * - Real-time poll statistics display
  * - Poll status indicators (active, ended, private)
@@ -22,6 +22,7 @@
  * @component
  */
 
+import { useRouter } from 'next/navigation';
 import { PollWithStats } from '@/lib/types';
 import { usePollDelete } from '@/hooks/usePollDelete';
 import { PollCard } from '@/components/poll-card';
@@ -55,10 +56,10 @@ export default function UserPollsList({ polls, userId }: UserPollsListProps) {
     cancelDelete,
     clearError,
   } = usePollDelete();
+  const router = useRouter();
 
   const handleEdit = (pollId: string) => {
-    // TODO: Implement edit functionality
-    alert('Edit functionality will be available in a future update.');
+    router.push(`/polls/${pollId}/edit`);
   };
 
   // Clear error when component mounts with new polls
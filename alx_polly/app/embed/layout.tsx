@@ -0,0 +1,16 @@
+import type { Metadata } from "next";
+import "./embed.css";
+
+/**
+ * EmbedLayout is the chromeless layout for pages framed on other sites.
+ * It leaves out the app header and footer; pages wrap their content in
+ * `.polly-embed` for the compact, theme-able look from embed.css.
+ */
+
+export const metadata: Metadata = {
+  robots: { index: false, follow: false },
+};
+
+export default function EmbedLayout({ children }: { children: React.ReactNode }) {
+  return <>{children}</>;
+}
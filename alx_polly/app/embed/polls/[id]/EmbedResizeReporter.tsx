@@ -0,0 +1,34 @@
+'use client';
+
+/**
+ * EmbedResizeReporter Component
+ *
+ * Tells the page hosting the iframe how tall the poll is, so public/embed.js
+ * can size the frame to fit as the voter moves from the ballot to the results.
+ * Posts `{ type: 'polly:resize', pollId, height }` to the parent window.
+ *
+ * @component
+ */
+
+import { useEffect } from 'react';
+
+export default function EmbedResizeReporter({ pollId }: { pollId: string }) {
+  useEffect(() => {
+    if (window.parent === window) return;
+
+    const report = () => {
+      window.parent.postMessage(
+        { type: 'polly:resize', pollId, height: document.body.scrollHeight },
+        '*'
+      );
+    };
+
+    const observer = new ResizeObserver(report);
+    observer.observe(document.body);
+    report();
+
+    return () => observer.disconnect();
+  }, [pollId]);
+
+  return null;
+}
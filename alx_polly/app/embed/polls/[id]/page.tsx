@@ -0,0 +1,98 @@
+import type { CSSProperties } from "react";
+import { getPollWithResults, getUserVotes, getVoteEligibility } from "@/lib/actions";
+import { createServerSupabaseClient } from "@/lib/supabase-server";
+import { getIneligibilityMessage, isPollScheduled } from "@/lib/utils";
+import { EmbedOptionsSchema } from "@/lib/validation-utils";
+import PollVotingForm from "@/app/(polls)/polls/[id]/PollVotingForm";
+import PollResults from "@/app/(polls)/polls/[id]/PollResults";
+import EmbedResizeReporter from "./EmbedResizeReporter";
+
+/**
+ * Embedded poll page, framed on other sites by an iframe or public/embed.js.
+ * Shows the ballot, or the results once the visitor has voted or the poll is
+ * closed. Votes go through the same submitVote action, rate limits and
+ * eligibility checks as the full poll page.
+ *
+ * Query params: `theme` ('light' or 'dark'), `accent` (hex colour without
+ * '#') and `invite` (for private polls).
+ */
+
+interface EmbedPollPageProps {
+  params: Promise<{ id: string }>
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export default async function EmbedPollPage({ params, searchParams }: EmbedPollPageProps) {
+  const { id } = await params;
+  const { theme, accent, invite } = EmbedOptionsSchema.parse(await searchParams);
+
+  // Accent recolours the blue highlights (links, your choice, result bars)
+  const style = (accent
+    ? { '--color-blue-500': `#${accent}`, '--color-blue-600': `#${accent}` }
+    : {}) as CSSProperties;
+
+  const poll = await getPollWithResults(id, invite);
+
+  if (!poll) {
+    return (
+      <div className="polly-embed" data-theme={theme} style={style}>
+        <p className="text-gray-600">This poll isn&apos;t available.</p>
+        <EmbedResizeReporter pollId={id} />
+      </div>
+    );
+  }
+
+  const supabase = await createServerSupabaseClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const userVotes = await getUserVotes(id, user?.id, invite);
+  const hasVoted = userVotes.length > 0;
+
+  const isPollEnded = poll.end_date && new Date(poll.end_date) <= new Date();
+  const isScheduled = poll.is_active && isPollScheduled(poll.starts_at);
+  const isActive = poll.is_active && !isPollEnded && !isScheduled;
+  const eligibility = isActive && !hasVoted ? await getVoteEligibility(id) : 'eligible';
+
+  const pollUrl = `/polls/${id}${invite ? `?invite=${encodeURIComponent(invite)}` : ''}`;
+
+  return (
+    <div className="polly-embed" data-theme={theme} style={style}>
+      <h2 className="text-xl font-bold text-black mb-1">{poll.title}</h2>
+      {poll.description && (
+        <p className="text-sm text-gray-600 mb-4">{poll.description}</p>
+      )}
+
+      {isActive && !hasVoted ? (
+        eligibility === 'eligible' ? (
+          <PollVotingForm
+            poll={poll}
+            allowMultiple={poll.allow_multiple_selections}
+            inviteToken={invite}
+          />
+        ) : (
+          // Sign-in doesn't work inside a third-party frame, so send the voter to the full page
+          <p className="text-gray-600">
+            {getIneligibilityMessage(eligibility, poll.eligible_email_domain)}{' '}
+            <a href={pollUrl} target="_blank" rel="noopener noreferrer" className="font-semibold text-blue-600 hover:underline">
+              Open the poll
+            </a>
+          </p>
+        )
+      ) : (
+        <PollResults
+          poll={poll}
+          userVotes={userVotes}
+          showVotes={hasVoted || !isActive || !user}
+        />
+      )}
+
+      <p className="mt-4 text-xs text-gray-500 text-right">
+        <a href={pollUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+          Powered by ALX Polly
+        </a>
+      </p>
+
+      <EmbedResizeReporter pollId={id} />
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+'use client';
+
+/**
+ * AccountData Component
+ *
+ * "Your data" section of the profile page: downloads everything the account
+ * has stored as a JSON file, and deletes the account. Deleting asks the user
+ * to confirm it's them with a code emailed to them (and their authenticator,
+ * if two-factor authentication is on) unless they signed in a few minutes
+ * ago, then schedules the deletion. It can be cancelled here until the grace
+ * period ends.
+ *
+ * @component
+ */
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { Download, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { createClient } from '@/lib/supabase-client';
+import { cancelAccountDeletion, getAccountDeletionDate, requestAccountDeletion } from '@/lib/actions';
+import { getMfaChallengePath, hasRecentSignIn, needsMfaChallenge } from '@/lib/mfa';
+import { ACCOUNT_DELETION_GRACE_DAYS } from '@/lib/utils';
+
+/** Where to come back to after confirming it's you; opens the delete step */
+const DELETE_ACCOUNT_PATH = '/profile?deleteAccount=1';
+
+/** Typed by the user to confirm */
+const CONFIRMATION_WORD = 'DELETE';
+
+type DeletionStep = 'closed' | 'reauthenticate' | 'code-sent' | 'confirm';
+
+export default function AccountData() {
+  const [scheduledFor, setScheduledFor] = useState<string | null>(null);
+  const [step, setStep] = useState<DeletionStep>('closed');
+  const [email, setEmail] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const router = useRouter();
+  const supabase = createClient();
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const openDeletion = async () => {
+    setCode('');
+    setConfirmation('');
+    setStep(await hasRecentSignIn(supabase) ? 'confirm' : 'reauthenticate');
+  };
+
+  useEffect(() => {
+    getAccountDeletionDate().then(setScheduledFor);
+    supabase.auth.getUser().then(({ data: { user } }) => setEmail(user?.email ?? null));
+
+    // Back from the emailed link or the two-factor challenge
+    if (new URLSearchParams(window.location.search).get('deleteAccount') === '1') {
+      router.replace('/profile');
+      hasRecentSignIn(supabase).then(recent => setStep(recent ? 'confirm' : 'reauthenticate'));
+    }
+  }, [supabase, router]);
+
+  const handleSendCode = () => run(async () => {
+    if (!email) {
+      throw new Error('Your account has no email address to send a code to.');
+    }
+
+    const { error: otpError } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: `${window.location.origin}/auth/callback?next=${encodeURIComponent(DELETE_ACCOUNT_PATH)}`,
+        shouldCreateUser: false,
+      },
+    });
+
+    if (otpError) {
+      console.error('Re-authentication email error:', otpError);
+      throw new Error(otpError.message.includes('rate limit')
+        ? 'Too many emails. Please wait a moment before trying again.'
+        : 'Could not send the confirmation email. Please try again.');
+    }
+
+    setStep('code-sent');
+  });
+
+  const handleVerifyCode = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!email) return;
+
+    if (!/^\d{6,10}$/.test(code.trim())) {
+      setError('Enter the code from the email, digits only.');
+      return;
+    }
+
+    run(async () => {
+      const { error: verifyError } = await supabase.auth.verifyOtp({ email, token: code.trim(), type: 'email' });
+
+      if (verifyError) {
+        throw new Error('That code is invalid or has expired. Check the email or send a new one.');
+      }
+
+      // The fresh session starts at AAL1; the challenge page sends the user back here
+      if (await needsMfaChallenge(supabase)) {
+        router.push(getMfaChallengePath(DELETE_ACCOUNT_PATH));
+        return;
+      }
+
+      setStep('confirm');
+    });
+  };
+
+  const handleDelete = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (confirmation !== CONFIRMATION_WORD) return;
+
+    run(async () => {
+      const result = await requestAccountDeletion();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setScheduledFor(result.data.scheduledFor);
+      setStep('closed');
+    });
+  };
+
+  const handleCancelDeletion = () => run(async () => {
+    const result = await cancelAccountDeletion();
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    setScheduledFor(null);
+  });
+
+  return (
+    <div className="w-full mt-8 rounded-lg border border-gray-300 p-6">
+      <h3 className="flex items-center gap-2 text-2xl font-bold text-black mb-2">
+        <ShieldAlert className="h-6 w-6" aria-hidden="true" />
+        Your data
+      </h3>
+      <p className="text-gray-600 mb-4">
+        Download your profile, your polls with their options and results, and the votes you&apos;ve cast, as a JSON file.
+      </p>
+      <a
+        href="/api/account/export"
+        download
+        className="inline-flex items-center px-4 py-2 rounded-md border border-gray-300 bg-white text-sm font-semibold text-black hover:bg-gray-50"
+      >
+        <Download className="h-4 w-4 mr-2" aria-hidden="true" />
+        Download my data
+      </a>
+
+      <div className="mt-6 border-t border-gray-200 pt-6 space-y-4">
+        {error && (
+          <Alert variant="destructive" role="alert">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {scheduledFor ? (
+          <div className="rounded-lg border border-red-300 bg-red-50 p-4 space-y-3">
+            <p className="text-sm text-red-900">
+              Your account will be deleted on <span className="font-semibold">{new Date(scheduledFor).toLocaleString('en-GB')}</span>.
+              Until then it&apos;s hidden from your public profile page, and you can still change your mind.
+            </p>
+            <Button type="button" variant="outline" onClick={handleCancelDeletion} disabled={isWorking} className="bg-white">
+              {isWorking ? 'Cancelling...' : 'Keep my account'}
+            </Button>
+          </div>
+        ) : step === 'closed' ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Deleting your account removes your profile and your polls. Votes you cast on other people&apos;s
+              polls are kept, anonymously, so their results don&apos;t change.
+            </p>
+            <Button type="button" variant="outline" onClick={openDeletion} className="bg-white text-red-600 hover:bg-red-50">
+              Delete account
+            </Button>
+          </div>
+        ) : step === 'reauthenticate' ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              First, confirm it&apos;s you. We&apos;ll email a code{email && <> to <span className="font-medium text-gray-900">{email}</span></>}.
+            </p>
+            <div className="flex gap-2">
+              <Button type="button" onClick={handleSendCode} disabled={isWorking}>
+                {isWorking ? 'Sending...' : 'Email me a code'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setStep('closed')} disabled={isWorking}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : step === 'code-sent' ? (
+          <form onSubmit={handleVerifyCode} className="space-y-3" noValidate>
+            <p className="text-sm text-gray-600">
+              Enter the code from the email, or open its link on this device.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="deleteAccountCode">Code</Label>
+              <Input
+                id="deleteAccountCode"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                disabled={isWorking}
+                className="tracking-widest"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isWorking || !code.trim()}>
+                {isWorking ? 'Verifying...' : 'Continue'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setStep('closed')} disabled={isWorking}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <form onSubmit={handleDelete} className="space-y-3" noValidate>
+            <p className="text-sm text-gray-600">
+              Your account will be deleted in {ACCOUNT_DELETION_GRACE_DAYS} days. After that your profile and polls
+              are gone for good. Type <span className="font-mono font-semibold text-black">{CONFIRMATION_WORD}</span> to confirm.
+            </p>
+            <Input
+              aria-label={`Type ${CONFIRMATION_WORD} to confirm`}
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              disabled={isWorking}
+              autoComplete="off"
+            />
+            <div className="flex gap-2">
+              <Button type="submit" variant="destructive" disabled={isWorking || confirmation !== CONFIRMATION_WORD}>
+                {isWorking ? 'Deleting...' : 'Delete my account'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setStep('closed')} disabled={isWorking}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+/**
+ * ApiKeys Component
+ *
+ * API key manager on the profile page. A key is shown in full only once,
+ * right after it is created; afterwards the list shows its prefix, access
+ * level and last use. Keys can be revoked on their own.
+ *
+ * @component
+ */
+
+import { useEffect, useState, useTransition, type FormEvent } from 'react';
+import { KeyRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { createApiKey, getApiKeys, revokeApiKey } from '@/lib/actions';
+import type { ApiKey } from '@/lib/types';
+
+type KeyAccess = 'read' | 'read_write';
+
+export default function ApiKeys() {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [access, setAccess] = useState<KeyAccess>('read');
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    getApiKeys()
+      .then(setKeys)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleCreate = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+    setNewKey(null);
+
+    startTransition(async () => {
+      const result = await createApiKey({ name, access });
+
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+
+      setKeys(prev => [result.data.apiKey, ...prev]);
+      setNewKey(result.data.key);
+      setCopied(false);
+      setName('');
+      setAccess('read');
+    });
+  };
+
+  const handleRevoke = (keyId: string) => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await revokeApiKey(keyId);
+
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+
+      const revokedAt = new Date().toISOString();
+      setKeys(prev => prev.map(key => (
+        key.id === keyId ? { ...key, revoked_at: revokedAt } : key
+      )));
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    try {
+      await navigator.clipboard.writeText(newKey);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy API key:', error);
+    }
+  };
+
+  return (
+    <div className="w-full mt-8 rounded-lg border border-gray-300 p-6">
+      <h3 className="flex items-center gap-2 text-2xl font-bold text-black mb-2">
+        <KeyRound className="h-6 w-6" aria-hidden="true" />
+        API keys
+      </h3>
+      <p className="text-gray-600 mb-6">
+        Use a key to call the <a href="/api/v1/openapi.json" className="text-blue-700 underline">REST API</a> as
+        yourself. Read-only keys can list polls and read results; read/write keys can also create polls, vote and delete.
+      </p>
+
+      <form onSubmit={handleCreate} className="grid gap-4 md:grid-cols-[1fr_auto_auto] md:items-end mb-6">
+        <div className="grid gap-2 text-black">
+          <Label htmlFor="apiKeyName" className="font-semibold">Name</Label>
+          <Input
+            id="apiKeyName"
+            placeholder="e.g. Slack bot"
+            maxLength={60}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={isPending}
+            required
+            className="bg-white"
+          />
+        </div>
+        <div className="grid gap-2 text-black">
+          <Label htmlFor="apiKeyAccess" className="font-semibold">Access</Label>
+          <select
+            id="apiKeyAccess"
+            value={access}
+            onChange={(e) => setAccess(e.target.value as KeyAccess)}
+            disabled={isPending}
+            className="h-9 rounded-md border border-gray-300 bg-white px-3 text-sm"
+          >
+            <option value="read">Read only</option>
+            <option value="read_write">Read and write</option>
+          </select>
+        </div>
+        <Button type="submit" disabled={isPending} className="bg-black text-white hover:bg-gray-800 font-bold">
+          {isPending ? 'Working...' : 'Create key'}
+        </Button>
+      </form>
+
+      {newKey && (
+        <Alert className="mb-4">
+          <AlertDescription>
+            <p className="font-semibold text-black mb-2">Copy your new key now. It won&apos;t be shown again.</p>
+            <div className="flex flex-col gap-2 md:flex-row md:items-center">
+              <code className="flex-1 break-all text-sm text-black">{newKey}</code>
+              <Button type="button" variant="outline" onClick={handleCopy} className="bg-white text-black">
+                {copied ? '✓ Copied!' : 'Copy'}
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading keys...</p>
+      ) : keys.length === 0 ? (
+        <p className="text-sm text-gray-500">No API keys yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {keys.map(key => (
+            <li key={key.id} className="flex flex-col gap-2 rounded-md border border-gray-200 p-3 md:flex-row md:items-center">
+              <div className="flex-1 min-w-0">
+                <p className={`font-semibold ${key.revoked_at ? 'text-gray-400 line-through' : 'text-black'}`}>{key.name}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  <code>{key.key_prefix}…</code>
+                  {' · '}
+                  {key.scopes.includes('write') ? 'Read and write' : 'Read only'}
+                  {' · '}
+                  {key.revoked_at
+                    ? 'Revoked'
+                    : key.last_used_at ? `Last used ${new Date(key.last_used_at).toLocaleString('en-GB')}` : 'Never used'}
+                </p>
+              </div>
+              {!key.revoked_at && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleRevoke(key.id)}
+                  disabled={isPending}
+                  className="bg-white text-red-600 hover:bg-red-50"
+                >
+                  Revoke
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
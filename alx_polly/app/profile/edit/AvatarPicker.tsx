@@ -0,0 +1,300 @@
+'use client';
+
+/**
+ * AvatarPicker Component
+ *
+ * Lets the user pick a profile picture, crop it to a square (drag to move,
+ * slider to zoom) and upload it. The crop is drawn to a 256x256 canvas in the
+ * browser, so only a small WebP reaches the `avatars` storage bucket, stored
+ * at `<user id>/avatar`. The server then saves its public URL to
+ * `profiles.avatar_url` (users can't set that column themselves), and it is
+ * copied to the auth metadata, which the header reads.
+ *
+ * @component
+ */
+
+import { useEffect, useRef, useState, type ChangeEvent, type PointerEvent } from 'react';
+import { Camera, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Avatar } from '@/components/ui/avatar';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { createClient } from '@/lib/supabase-client';
+import { validateFileUpload } from '@/lib/validation-utils';
+import { removeAvatar, saveAvatar } from '@/lib/actions';
+
+const AVATAR_BUCKET = 'avatars';
+/** Pixel size of the uploaded avatar */
+const AVATAR_SIZE = 256;
+/** Pixel size of the crop preview */
+const PREVIEW_SIZE = 240;
+const MAX_ZOOM = 3;
+
+interface AvatarPickerProps {
+  userId: string;
+  name?: string | null;
+  /** The avatar currently saved, if any */
+  avatarUrl?: string | null;
+  /** Called with the new public URL, or null once the avatar is removed */
+  onChange?: (avatarUrl: string | null) => void;
+}
+
+/** Part of the image being cropped: a square centred on (centerX, centerY) */
+interface Crop {
+  centerX: number;
+  centerY: number;
+  zoom: number;
+}
+
+/**
+ * Returns the source square for a crop, kept inside the image
+ */
+function getSourceSquare(image: HTMLImageElement, crop: Crop) {
+  const side = Math.min(image.naturalWidth, image.naturalHeight) / crop.zoom;
+  const x = Math.min(Math.max(crop.centerX - side / 2, 0), image.naturalWidth - side);
+  const y = Math.min(Math.max(crop.centerY - side / 2, 0), image.naturalHeight - side);
+  return { x, y, side };
+}
+
+function drawCrop(canvas: HTMLCanvasElement, image: HTMLImageElement, crop: Crop, size: number) {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const { x, y, side } = getSourceSquare(image, crop);
+  canvas.width = size;
+  canvas.height = size;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, x, y, side, side, 0, 0, size, size);
+}
+
+/**
+ * Encodes the canvas as WebP, or PNG where the browser can't encode WebP
+ */
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve(blob);
+      else reject(new Error('Could not process the image'));
+    }, 'image/webp', 0.9);
+  });
+}
+
+export default function AvatarPicker({ userId, name, avatarUrl, onChange }: AvatarPickerProps) {
+  const [currentUrl, setCurrentUrl] = useState(avatarUrl ?? null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [crop, setCrop] = useState<Crop | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const supabase = createClient();
+
+  useEffect(() => {
+    setCurrentUrl(avatarUrl ?? null);
+  }, [avatarUrl]);
+
+  useEffect(() => {
+    if (image && crop && previewRef.current) {
+      drawCrop(previewRef.current, image, crop, PREVIEW_SIZE);
+    }
+  }, [image, crop]);
+
+  const resetPicker = () => {
+    setImage(null);
+    setCrop(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+
+    const validation = validateFileUpload(file);
+    if (!validation.isValid) {
+      setError(validation.error ?? 'This file can\'t be used as an avatar');
+      resetPicker();
+      return;
+    }
+
+    const objectUrl = URL.createObjectURL(file);
+    const loaded = new window.Image();
+    loaded.onload = () => {
+      URL.revokeObjectURL(objectUrl);
+      setImage(loaded);
+      setCrop({ centerX: loaded.naturalWidth / 2, centerY: loaded.naturalHeight / 2, zoom: 1 });
+    };
+    loaded.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      setError('This image couldn\'t be read. Try a different file.');
+      resetPicker();
+    };
+    loaded.src = objectUrl;
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current || !image || !crop) return;
+
+    // Dragging the picture right shows more of its left side
+    const { side } = getSourceSquare(image, crop);
+    const scale = side / PREVIEW_SIZE;
+    const { x, y } = getSourceSquare(image, {
+      ...crop,
+      centerX: crop.centerX - (e.clientX - dragRef.current.x) * scale,
+      centerY: crop.centerY - (e.clientY - dragRef.current.y) * scale
+    });
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setCrop({ ...crop, centerX: x + side / 2, centerY: y + side / 2 });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  /**
+   * Copies the avatar URL the server saved to the auth metadata and the picker
+   */
+  const showAvatarUrl = async (url: string | null) => {
+    const { error: metadataError } = await supabase.auth.updateUser({ data: { avatar_url: url } });
+    if (metadataError) {
+      console.warn('Failed to update user metadata:', metadataError);
+    }
+
+    setCurrentUrl(url);
+    onChange?.(url);
+  };
+
+  const handleSave = async () => {
+    if (!image || !crop) return;
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const canvas = document.createElement('canvas');
+      drawCrop(canvas, image, crop, AVATAR_SIZE);
+      const blob = await canvasToBlob(canvas);
+
+      const path = `${userId}/avatar`;
+      const { error: uploadError } = await supabase.storage
+        .from(AVATAR_BUCKET)
+        .upload(path, blob, { upsert: true, contentType: blob.type, cacheControl: '3600' });
+
+      if (uploadError) {
+        console.error('Avatar upload error:', uploadError);
+        throw new Error('Failed to upload your avatar. Please try again.');
+      }
+
+      const result = await saveAvatar();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      await showAvatarUrl(result.data.avatarUrl);
+      resetPicker();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const result = await removeAvatar();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      await showAvatarUrl(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive" role="alert">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {image && crop ? (
+        <div className="flex flex-col items-center gap-4 sm:flex-row sm:items-start">
+          <canvas
+            ref={previewRef}
+            width={PREVIEW_SIZE}
+            height={PREVIEW_SIZE}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="rounded-full border border-gray-300 cursor-move touch-none"
+            style={{ width: PREVIEW_SIZE, height: PREVIEW_SIZE }}
+            aria-label="Avatar crop preview. Drag to move the picture."
+          />
+          <div className="flex-1 space-y-4">
+            <div className="space-y-2">
+              <label htmlFor="avatarZoom" className="text-sm font-medium text-gray-700">Zoom</label>
+              <input
+                id="avatarZoom"
+                type="range"
+                min={1}
+                max={MAX_ZOOM}
+                step={0.05}
+                value={crop.zoom}
+                onChange={(e) => setCrop({ ...crop, zoom: Number(e.target.value) })}
+                disabled={isSaving}
+                className="w-full"
+              />
+              <p className="text-xs text-gray-500">Drag the picture to choose what shows in the circle.</p>
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" onClick={handleSave} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save avatar'}
+              </Button>
+              <Button type="button" variant="outline" onClick={resetPicker} disabled={isSaving}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-4">
+          <Avatar src={currentUrl} name={name} size={80} className="text-3xl" />
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isSaving}>
+              <Camera className="h-4 w-4 mr-2" aria-hidden="true" />
+              {currentUrl ? 'Change picture' : 'Upload picture'}
+            </Button>
+            {currentUrl && (
+              <Button type="button" variant="outline" onClick={handleRemove} disabled={isSaving} className="text-red-600 hover:bg-red-50">
+                <Trash2 className="h-4 w-4 mr-2" aria-hidden="true" />
+                Remove
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/gif,image/webp"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      <p className="text-xs text-gray-500">JPEG, PNG, GIF or WebP, up to 5MB.</p>
+    </div>
+  );
+}
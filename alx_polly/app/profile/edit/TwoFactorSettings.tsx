@@ -0,0 +1,285 @@
+'use client';
+
+/**
+ * TwoFactorSettings Component
+ *
+ * Turns two-factor authentication on and off. Setting it up enrols a Supabase
+ * TOTP factor: the user scans a QR code (or types the secret) into an
+ * authenticator app and confirms with a code, which also upgrades the session
+ * to AAL2. Ten recovery codes are then issued and shown once.
+ *
+ * @component
+ */
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Copy, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { createClient } from '@/lib/supabase-client';
+import { createRecoveryCodes, disableTwoFactor, getRecoveryCodeCount } from '@/lib/actions';
+import { MfaCodeSchema } from '@/lib/validation-utils';
+
+/** Factor being set up, until its first code is verified */
+interface Enrollment {
+  factorId: string;
+  uri: string;
+  secret: string;
+}
+
+type TwoFactorStatus = 'loading' | 'off' | 'enrolling' | 'on';
+
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus>('loading');
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [codesLeft, setCodesLeft] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const supabase = createClient();
+
+  useEffect(() => {
+    supabase.auth.mfa.listFactors().then(async ({ data }) => {
+      if (data?.totp.length) {
+        setStatus('on');
+        setCodesLeft(await getRecoveryCodeCount());
+      } else {
+        setStatus('off');
+      }
+    });
+  }, [supabase]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const issueRecoveryCodes = async () => {
+    const result = await createRecoveryCodes();
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    setRecoveryCodes(result.data.codes);
+    setCodesLeft(result.data.codes.length);
+  };
+
+  const handleStart = () => run(async () => {
+    // A setup abandoned earlier leaves an unverified factor behind
+    const { data: factors } = await supabase.auth.mfa.listFactors();
+    for (const factor of factors?.all ?? []) {
+      if (factor.factor_type === 'totp' && factor.status === 'unverified') {
+        await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      }
+    }
+
+    const { data, error: enrollError } = await supabase.auth.mfa.enroll({
+      factorType: 'totp',
+      friendlyName: 'Authenticator app',
+      issuer: 'ALX Polly'
+    });
+
+    if (enrollError) {
+      console.error('MFA enrolment error:', enrollError);
+      throw new Error('Could not start two-factor setup. Please try again.');
+    }
+
+    setEnrollment({ factorId: data.id, uri: data.totp.uri, secret: data.totp.secret });
+    setCode('');
+    setStatus('enrolling');
+  });
+
+  const handleVerify = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!enrollment) return;
+
+    const parsedCode = MfaCodeSchema.safeParse(code);
+    if (!parsedCode.success) {
+      setError(parsedCode.error.issues[0]?.message || 'Invalid code');
+      return;
+    }
+
+    run(async () => {
+      const { error: verifyError } = await supabase.auth.mfa.challengeAndVerify({
+        factorId: enrollment.factorId,
+        code: parsedCode.data
+      });
+
+      if (verifyError) {
+        throw new Error('That code is incorrect or has expired. Check the time on your device and try again.');
+      }
+
+      setEnrollment(null);
+      setStatus('on');
+      await issueRecoveryCodes();
+    });
+  };
+
+  const handleCancel = () => run(async () => {
+    if (enrollment) {
+      await supabase.auth.mfa.unenroll({ factorId: enrollment.factorId });
+    }
+    setEnrollment(null);
+    setStatus('off');
+  });
+
+  const handleDisable = () => {
+    if (!confirm('Turn off two-factor authentication? Your recovery codes will stop working.')) return;
+
+    run(async () => {
+      const result = await disableTwoFactor();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      // Pick up the account without its authenticator
+      await supabase.auth.refreshSession();
+      setRecoveryCodes(null);
+      setCodesLeft(null);
+      setStatus('off');
+    });
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy recovery codes:', error);
+    }
+  };
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([`ALX Polly recovery codes\n\n${recoveryCodes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'alx-polly-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive" role="alert">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {status === 'loading' && (
+        <p className="text-sm text-gray-500">Loading...</p>
+      )}
+
+      {status === 'off' && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Two-factor authentication is off. Turn it on to ask for a code from an authenticator app
+            (such as 1Password, Google Authenticator or Authy) each time you sign in. Turning it on
+            revokes your API keys; create new ones afterwards.
+          </p>
+          <Button type="button" onClick={handleStart} disabled={isWorking}>
+            {isWorking ? 'Starting...' : 'Set up two-factor authentication'}
+          </Button>
+        </div>
+      )}
+
+      {status === 'enrolling' && enrollment && (
+        <form onSubmit={handleVerify} className="space-y-4" noValidate>
+          <p className="text-sm text-gray-600">
+            Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <div className="flex flex-col items-center gap-4 sm:flex-row sm:items-start">
+            <div className="rounded-lg border border-gray-200 bg-white p-3">
+              <QRCodeSVG value={enrollment.uri} size={180} marginSize={1} title="Two-factor setup QR code" />
+            </div>
+            <div className="flex-1 space-y-4">
+              <div className="space-y-1">
+                <p className="text-xs text-gray-500">Can&apos;t scan it? Enter this key instead:</p>
+                <code className="block break-all rounded bg-gray-100 px-2 py-1 text-sm text-black">{enrollment.secret}</code>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="mfaSetupCode">Code</Label>
+                <Input
+                  id="mfaSetupCode"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  disabled={isWorking}
+                  className="tracking-widest"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isWorking || !code.trim()}>
+                  {isWorking ? 'Verifying...' : 'Turn on'}
+                </Button>
+                <Button type="button" variant="outline" onClick={handleCancel} disabled={isWorking}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {status === 'on' && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Two-factor authentication is <span className="font-semibold text-green-700">on</span>.
+            {codesLeft !== null && ` You have ${codesLeft} unused recovery ${codesLeft === 1 ? 'code' : 'codes'}.`}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" onClick={() => run(issueRecoveryCodes)} disabled={isWorking}>
+              New recovery codes
+            </Button>
+            <Button type="button" variant="outline" onClick={handleDisable} disabled={isWorking} className="text-red-600 hover:bg-red-50">
+              Turn off
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="rounded-lg border border-amber-300 bg-amber-50 p-4 space-y-3">
+          <p className="text-sm text-amber-900">
+            Save these recovery codes somewhere safe. Each one gets you in once if you lose your
+            authenticator app. They won&apos;t be shown again, and any older codes no longer work.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-black">
+            {recoveryCodes.map(recoveryCode => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" onClick={handleCopyCodes} className="bg-white">
+              <Copy className="h-4 w-4 mr-2" aria-hidden="true" />
+              {copied ? 'Copied!' : 'Copy'}
+            </Button>
+            <Button type="button" variant="outline" onClick={handleDownloadCodes} className="bg-white">
+              <Download className="h-4 w-4 mr-2" aria-hidden="true" />
+              Download
+            </Button>
+            <Button type="button" onClick={() => setRecoveryCodes(null)}>
+              I&apos;ve saved them
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,13 +14,17 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { AlertCircle, ArrowLeft, Save, User, Eye, EyeOff } from 'lucide-react';
+import { AlertCircle, ArrowLeft, Camera, Save, ShieldCheck, User, Eye, EyeOff } from 'lucide-react';
 import { UserProfileSchema, PasswordSchema, validatePasswordStrength } from '@/lib/validation-utils';
+import AvatarPicker from './AvatarPicker';
+import TwoFactorSettings from './TwoFactorSettings';
 
 type ProfileFormData = {
   fullName: string;
   email: string;
   bio?: string;
+  handle?: string;
+  isProfilePublic: boolean;
 };
 type PasswordFormData = z.infer<typeof PasswordSchema>;
 
@@ -50,10 +54,38 @@ function EditProfilePageContent() {
     defaultValues: {
       fullName: user?.user_metadata?.full_name || '',
       email: user?.email || '',
-      bio: user?.user_metadata?.bio || undefined
+      bio: user?.user_metadata?.bio || undefined,
+      handle: '',
+      isProfilePublic: true
     }
   });
 
+  // Bio, handle and visibility live only in the profiles row
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+
+    supabase
+      .from('profiles')
+      .select('full_name, bio, handle, is_profile_public')
+      .eq('id', userId)
+      .single()
+      .then(({ data, error }) => {
+        if (error || !data) {
+          console.error('Failed to load profile:', error);
+          return;
+        }
+
+        profileForm.reset({
+          ...profileForm.getValues(),
+          fullName: data.full_name || profileForm.getValues('fullName'),
+          bio: data.bio || undefined,
+          handle: data.handle || '',
+          isProfilePublic: data.is_profile_public
+        });
+      });
+  }, [userId, supabase, profileForm]);
+
   // Password form
   const passwordForm = useForm<PasswordFormData>({
     resolver: zodResolver(PasswordSchema),
@@ -67,6 +99,8 @@ function EditProfilePageContent() {
   // Generate unique IDs for accessibility
   const nameId = useId();
   const emailId = useId();
+  const handleId = useId();
+  const visibilityId = useId();
   const currentPasswordId = useId();
   const newPasswordId = useId();
   const confirmPasswordId = useId();
@@ -99,11 +133,17 @@ function EditProfilePageContent() {
           full_name: data.fullName,
           email: data.email,
           bio: data.bio,
+          handle: data.handle ?? null,
+          is_profile_public: data.isProfilePublic,
           updated_at: new Date().toISOString()
         })
         .eq('id', user?.id);
 
       if (profileError) {
+        // 23505: unique_violation on profiles.handle
+        if (profileError.code === '23505') {
+          throw new Error('That handle is already taken. Please choose another one.');
+        }
         throw new Error('Failed to update profile information');
       }
 
@@ -219,6 +259,27 @@ function EditProfilePageContent() {
           </p>
         </div>
 
+        {user && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Camera className="h-5 w-5 mr-2" />
+                Profile Picture
+              </CardTitle>
+              <CardDescription>
+                Shown on your profile and next to the polls you create.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AvatarPicker
+                userId={user.id}
+                name={user.user_metadata?.full_name || user.email}
+                avatarUrl={user.user_metadata?.avatar_url}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center">
@@ -318,6 +379,51 @@ function EditProfilePageContent() {
                 </p>
               </div>
 
+              {/* Handle Field */}
+              <div className="space-y-2">
+                <Label htmlFor={handleId} className="text-sm font-medium text-gray-700">
+                  Handle
+                </Label>
+                <div className="flex items-center">
+                  <span className="px-3 py-2 border border-r-0 border-gray-300 rounded-l-md bg-gray-50 text-sm text-gray-500">/u/</span>
+                  <Input
+                    id={handleId}
+                    type="text"
+                    {...profileForm.register('handle')}
+                    placeholder="your_handle"
+                    maxLength={30}
+                    autoCapitalize="none"
+                    className="w-full rounded-l-none"
+                    disabled={isLoading}
+                  />
+                </div>
+                {profileForm.formState.errors.handle && (
+                  <p className="text-sm text-red-600">{profileForm.formState.errors.handle.message}</p>
+                )}
+                <p className="text-xs text-gray-500">
+                  Pick a handle to get a public profile page listing your public polls.
+                </p>
+              </div>
+
+              {/* Profile Visibility */}
+              <div className="flex items-start gap-3">
+                <input
+                  id={visibilityId}
+                  type="checkbox"
+                  {...profileForm.register('isProfilePublic')}
+                  className="mt-1 h-4 w-4"
+                  disabled={isLoading}
+                />
+                <div>
+                  <Label htmlFor={visibilityId} className="text-sm font-medium text-gray-700">
+                    Show my public profile
+                  </Label>
+                  <p className="text-xs text-gray-500">
+                    When off, your profile page is hidden. Your name and picture still appear on the polls you create.
+                  </p>
+                </div>
+              </div>
+
               {/* Password Section Toggle */}
               <div className="border-t pt-6">
                 <Button
@@ -512,9 +618,24 @@ function EditProfilePageContent() {
             </form>
           </CardContent>
         </Card>
+
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <ShieldCheck className="h-5 w-5 mr-2" />
+              Two-Factor Authentication
+            </CardTitle>
+            <CardDescription>
+              Protect your account with a code from an authenticator app when you sign in.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TwoFactorSettings />
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
 }
 
-export default withAuth(EditProfilePageContent);
\ No newline at end of file
+export default withAuth(EditProfilePageContent, { requireAal2: true });
\ No newline at end of file
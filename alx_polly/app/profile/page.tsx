@@ -7,11 +7,27 @@ import withAuth from "@/app/withAuth";
 import { supabase } from "@/lib/supabase";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { useEffect, useState } from "react";
+import ApiKeys from "./ApiKeys";
+import AccountData from "./AccountData";
+import WebhookManager from "@/components/webhook-manager";
+import { Avatar } from "@/components/ui/avatar";
 
 
 function ProfilePage() {
   const { user } = useAuth();
   const router = useRouter();
+  const [publicProfile, setPublicProfile] = useState<{ handle: string | null; is_profile_public: boolean } | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    supabase
+      .from('profiles')
+      .select('handle, is_profile_public')
+      .eq('id', user.id)
+      .single()
+      .then(({ data }) => setPublicProfile(data));
+  }, [user]);
 
   const handleLogout = async () => {
     await supabase.auth.signOut();
@@ -26,18 +42,35 @@ function ProfilePage() {
     <div className="min-h-screen bg-[#f7fafd] py-12 px-4 flex flex-col items-center justify-center">
       <div className="w-full max-w-2xl mx-auto bg-white rounded-2xl shadow-lg border border-gray-200 p-10 flex flex-col items-center">
         <div className="flex flex-col items-center mb-8">
-          <div className="w-32 h-32 rounded-full bg-gradient-to-br from-blue-600 to-blue-400 flex items-center justify-center text-5xl font-bold text-white border-4 border-white shadow-lg">
-            {user?.email?.[0]?.toUpperCase() || 'U'}
-          </div>
+          <Avatar
+            src={user?.user_metadata?.avatar_url}
+            name={user?.email}
+            size={128}
+            className="text-5xl border-4 border-white shadow-lg"
+          />
           <div className="mt-6 text-3xl font-extrabold text-black">{fullName}</div>
           <div className="text-gray-500 text-lg mt-2">{email}</div>
+          {publicProfile?.handle && (
+            <div className="text-sm mt-2">
+              {publicProfile.is_profile_public ? (
+                <Link href={`/u/${publicProfile.handle}`} className="text-blue-700 hover:underline">
+                  View public profile (@{publicProfile.handle})
+                </Link>
+              ) : (
+                <span className="text-gray-500">Your public profile is hidden</span>
+              )}
+            </div>
+          )}
           <Link href="/profile/edit" className="mt-4 px-6 py-2 border border-blue-200 rounded-lg text-blue-700 bg-blue-50 hover:bg-blue-100 font-semibold transition text-base inline-block text-center">
             Edit profile
           </Link>
         </div>
+        <ApiKeys />
+        <WebhookManager />
+        <AccountData />
       </div>
     </div>
   );
 }
 
-export default withAuth(ProfilePage);
+export default withAuth(ProfilePage, { requireAal2: true });
@@ -5,6 +5,8 @@ import { useRouter } from 'next/navigation'
 import { useEffect, useState, useCallback, useMemo } from 'react'
 import { ComponentType } from 'react'
 import type { WithAuthProps } from '@/lib/auth-types'
+import { createClient } from '@/lib/supabase-client'
+import { getMfaChallengePath, needsMfaChallenge } from '@/lib/mfa'
 
 /**
  * Enhanced Higher-Order Component for Authentication Protection
@@ -46,7 +48,8 @@ import type { WithAuthProps } from '@/lib/auth-types'
  * const ProtectedDashboard = withAuth(Dashboard, {
  *   redirectTo: '/auth/login',
  *   requireEmailVerified: true,
- *   allowedRoles: ['user', 'admin']
+ *   allowedRoles: ['user', 'admin'],
+ *   requireAal2: true
  * })
  * 
  * // Usage in page
@@ -60,6 +63,11 @@ interface WithAuthOptions {
   redirectTo?: string
   requireEmailVerified?: boolean
   allowedRoles?: string[]
+  /**
+   * Sends users with two-factor authentication turned on to the challenge
+   * page until they've entered a code, for sensitive pages
+   */
+  requireAal2?: boolean
   onUnauthorized?: () => void
   retryAttempts?: number
 }
@@ -72,6 +80,7 @@ export default function withAuth<T extends WithAuthProps>(
     redirectTo = '/login',
     requireEmailVerified = false,
     allowedRoles = [],
+    requireAal2 = false,
     onUnauthorized,
     retryAttempts = 3
   } = options
@@ -88,6 +97,24 @@ export default function withAuth<T extends WithAuthProps>(
       retryCount: 0,
       lastError: null
     })
+    const [mfaVerified, setMfaVerified] = useState(!requireAal2)
+
+    // Check the session's assurance level once signed in
+    useEffect(() => {
+      if (!requireAal2 || !session || !user) return
+
+      let cancelled = false
+      needsMfaChallenge(createClient()).then(needed => {
+        if (cancelled) return
+        if (needed) {
+          router.replace(getMfaChallengePath(window.location.pathname))
+        } else {
+          setMfaVerified(true)
+        }
+      })
+
+      return () => { cancelled = true }
+    }, [session, user, router])
 
     // Enhanced session validation
     const validateUserAccess = useCallback(() => {
@@ -206,7 +233,7 @@ export default function withAuth<T extends WithAuthProps>(
     ), [authState.isValidating, authState.retryCount, retryAttempts])
 
     // Show loading state
-    if (!initialized || loading || authState.isValidating) {
+    if (!initialized || loading || authState.isValidating || (session && user && !mfaVerified)) {
       return LoadingComponent
     }
 
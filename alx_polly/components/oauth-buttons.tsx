@@ -0,0 +1,77 @@
+'use client';
+
+/**
+ * OAuthButtons Component
+ *
+ * "Continue with GitHub / Google" buttons for the login and register pages.
+ * Sign-in uses the PKCE flow: the browser client keeps the code verifier in a
+ * cookie and /auth/callback exchanges the returned code for a session. An
+ * account whose email already exists is linked to it by Supabase Auth.
+ *
+ * @component
+ */
+
+import { useState } from 'react';
+import { Github } from 'lucide-react';
+import type { Provider } from '@supabase/supabase-js';
+import { Button } from '@/components/ui/button';
+import { createClient } from '@/lib/supabase-client';
+
+const PROVIDERS: { id: Extract<Provider, 'github' | 'google'>; label: string }[] = [
+  { id: 'github', label: 'GitHub' },
+  { id: 'google', label: 'Google' },
+];
+
+interface OAuthButtonsProps {
+  /** Same-site path to land on after sign-in */
+  redirectTo: string;
+  disabled?: boolean;
+  onError: (message: string) => void;
+}
+
+export default function OAuthButtons({ redirectTo, disabled, onError }: OAuthButtonsProps) {
+  const [pendingProvider, setPendingProvider] = useState<string | null>(null);
+
+  const handleSignIn = async (provider: (typeof PROVIDERS)[number]['id']) => {
+    setPendingProvider(provider);
+
+    try {
+      const supabase = createClient();
+      const { error } = await supabase.auth.signInWithOAuth({
+        provider,
+        options: {
+          redirectTo: `${window.location.origin}/auth/callback?next=${encodeURIComponent(redirectTo)}`,
+        },
+      });
+
+      // On success the browser is already on its way to the provider
+      if (error) {
+        console.error('OAuth sign-in error:', error);
+        onError('Could not start sign-in with that provider. Please try again.');
+        setPendingProvider(null);
+      }
+    } catch (error) {
+      console.error('OAuth sign-in error:', error);
+      onError('An unexpected error occurred. Please try again.');
+      setPendingProvider(null);
+    }
+  };
+
+  return (
+    <div className="grid gap-2">
+      {PROVIDERS.map(({ id, label }) => (
+        <Button
+          key={id}
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={() => handleSignIn(id)}
+          disabled={disabled || pendingProvider !== null}
+        >
+          {id === 'github' && <Github className="h-4 w-4 mr-2" aria-hidden="true" />}
+          {pendingProvider === id ? 'Redirecting...' : `Continue with ${label}`}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -5,10 +5,21 @@ import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { PollWithStats } from '@/lib/types';
-import { formatDate, canEditPoll, getPollStatus } from '@/lib/utils';
+import { formatDate, getPollStatus } from '@/lib/utils';
 import { PollStatusBadges } from '@/components/ui/poll-status-badges';
 import { PollStatistics } from '@/components/ui/poll-statistics';
 import { DeleteConfirmation } from '@/components/ui/delete-confirmation';
+import { Avatar } from '@/components/ui/avatar';
+import { Download } from 'lucide-react';
+
+const EXPORT_LINKS = [
+  { type: 'results', format: 'csv', label: 'Results (CSV)' },
+  { type: 'results', format: 'xlsx', label: 'Results (Excel)' },
+  { type: 'results', format: 'json', label: 'Results (JSON)' },
+  { type: 'ballots', format: 'csv', label: 'Ballots (CSV)' },
+  { type: 'ballots', format: 'xlsx', label: 'Ballots (Excel)' },
+  { type: 'ballots', format: 'json', label: 'Ballots (JSON)' },
+] as const;
 
 interface PollCardProps {
   poll: PollWithStats;
@@ -60,9 +71,18 @@ export function PollCard({
           uniqueVoters={poll.unique_voters}
         />
 
-        {/* Created date */}
+        {/* Creator and dates */}
+        <div className="flex items-center gap-2 text-xs text-gray-500 mb-2">
+          <Avatar src={poll.creator_avatar_url} name={poll.creator_name} size={24} className="text-xs" />
+          <span>{poll.creator_name || 'You'}</span>
+        </div>
         <div className="text-xs text-gray-500 mb-4">
           Created {formatDate(poll.created_at)}
+          {statuses.includes('scheduled') && poll.starts_at && (
+            <span className="block">
+              Opens {formatDate(poll.starts_at)}
+            </span>
+          )}
           {poll.end_date && (
             <span className="block">
               Ends {formatDate(poll.end_date)}
@@ -85,15 +105,36 @@ export function PollCard({
             </Button>
           </Link>
           
-          {canEditPoll(poll) && (
-            <Button 
-              variant="outline" 
-              className="text-blue-600 hover:text-blue-700 hover:bg-blue-50 text-sm py-2 px-3"
-              onClick={() => onEdit(poll.id)}
+          <Button 
+            variant="outline" 
+            className="text-blue-600 hover:text-blue-700 hover:bg-blue-50 text-sm py-2 px-3"
+            onClick={() => onEdit(poll.id)}
+          >
+            Edit
+          </Button>
+
+          {/* Export menu; the route answers with a file download */}
+          <details className="relative">
+            <summary
+              className="list-none cursor-pointer inline-flex items-center gap-1 rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 text-sm py-2 px-3 h-full"
+              aria-label="Export poll data"
             >
-              Edit
-            </Button>
-          )}
+              <Download className="h-4 w-4" aria-hidden="true" />
+              Export
+            </summary>
+            <div className="absolute right-0 z-10 mt-1 w-44 rounded-md border border-gray-200 bg-white py-1 shadow-lg">
+              {EXPORT_LINKS.map(({ type, format, label }) => (
+                <a
+                  key={`${type}-${format}`}
+                  href={`/api/polls/${poll.id}/export?type=${type}&format=${format}`}
+                  download
+                  className="block px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100"
+                >
+                  {label}
+                </a>
+              ))}
+            </div>
+          </details>
 
           <Button 
             variant="outline" 
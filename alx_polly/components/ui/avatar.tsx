@@ -0,0 +1,49 @@
+// Round profile picture, falling back to the person's initial
+import Image from 'next/image';
+import { cn } from '@/lib/utils';
+
+/**
+ * Avatar Props
+ */
+interface AvatarProps {
+  /** Public URL of the uploaded avatar, if any */
+  src?: string | null;
+  /** Name or email used for the alt text and the fallback initial */
+  name?: string | null;
+  /** Rendered size in pixels */
+  size?: number;
+  /** Custom className for styling, e.g. borders or text size for the initial */
+  className?: string;
+}
+
+export function Avatar({ src, name, size = 48, className }: AvatarProps) {
+  const label = name?.trim() || 'User';
+
+  if (src) {
+    return (
+      <Image
+        src={src}
+        alt={`${label}'s avatar`}
+        width={size}
+        height={size}
+        // Avatars are already resized to 256x256 when uploaded
+        unoptimized
+        className={cn('rounded-full object-cover shrink-0', className)}
+        style={{ width: size, height: size }}
+      />
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        'rounded-full bg-gradient-to-br from-blue-600 to-blue-400 flex items-center justify-center font-bold text-white shrink-0',
+        className
+      )}
+      style={{ width: size, height: size }}
+      aria-hidden="true"
+    >
+      {label[0].toUpperCase()}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 
 import { cn } from '@/lib/utils';
 
-type PollStatus = 'inactive' | 'ended' | 'private' | 'active';
+type PollStatus = 'scheduled' | 'inactive' | 'ended' | 'private' | 'active';
 
 interface StatusBadgeProps {
   status: PollStatus;
@@ -11,6 +11,10 @@ interface StatusBadgeProps {
 }
 
 const statusConfig = {
+  scheduled: {
+    className: 'bg-purple-100 text-purple-800',
+    label: 'Scheduled'
+  },
   inactive: {
     className: 'bg-red-100 text-red-800',
     label: 'Inactive'
@@ -50,7 +54,7 @@ interface PollStatusBadgesProps {
 
 export function PollStatusBadges({ statuses, className }: PollStatusBadgesProps) {
   const validStatuses = statuses.filter((status): status is PollStatus => 
-    ['inactive', 'ended', 'private', 'active'].includes(status)
+    ['scheduled', 'inactive', 'ended', 'private', 'active'].includes(status)
   );
 
   if (validStatuses.length === 0) return null;
@@ -0,0 +1,265 @@
+'use client';
+
+/**
+ * WebhookManager Component
+ *
+ * Lists and registers webhooks: account-wide on the profile page, or for a
+ * single poll on its page when `pollId` is given. Each webhook shows its
+ * signing secret, can send a test event and shows its recent deliveries.
+ *
+ * @component
+ */
+
+import { useEffect, useState, useTransition, type FormEvent } from 'react';
+import { Webhook as WebhookIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { createWebhook, deleteWebhook, getWebhookDeliveries, getWebhooks, sendTestWebhook } from '@/lib/actions';
+import type { Webhook, WebhookDelivery, WebhookEvent } from '@/lib/types';
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  'poll.created': 'Poll created',
+  'vote.cast': 'Vote cast',
+  'poll.closed': 'Poll closed',
+  'poll.deleted': 'Poll deleted',
+};
+
+// Poll webhooks are removed with their poll, so they can't hear about its creation or deletion
+const ACCOUNT_EVENTS: WebhookEvent[] = ['poll.created', 'vote.cast', 'poll.closed', 'poll.deleted'];
+const POLL_EVENTS: WebhookEvent[] = ['vote.cast', 'poll.closed'];
+
+interface WebhookManagerProps {
+  /** Manage this poll's webhooks instead of the account-wide ones */
+  pollId?: string;
+  /** Webhooks already loaded on the server; fetched on mount when omitted */
+  initialWebhooks?: Webhook[];
+}
+
+/**
+ * Describes a delivery's state for the log
+ */
+function describeDelivery(delivery: WebhookDelivery): string {
+  if (delivery.status === 'succeeded') return `Delivered (HTTP ${delivery.response_status})`;
+  const reason = delivery.last_error ? `: ${delivery.last_error}` : '';
+  if (delivery.status === 'failed') return `Failed after ${delivery.attempts} attempts${reason}`;
+  if (delivery.attempts === 0) return 'Sending...';
+  return `Retrying${delivery.next_attempt_at ? ` at ${new Date(delivery.next_attempt_at).toLocaleTimeString('en-GB')}` : ''}${reason}`;
+}
+
+export default function WebhookManager({ pollId, initialWebhooks }: WebhookManagerProps) {
+  const availableEvents = pollId ? POLL_EVENTS : ACCOUNT_EVENTS;
+
+  const [webhooks, setWebhooks] = useState<Webhook[]>(initialWebhooks ?? []);
+  const [loading, setLoading] = useState(!initialWebhooks);
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(availableEvents);
+  const [deliveries, setDeliveries] = useState<Record<string, WebhookDelivery[]>>({});
+  const [shownSecretId, setShownSecretId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    if (initialWebhooks) return;
+    getWebhooks(pollId)
+      .then(setWebhooks)
+      .finally(() => setLoading(false));
+  }, [initialWebhooks, pollId]);
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents(prev => prev.includes(event) ? prev.filter(e => e !== event) : [...prev, event]);
+  };
+
+  const run = (action: () => Promise<void>) => {
+    setError(null);
+    setNotice(null);
+    startTransition(action);
+  };
+
+  const handleCreate = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    run(async () => {
+      const result = await createWebhook({ url, events, pollId: pollId ?? null });
+
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+
+      setWebhooks(prev => [result.data.webhook, ...prev]);
+      setShownSecretId(result.data.webhook.id);
+      setUrl('');
+      setEvents(availableEvents);
+    });
+  };
+
+  const handleShowDeliveries = (webhookId: string) => {
+    if (deliveries[webhookId]) {
+      setDeliveries(prev => {
+        const next = { ...prev };
+        delete next[webhookId];
+        return next;
+      });
+      return;
+    }
+
+    run(async () => {
+      const log = await getWebhookDeliveries(webhookId);
+      setDeliveries(prev => ({ ...prev, [webhookId]: log }));
+    });
+  };
+
+  const handleTest = (webhookId: string) => {
+    run(async () => {
+      const result = await sendTestWebhook(webhookId);
+
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+
+      setNotice('Test event sent. Open the delivery log to see how it went.');
+    });
+  };
+
+  const handleDelete = (webhookId: string) => {
+    run(async () => {
+      const result = await deleteWebhook(webhookId);
+
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+
+      setWebhooks(prev => prev.filter(webhook => webhook.id !== webhookId));
+    });
+  };
+
+  return (
+    <div className="w-full mt-8 rounded-lg border border-gray-300 p-6">
+      <h3 className="flex items-center gap-2 text-2xl font-bold text-black mb-2">
+        <WebhookIcon className="h-6 w-6" aria-hidden="true" />
+        Webhooks
+      </h3>
+      <p className="text-gray-600 mb-6">
+        {pollId
+          ? 'Send a signed POST to your URL when this poll gets a vote or closes.'
+          : 'Send a signed POST to your URL when something happens on any of your polls.'}
+        {' '}Verify the <code>X-Polly-Signature</code> header with the webhook&apos;s secret.
+      </p>
+
+      <form onSubmit={handleCreate} className="grid gap-4 mb-6">
+        <div className="grid gap-2 text-black">
+          <Label htmlFor={`webhookUrl${pollId ?? ''}`} className="font-semibold">Payload URL</Label>
+          <Input
+            id={`webhookUrl${pollId ?? ''}`}
+            type="url"
+            placeholder="https://hooks.example.com/polly"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            disabled={isPending}
+            required
+            className="bg-white"
+          />
+        </div>
+        <fieldset className="flex flex-wrap gap-4 text-black">
+          <legend className="font-semibold text-sm mb-2">Events</legend>
+          {availableEvents.map(event => (
+            <label key={event} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={events.includes(event)}
+                onChange={() => toggleEvent(event)}
+                disabled={isPending}
+              />
+              {EVENT_LABELS[event]} <code className="text-gray-500">{event}</code>
+            </label>
+          ))}
+        </fieldset>
+        <div>
+          <Button type="submit" disabled={isPending || events.length === 0} className="bg-black text-white hover:bg-gray-800 font-bold">
+            {isPending ? 'Working...' : 'Add webhook'}
+          </Button>
+        </div>
+      </form>
+
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert className="mb-4">
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading webhooks...</p>
+      ) : webhooks.length === 0 ? (
+        <p className="text-sm text-gray-500">No webhooks yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {webhooks.map(webhook => (
+            <li key={webhook.id} className="rounded-md border border-gray-200 p-3">
+              <div className="flex flex-col gap-2 md:flex-row md:items-center">
+                <div className="flex-1 min-w-0">
+                  <code className="block truncate text-sm text-black">{webhook.url}</code>
+                  <p className="text-xs text-gray-500 mt-1">{webhook.events.join(', ')}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Secret:{' '}
+                    {shownSecretId === webhook.id ? (
+                      <code className="break-all text-black">{webhook.secret}</code>
+                    ) : (
+                      <button type="button" onClick={() => setShownSecretId(webhook.id)} className="text-blue-700 underline">
+                        Reveal
+                      </button>
+                    )}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button type="button" variant="outline" onClick={() => handleTest(webhook.id)} disabled={isPending} className="bg-white text-black">
+                    Send test
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => handleShowDeliveries(webhook.id)} disabled={isPending} className="bg-white text-black">
+                    {deliveries[webhook.id] ? 'Hide log' : 'Deliveries'}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => handleDelete(webhook.id)}
+                    disabled={isPending}
+                    className="bg-white text-red-600 hover:bg-red-50"
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </div>
+
+              {deliveries[webhook.id] && (
+                deliveries[webhook.id].length === 0 ? (
+                  <p className="text-xs text-gray-500 mt-3">No deliveries yet.</p>
+                ) : (
+                  <ul className="mt-3 space-y-1 border-t border-gray-100 pt-3">
+                    {deliveries[webhook.id].map(delivery => (
+                      <li key={delivery.id} className="text-xs text-gray-600">
+                        <span className={delivery.status === 'failed' ? 'text-red-600' : delivery.status === 'succeeded' ? 'text-green-700' : 'text-amber-600'}>
+                          ●
+                        </span>{' '}
+                        {new Date(delivery.created_at).toLocaleString('en-GB')} · <code>{delivery.event}</code> · {describeDelivery(delivery)}
+                      </li>
+                    ))}
+                  </ul>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,109 @@
 // React hook for optimized vote statistics with caching
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { PollOption, UseVoteStatsReturn } from '@/lib/types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { PollOption, UseVoteStatsReturn, VotingMethod } from '@/lib/types';
 import { VoteStatsManager } from '@/lib/vote-cache';
-import { createOptimizedVoteProcessor, VoteStatistics } from '@/lib/vote-utils';
+import { createClient } from '@/lib/supabase-client';
+import { createOptimizedVoteProcessor, groupRankedBallots, RankedBallot, VoteStatistics } from '@/lib/vote-utils';
+
+// Bursts of votes arrive as separate events; coalesce them into one refresh
+const CHANGE_DEBOUNCE_MS = 300;
+
+/**
+ * Subscribes to vote inserts and deletes for a poll over Supabase Realtime
+ *
+ * Calls `onChange` whenever the poll's votes change. While the channel is not
+ * subscribed (still connecting, errored, timed out or closed) it falls back to
+ * calling `onChange` every `fallbackInterval` ms, and stops polling as soon as
+ * the channel comes back.
+ *
+ * @returns Whether the realtime channel is currently connected
+ */
+function useVoteChanges(
+  pollId: string,
+  onChange: () => void,
+  fallbackInterval: number,
+  enabled = true
+): boolean {
+  const [isConnected, setIsConnected] = useState(false);
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let disposed = false;
+    let fallbackTimer: ReturnType<typeof setInterval> | null = null;
+    let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const scheduleChange = () => {
+      if (debounceTimer) clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(() => onChangeRef.current(), CHANGE_DEBOUNCE_MS);
+    };
+
+    const startFallback = () => {
+      if (disposed || fallbackTimer || fallbackInterval <= 0) return;
+      fallbackTimer = setInterval(() => onChangeRef.current(), fallbackInterval);
+    };
+
+    const stopFallback = () => {
+      if (fallbackTimer) {
+        clearInterval(fallbackTimer);
+        fallbackTimer = null;
+      }
+    };
+
+    let supabase: ReturnType<typeof createClient>;
+    try {
+      supabase = createClient();
+    } catch {
+      // No realtime without a client; keep results fresh by polling
+      startFallback();
+      return () => {
+        disposed = true;
+        stopFallback();
+      };
+    }
+
+    const channel = supabase
+      .channel(`poll-votes:${pollId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'votes', filter: `poll_id=eq.${pollId}` },
+        scheduleChange
+      )
+      // Delete events can't be filtered by poll, so the database broadcasts
+      // deletions on this poll's channel instead (broadcast_votes_deleted)
+      .on('broadcast', { event: 'votes_deleted' }, scheduleChange)
+      .subscribe((status) => {
+        if (disposed) return;
+
+        if (status === 'SUBSCRIBED') {
+          setIsConnected(true);
+          stopFallback();
+          // Pick up anything that changed while we were connecting
+          scheduleChange();
+        } else {
+          setIsConnected(false);
+          startFallback();
+        }
+      });
+
+    return () => {
+      disposed = true;
+      stopFallback();
+      if (debounceTimer) clearTimeout(debounceTimer);
+      supabase.removeChannel(channel);
+      setIsConnected(false);
+    };
+  }, [pollId, fallbackInterval, enabled]);
+
+  return isConnected;
+}
 
 interface UseVoteStatsOptions {
   pollId: string;
@@ -103,13 +202,8 @@ export function useVoteStats({
     }
   }, [pollId, enableCaching, statsManager]);
 
-  // Auto-refresh effect
-  useEffect(() => {
-    if (!enableCaching || refreshInterval <= 0) return;
-
-    const interval = setInterval(refresh, refreshInterval);
-    return () => clearInterval(interval);
-  }, [refresh, refreshInterval, enableCaching]);
+  // Refresh on realtime vote changes, polling only while the channel is down
+  useVoteChanges(pollId, refresh, refreshInterval, enableCaching);
 
   // Initial cache load
   useEffect(() => {
@@ -173,42 +267,77 @@ export function useVoteStats({
   };
 }
 
-// Hook for real-time vote updates (for high-traffic polls)
-export function useRealTimeVoteStats(pollId: string, options: PollOption[]) {
-  const [liveStats, setLiveStats] = useState<VoteStatistics | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
+interface UseRealTimeVoteStatsOptions {
+  votingMethod?: VotingMethod;
+  /** Ranked ballots rendered by the server, for ranked-choice polls */
+  ballots?: RankedBallot[];
+  /** Polling interval used while the realtime channel is disconnected */
+  fallbackInterval?: number;
+}
 
-  // In a real implementation, this would use Supabase real-time subscriptions
+/**
+ * Live vote results for a poll
+ *
+ * Starts from the server-rendered options and re-reads `poll_results` whenever
+ * a vote for the poll is inserted or deleted, so bars and totals update as
+ * soon as someone votes. Falls back to polling while the channel is down.
+ */
+export function useRealTimeVoteStats(
+  pollId: string,
+  options: PollOption[],
+  { votingMethod = 'plurality', ballots, fallbackInterval = 5000 }: UseRealTimeVoteStatsOptions = {}
+) {
+  const [liveOptions, setLiveOptions] = useState<PollOption[]>(options);
+  const [liveBallots, setLiveBallots] = useState<RankedBallot[]>(ballots ?? []);
+
+  // Server data wins when the page re-renders (e.g. after router.refresh())
   useEffect(() => {
-    // TODO: Implement Supabase real-time subscription
-    // const subscription = supabase
-    //   .from('votes')
-    //   .on('*', (payload) => {
-    //     if (payload.new?.poll_id === pollId) {
-    //       // Refresh stats when votes change
-    //       const processor = createOptimizedVoteProcessor(options);
-    //       setLiveStats(processor.getStats());
-    //     }
-    //   })
-    //   .subscribe();
-
-    // For now, use regular polling for high-frequency updates
-    const interval = setInterval(() => {
-      const processor = createOptimizedVoteProcessor(options);
-      setLiveStats(processor.getStats());
-    }, 5000); // 5 second updates for real-time feel
-
-    setIsConnected(true);
+    setLiveOptions(options);
+    setLiveBallots(ballots ?? []);
+  }, [options, ballots]);
 
-    return () => {
-      clearInterval(interval);
-      // subscription?.unsubscribe();
-      setIsConnected(false);
-    };
-  }, [pollId, options]);
+  const refresh = useCallback(async () => {
+    try {
+      const supabase = createClient();
+
+      const { data: results, error: resultsError } = await supabase
+        .from('poll_results')
+        .select('option_id, option_text, order_index, vote_count, vote_percentage')
+        .eq('poll_id', pollId)
+        .order('order_index', { ascending: true });
+
+      // Keep showing the last known results if the refresh fails
+      if (resultsError || !results) return;
+      setLiveOptions(results);
+
+      if (votingMethod === 'ranked_choice') {
+        const { data: ballotRows, error: ballotsError } = await supabase
+          .from('votes')
+          .select('ballot_id, option_id, rank')
+          .eq('poll_id', pollId)
+          .not('ballot_id', 'is', null);
+
+        if (!ballotsError && ballotRows) {
+          setLiveBallots(groupRankedBallots(ballotRows));
+        }
+      }
+    } catch (err) {
+      console.error('Failed to refresh live vote results:', err);
+    }
+  }, [pollId, votingMethod]);
+
+  const isConnected = useVoteChanges(pollId, refresh, fallbackInterval);
+
+  const stats = useMemo(
+    () => createOptimizedVoteProcessor(liveOptions, liveBallots).getStats(),
+    [liveOptions, liveBallots]
+  );
 
   return {
-    stats: liveStats,
+    options: liveOptions,
+    ballots: liveBallots,
+    stats,
     isConnected,
+    refresh,
   };
 }
@@ -0,0 +1,94 @@
+/**
+ * Account Lifecycle Management
+ *
+ * Deletes accounts whose grace period has run out. Users schedule deletion
+ * from their profile page (requestAccountDeletion); this job does the actual
+ * deletion. Like lib/poll-lifecycle.ts it lives outside lib/actions.ts so it
+ * can only run from the authenticated sweeper route, never from the browser.
+ *
+ * @fileoverview Scheduled account deletion
+ */
+
+import { revalidatePath } from 'next/cache'
+import { createServerSupabaseAdminClient } from './supabase-server'
+import { ACCOUNT_DELETION_GRACE_DAYS } from './utils'
+
+/** Accounts deleted per sweeper run, to stay inside the function time limit */
+const ACCOUNT_DELETION_BATCH_SIZE = 20
+
+/** Outcome of one sweeper run */
+export interface DeleteScheduledAccountsResult {
+  deletedUserIds: string[]
+  failedUserIds: string[]
+}
+
+/**
+ * Deletes every account whose scheduled deletion time has passed
+ *
+ * For each account, in order:
+ * 1. delete_account_data() removes the user's polls and anonymises their
+ *    votes on other polls, so results stay the same
+ * 2. The avatar is removed from storage
+ * 3. The auth user is deleted, which cascades to the profile and what's left
+ *    (API keys, webhooks, recovery codes, templates)
+ *
+ * Accounts are only picked up once the grace period has also passed since
+ * the request was recorded, whatever the scheduled time says.
+ *
+ * A failure leaves the account scheduled, so the next run tries again.
+ *
+ * @returns IDs of the accounts deleted, and of those that failed
+ * @throws Error if the service role key is missing or the accounts can't be listed
+ */
+export async function deleteScheduledAccounts(): Promise<DeleteScheduledAccountsResult> {
+  const now = Date.now()
+  const requestedBefore = new Date(now - ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000)
+
+  const supabase = await createServerSupabaseAdminClient()
+  const { data: dueProfiles, error } = await supabase
+    .from('profiles')
+    .select('id')
+    .lte('deletion_scheduled_for', new Date(now).toISOString())
+    .lte('deletion_requested_at', requestedBefore.toISOString())
+    .order('deletion_scheduled_for', { ascending: true })
+    .limit(ACCOUNT_DELETION_BATCH_SIZE)
+
+  if (error) {
+    console.error('Error loading accounts due for deletion:', error)
+    throw new Error('Failed to load accounts due for deletion')
+  }
+
+  const deletedUserIds: string[] = []
+  const failedUserIds: string[] = []
+
+  for (const { id: userId } of dueProfiles || []) {
+    const { error: dataError } = await supabase.rpc('delete_account_data', { user_uuid: userId })
+    if (dataError) {
+      console.error(`Error deleting data for account ${userId}:`, dataError)
+      failedUserIds.push(userId)
+      continue
+    }
+
+    // A missing avatar isn't an error, and a stale one shouldn't block deletion
+    const { error: avatarError } = await supabase.storage.from('avatars').remove([`${userId}/avatar`])
+    if (avatarError) {
+      console.error(`Error removing avatar for account ${userId}:`, avatarError)
+    }
+
+    const { error: userError } = await supabase.auth.admin.deleteUser(userId)
+    if (userError) {
+      console.error(`Error deleting account ${userId}:`, userError)
+      failedUserIds.push(userId)
+      continue
+    }
+
+    deletedUserIds.push(userId)
+  }
+
+  if (deletedUserIds.length > 0) {
+    revalidatePath('/polls')
+    revalidatePath('/dashboard')
+  }
+
+  return { deletedUserIds, failedUserIds }
+}
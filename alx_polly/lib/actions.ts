@@ -37,23 +37,36 @@
  * @author Poll App Team
  */
 
-import { createServerSupabaseClient } from './supabase-server'
+import { createServerSupabaseClient, createServerSupabaseAdminClient } from './supabase-server'
 import { revalidatePath } from 'next/cache'
 import { redirect } from 'next/navigation'
 import { headers } from 'next/headers'
-import { ratelimit } from './rate-limit'
-import type { ServerActionResponse, ProcessedFormData } from './types'
-import { mapPollError, mapVoteError, logError, isNextRedirect } from './error-utils'
+import { ratelimit, getClientIPFromHeaders } from './rate-limit'
+import * as pollService from './services/polls'
+import { parseInviteToken, type ServiceResult } from './services/polls'
+import { generateApiKey } from './api-keys'
+import { assertMfaVerified, hasRecentSignIn, hasVerifiedFactor } from './mfa'
+import { generateRecoveryCodes, hashRecoveryCode } from './recovery-codes'
+import { assertPublicWebhookUrl, generateWebhookSecret, queueTestDelivery } from './webhooks'
+import type { Result, ServerActionResponse, ProcessedFormData, PaginatedResponse, PollWithStats, PollListSort, PollTemplate, PollInvite, PollInviteStatus, VoteEligibilityStatus, ApiKey, Webhook, WebhookDelivery, PollError, VoteError, VoteChangeStats, PollPreview, PublicProfile } from './types'
+import { mapPollError, logError, isNextRedirect } from './error-utils'
 import { z } from 'zod'
 import DOMPurify from 'isomorphic-dompurify'
 import { 
-  PollCreationSchema, 
-  VoteSubmissionSchema, 
+  PollListQuerySchema,
+  PollTemplateNameSchema,
+  PollInviteSchema,
+  ApiKeySchema,
+  WebhookSchema,
+  HandleSchema,
+  RecoveryCodeSchema,
   sanitizeText, 
-  sanitizeHtml,
   validateRateLimit,
   generateSecureToken
 } from '@/lib/validation-utils'
+import { groupRankedBallots, type RankedBallot } from '@/lib/vote-utils'
+import { readAnonymousVoterToken } from '@/lib/anonymous-voter'
+import { ACCOUNT_DELETION_GRACE_DAYS } from '@/lib/utils'
 
 /** Represents a single poll option with its text content */
 export interface PollOption {
@@ -101,6 +114,9 @@ const VoteSchema = z.object({
   userId: z.string().uuid('Invalid user ID').optional()
 })
 
+// Options shown in a poll's link preview before the rest are summarised
+const PREVIEW_OPTION_LIMIT = 4
+
 /**
  * Enhanced error handling with sanitization
  * @param message - Error message to sanitize
@@ -131,19 +147,18 @@ function sanitizeContent(content: string): string {
  * @returns The client IP address or fallback
  */
 async function getClientIP(): Promise<string> {
-  const headersList = await headers()
-  const forwarded = headersList.get('x-forwarded-for')
-  const realIP = headersList.get('x-real-ip')
-  
-  if (forwarded) {
-    return forwarded.split(',')[0].trim()
-  }
-  
-  if (realIP) {
-    return realIP
-  }
-  
-  return '127.0.0.1' // Fallback for development
+  return getClientIPFromHeaders(await headers())
+}
+
+/**
+ * Turns a poll service result into the response shape the UI expects
+ * @param result - Result from lib/services/polls
+ * @returns The data, or the mapped error message
+ */
+function toActionResponse<T>(result: ServiceResult<T, PollError | VoteError>): Result<T> {
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: result.error.message }
 }
 
 /**
@@ -180,14 +195,13 @@ function validateAndSanitizePollData(data: unknown): PollData {
  * 5. Input sanitization prevents XSS and injection attacks
  * 6. Server-side processing prevents client-side manipulation of poll data
  * 
- * HOW: Enhanced multi-step process with security measures:
+ * HOW: Delegates to the poll service shared with POST /api/polls, which:
  * 1. Apply rate limiting to prevent spam
  * 2. Extract, validate, and sanitize form data using Zod schemas
  * 3. Verify user authentication and create/update profile if needed
- * 4. Insert poll record with sanitized data into database
- * 5. Insert all poll options with proper ordering and sanitization
- * 6. Clean up on failure (delete poll if options insertion fails)
- * 7. Smart cache revalidation and secure redirect
+ * 4. Insert the poll, its options and any allow-list in one transaction
+ *    through create_poll_with_options(), so a failure leaves nothing behind
+ * 5. Smart cache revalidation
  * 
  * @param formData - FormData object containing poll information:
  *   - title: Poll title (required)
@@ -196,6 +210,7 @@ function validateAndSanitizePollData(data: unknown): PollData {
  *   - allowMultipleSelections: Whether multiple selections are allowed
  *   - isPublic: Whether the poll is public or private
  *   - endDate: Optional end date for the poll
+ *   - eligibility: Who may vote, with eligibleEmailDomain or eligibleEmails for email rules
  * 
  * @throws Error if rate limit exceeded
  * @throws Error if user is not authenticated
@@ -217,126 +232,8 @@ function validateAndSanitizePollData(data: unknown): PollData {
  * </form>
  * ```
  */
-export async function createPoll(pollData: any): Promise<ServerActionResponse<{ pollId: string }>> {
-  try {
-    // Rate limiting check
-    const clientIP = await getClientIP()
-    const { success: rateLimitOk } = await ratelimit.limit(`create-poll:${clientIP}`)
-    
-    if (!rateLimitOk) {
-      throw new Error('Too many poll creation attempts. Please try again later.')
-    }
-
-    // Validate input data using Zod schema
-    const validationResult = PollCreationSchema.safeParse(pollData)
-    if (!validationResult.success) {
-      const errorMessage = validationResult.error.issues
-        .map((err: any) => `${err.path.join('.')}: ${err.message}`)
-        .join(', ')
-      throw new Error(`Validation failed: ${errorMessage}`)
-    }
-
-    const { title, description, options, allowMultipleSelections, isPublic, endDate } = validationResult.data
-  
-    // Additional server-side validation
-    let parsedEndDate = null
-    if (endDate) {
-      parsedEndDate = new Date(endDate)
-      if (parsedEndDate <= new Date()) {
-        throw new Error('End date must be in the future')
-      }
-    }
-
-    // Sanitize inputs
-    const sanitizedTitle = sanitizeText(title)
-    const sanitizedDescription = description ? sanitizeHtml(description) : null
-    const sanitizedOptions = options.map(opt => ({ text: sanitizeText(opt.text) }))
-    // Create server-side Supabase client
-    const supabase = await createServerSupabaseClient()
-    
-    // Get the current authenticated user
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
-    
-    if (authError || !user) {
-      throw new Error('You must be logged in to create a poll')
-    }
-    
-    // Ensure user profile exists (create if doesn't exist)
-    const { error: profileError } = await supabase
-      .from('profiles')
-      .upsert({
-        id: user.id,
-        email: user.email,
-        full_name: user.user_metadata?.full_name || user.email?.split('@')[0] || 'User'
-      }, {
-        onConflict: 'id'
-      })
-    
-    if (profileError) {
-      console.error('Error ensuring profile exists:', profileError)
-      // Continue anyway - the profile might already exist
-    }
-    
-    // Create the poll with transaction
-    const { data: poll, error: pollError } = await supabase
-      .from('polls')
-      .insert({
-        title: sanitizedTitle,
-        description: sanitizedDescription,
-        allow_multiple_selections: allowMultipleSelections,
-        is_public: isPublic,
-        end_date: parsedEndDate ? parsedEndDate.toISOString() : null,
-        created_by: user.id
-      })
-      .select()
-      .single()
-
-    if (pollError) {
-      console.error('Error creating poll:', pollError)
-      throw new Error('Failed to create poll. Please try again.')
-    }
-
-    // Create poll options
-    const optionsToInsert = sanitizedOptions.map((option, index) => ({
-      poll_id: poll.id,
-      text: option.text,
-      order_index: index
-    }))
-
-    const { error: optionsError } = await supabase
-      .from('poll_options')
-      .insert(optionsToInsert)
-
-    if (optionsError) {
-      console.error('Error creating poll options:', optionsError)
-      // Clean up the poll if options failed
-      await supabase.from('polls').delete().eq('id', poll.id)
-      throw new Error('Failed to create poll options. Please try again.')
-    }
-    
-    console.log('Poll created successfully:', poll.id)
-    // Smart cache revalidation
-    revalidatePath('/polls')
-    revalidatePath(`/polls/${poll.id}`)
-    
-    return {
-      success: true,
-      data: { pollId: poll.id }
-    }
-    
-  } catch (error) {
-    // Handle Next.js redirects (these are not actual errors)
-    if (isNextRedirect(error)) {
-      throw error;
-    }
-    
-    logError(error, 'createPoll');
-    const pollError = mapPollError(error);
-    return {
-      success: false,
-      error: pollError.message
-    };
-  }
+export async function createPoll(pollData: unknown): Promise<ServerActionResponse<{ pollId: string }>> {
+  return toActionResponse(await pollService.createPoll(pollData))
 }
 
 /**
@@ -358,6 +255,8 @@ export async function createPoll(pollData: any): Promise<ServerActionResponse<{
  * const publicPolls = await getPublicPolls()
  * console.log(`Found ${publicPolls.length} public polls`)
  * ```
+ * 
+ * @see listPolls for searchable, paginated listings
  */
 export async function getPublicPolls() {
   try {
@@ -381,6 +280,171 @@ export async function getPublicPolls() {
   }
 }
 
+/** Window used by the "closing soon" listing filter */
+const CLOSING_SOON_WINDOW_MS = 48 * 60 * 60 * 1000
+
+/** Column each listing sort is keyed on; `id` breaks ties so the order is total */
+const POLL_LIST_SORTS: Record<PollListSort, { column: 'created_at' | 'total_votes' | 'end_date'; ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  most_votes: { column: 'total_votes', ascending: false },
+  ending_soon: { column: 'end_date', ascending: true },
+}
+
+/** Position of the last row of a page: its sort value and ID */
+interface PollListCursor {
+  value: string | number | null
+  id: string
+}
+
+function encodePollListCursor(cursor: PollListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+/**
+ * Sort value a cursor may hold for each sort column. The value ends up in a
+ * PostgREST filter string, so anything else is rejected.
+ */
+const POLL_LIST_CURSOR_VALUES = {
+  created_at: z.iso.datetime({ offset: true }),
+  total_votes: z.number().int().nonnegative(),
+  end_date: z.iso.datetime({ offset: true }).nullable(),
+}
+
+/** @returns The decoded cursor, or null if it was tampered with or malformed */
+function decodePollListCursor(cursor: string, column: keyof typeof POLL_LIST_CURSOR_VALUES): PollListCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    const validValue = POLL_LIST_CURSOR_VALUES[column].safeParse(decoded?.value).success
+
+    if (!validValue || !z.string().uuid().safeParse(decoded.id).success) {
+      return null
+    }
+
+    return { value: decoded.value, id: decoded.id }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Lists public polls one page at a time
+ * 
+ * Supports full-text search over title and description, status and creator
+ * filters, and three sort orders. Pages are keyset-paginated: the cursor holds
+ * the sort value and ID of the last row, so pages stay stable while new polls
+ * and votes arrive, unlike offset paging.
+ * 
+ * @param query - Raw listing query (usually URL search params), validated with PollListQuerySchema
+ * @returns Promise<PaginatedResponse<PollWithStats>> - One page of polls and the cursor for the next
+ * 
+ * Features:
+ * - Only public polls, unless the creator filter is the signed-in user
+ * - "Active" excludes polls scheduled to open later; "scheduled" lists only those
+ * - "Closing soon" means active and ending within the next 48 hours
+ * - Polls without an end date sort last when ordering by end date
+ * 
+ * @example
+ * ```tsx
+ * const page = await listPolls({ search: 'lunch', sort: 'most_votes' })
+ * const next = await listPolls({ search: 'lunch', sort: 'most_votes', cursor: page.pagination?.nextCursor })
+ * ```
+ */
+export async function listPolls(query: unknown): Promise<PaginatedResponse<PollWithStats>> {
+  try {
+    const validationResult = PollListQuerySchema.safeParse(query)
+    if (!validationResult.success) {
+      const errorMessages = validationResult.error.issues.map(issue => issue.message).join(', ')
+      return { success: false, error: `Validation failed: ${errorMessages}`, statusCode: 400 }
+    }
+
+    const { search, status, sort, creator, cursor, limit } = validationResult.data
+    const { column, ascending } = POLL_LIST_SORTS[sort]
+
+    const position = cursor ? decodePollListCursor(cursor, column) : null
+    if (cursor && !position) {
+      return { success: false, error: 'Invalid cursor', statusCode: 400 }
+    }
+
+    const supabase = await createServerSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    let dbQuery = supabase
+      .from('poll_stats')
+      .select('id, title, description, created_by, is_public, is_active, created_at, starts_at, end_date, closed_at, voting_method, option_count, total_votes, unique_voters')
+
+    // Owners browsing their own polls also see private ones; RLS hides everyone else's
+    if (creator) {
+      dbQuery = dbQuery.eq('created_by', creator)
+    }
+    if (!creator || creator !== user?.id) {
+      dbQuery = dbQuery.eq('is_public', true)
+    }
+
+    if (search) {
+      dbQuery = dbQuery.textSearch('search_vector', search, { type: 'websearch', config: 'english' })
+    }
+
+    const now = new Date().toISOString()
+    if (status === 'active') {
+      dbQuery = dbQuery
+        .eq('is_active', true)
+        .or(`starts_at.is.null,starts_at.lte.${now}`)
+        .or(`end_date.is.null,end_date.gt.${now}`)
+    } else if (status === 'scheduled') {
+      dbQuery = dbQuery.eq('is_active', true).gt('starts_at', now)
+    } else if (status === 'ended') {
+      dbQuery = dbQuery.or(`is_active.eq.false,end_date.lte.${now}`)
+    } else if (status === 'closing_soon') {
+      const soon = new Date(Date.now() + CLOSING_SOON_WINDOW_MS).toISOString()
+      dbQuery = dbQuery.eq('is_active', true).gt('end_date', now).lte('end_date', soon)
+    }
+
+    if (position) {
+      const op = ascending ? 'gt' : 'lt'
+      if (position.value === null) {
+        // Only end_date can be null, and nulls sort last, so we are already in the tail
+        dbQuery = dbQuery.is(column, null).filter('id', op, position.id)
+      } else {
+        const value = `"${position.value}"`
+        const nullTail = column === 'end_date' ? `,${column}.is.null` : ''
+        dbQuery = dbQuery.or(`${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${position.id})${nullTail}`)
+      }
+    }
+
+    // Fetch one extra row to find out whether there is another page
+    const { data, error } = await dbQuery
+      .order(column, { ascending, nullsFirst: false })
+      .order('id', { ascending })
+      .limit(limit + 1)
+
+    if (error) {
+      console.error('Error listing polls:', error)
+      return { success: false, error: 'Failed to fetch polls', statusCode: 500 }
+    }
+
+    const rows = (data || []) as PollWithStats[]
+    const hasMore = rows.length > limit
+    const polls = hasMore ? rows.slice(0, limit) : rows
+    const last = polls[polls.length - 1]
+
+    return {
+      success: true,
+      data: polls,
+      statusCode: 200,
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore && last
+          ? encodePollListCursor({ value: last[column] ?? null, id: last.id })
+          : null,
+      },
+    }
+  } catch (error) {
+    logError(error, 'listPolls')
+    return { success: false, error: 'An unexpected error occurred', statusCode: 500 }
+  }
+}
+
 /**
  * Retrieves all polls created by a specific user
  * 
@@ -423,6 +487,41 @@ export async function getUserPolls(userId: string) {
   }
 }
 
+/**
+ * Looks up a public creator profile by handle
+ * 
+ * Backs the /u/[handle] page. Hidden profiles have no handle in the
+ * public_profiles view, so they can't be found here.
+ * 
+ * @param handle - Handle from the URL, matched case-insensitively
+ * @returns Promise<PublicProfile | null> - The profile, or null if it doesn't exist or is hidden
+ */
+export async function getPublicProfile(handle: string): Promise<PublicProfile | null> {
+  const validationResult = HandleSchema.safeParse(handle)
+  if (!validationResult.success) {
+    return null
+  }
+
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data, error } = await supabase
+      .from('public_profiles')
+      .select('id, full_name, avatar_url, handle, bio, created_at')
+      .eq('handle', validationResult.data)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching public profile:', error)
+      return null
+    }
+
+    return data as PublicProfile | null
+  } catch (error) {
+    console.error('Error in getPublicProfile:', error)
+    return null
+  }
+}
+
 /**
  * Retrieves a single poll with its options and vote results (Performance Optimized)
  * 
@@ -431,6 +530,7 @@ export async function getUserPolls(userId: string) {
  * all data needed for poll display and voting interfaces.
  * 
  * @param pollId - UUID of the poll to retrieve
+ * @param inviteToken - Optional invite token (from `?invite=`) for private polls
  * @returns Promise<PollWithResults | null> - Complete poll data with results, null if not found
  * 
  * Performance Features:
@@ -443,6 +543,7 @@ export async function getUserPolls(userId: string) {
  * - Poll metadata (title, description, settings, creator info)
  * - All poll options with vote counts and percentages
  * - Proper ordering of options
+ * - Ranked ballots for ranked-choice polls (empty for plurality polls)
  * 
  * @example
  * ```tsx
@@ -455,9 +556,10 @@ export async function getUserPolls(userId: string) {
  * }
  * ```
  */
-export async function getPollWithResults(pollId: string) {
+export async function getPollWithResults(pollId: string, inviteToken?: string | null) {
   try {
-    const supabase = await createServerSupabaseClient()
+    // Private polls are readable through a valid invite, checked by RLS
+    const supabase = await createServerSupabaseClient({ inviteToken: parseInviteToken(inviteToken) })
     
     // Get poll details
     const { data: poll, error: pollError } = await supabase
@@ -495,9 +597,38 @@ export async function getPollWithResults(pollId: string) {
       vote_percentage: result.vote_percentage || 0
     }))
 
+    // Ranked-choice results need the individual ballots for the instant-runoff count
+    let ballots: RankedBallot[] = []
+    if (poll.voting_method === 'ranked_choice') {
+      const { data: ballotRows, error: ballotsError } = await supabase
+        .from('votes')
+        .select('ballot_id, option_id, rank')
+        .eq('poll_id', pollId)
+        .not('ballot_id', 'is', null)
+
+      if (ballotsError) {
+        console.error('Error fetching ranked ballots:', ballotsError)
+      } else {
+        ballots = groupRankedBallots(ballotRows || [])
+      }
+    }
+
+    // The creator's profile row is private; their name and avatar are public
+    const { data: creator, error: creatorError } = await supabase
+      .from('public_profiles')
+      .select('id, full_name, avatar_url, handle, bio, created_at')
+      .eq('id', poll.created_by)
+      .maybeSingle()
+
+    if (creatorError) {
+      console.error('Error fetching poll creator:', creatorError)
+    }
+
     return {
       ...poll,
-      options: optionsWithStats
+      options: optionsWithStats,
+      ballots,
+      creator: (creator as PublicProfile | null) ?? null
     }
   } catch (error) {
     console.error('Error in getPollWithResults:', error)
@@ -505,6 +636,75 @@ export async function getPollWithResults(pollId: string) {
   }
 }
 
+/**
+ * Gets what a link preview shows for a poll: its title and leading options
+ * 
+ * WHY: Link previews (page metadata, the Open Graph image) are fetched by
+ * crawlers and shown to anyone in the channel the link was posted in, so they
+ * must never carry a private poll's content, even when the link holds an invite.
+ * 
+ * WHAT: Returns the title, description, total votes and the options with the
+ * most votes, or null for private, missing or unreadable polls.
+ * 
+ * HOW: Reads the poll without an invite token and keeps it only if it is
+ * public, then takes the tallies from the poll_results view. For ranked-choice
+ * polls these are first preferences.
+ * 
+ * @param pollId - UUID of the poll
+ * @returns Promise<PollPreview | null> - Preview data, or null if there's nothing to show
+ */
+export async function getPollPreview(pollId: string): Promise<PollPreview | null> {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    // The owner's session can read their private polls, so is_public is checked explicitly
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('title, description, voting_method')
+      .eq('id', pollId)
+      .eq('is_public', true)
+      .maybeSingle()
+
+    if (pollError || !poll) {
+      if (pollError) console.error('Error fetching poll preview:', pollError)
+      return null
+    }
+
+    const { data: results, error: resultsError } = await supabase
+      .from('poll_results')
+      .select('option_id, option_text, order_index, vote_count, vote_percentage')
+      .eq('poll_id', pollId)
+      .order('order_index', { ascending: true })
+
+    if (resultsError) {
+      console.error('Error fetching poll preview results:', resultsError)
+      return null
+    }
+
+    const options = (results || [])
+      .map(result => ({
+        option_id: result.option_id as string,
+        option_text: result.option_text as string,
+        vote_count: Number(result.vote_count) || 0,
+        vote_percentage: Number(result.vote_percentage) || 0
+      }))
+      // Stable sort keeps display order between options with equal votes
+      .sort((a, b) => b.vote_count - a.vote_count)
+
+    return {
+      title: poll.title,
+      description: poll.description,
+      voting_method: poll.voting_method,
+      totalVotes: options.reduce((sum, option) => sum + option.vote_count, 0),
+      topOptions: options.slice(0, PREVIEW_OPTION_LIMIT),
+      otherOptionCount: Math.max(0, options.length - PREVIEW_OPTION_LIMIT)
+    }
+  } catch (error) {
+    console.error('Error in getPollPreview:', error)
+    return null
+  }
+}
+
 /**
  * Submits a vote with enhanced security and validation
  * 
@@ -517,45 +717,45 @@ export async function getPollWithResults(pollId: string) {
  * 3. Implements comprehensive eligibility checks
  * 4. Handles authenticated and anonymous voting securely
  * 5. Enforces poll rules with proper validation
- * 6. Prevents duplicate voting and manages vote replacement
+ * 6. Prevents duplicate voting; changing a ballot goes through changeVote
  * 7. Updates poll statistics with real-time cache invalidation
  * 
- * HOW: Secure voting process:
+ * HOW: Delegates to castVote in the poll service shared with the vote API route:
  * 1. Rate limit check for the user/IP
  * 2. Validate and sanitize input parameters using Zod
  * 3. Verify poll existence and voting eligibility
- * 4. Get real client IP for anonymous voting tracking
- * 5. Check poll rules and handle vote replacement logic
- * 6. Insert vote with proper validation and error handling
- * 7. Smart cache revalidation for immediate UI updates
+ * 4. Identify anonymous voters by their signed voter cookie and hashed IP
+ * 5. Call cast_ballot(), which checks the selection rule, rejects second
+ *    ballots on single-choice polls and inserts the ballot in one transaction
+ * 6. Smart cache revalidation for immediate UI updates
  * 
  * Security Features:
  * 1. Rate limiting to prevent vote spam
  * 2. Input validation and sanitization using Zod schemas
- * 3. Real IP address tracking for anonymous users
+ * 3. Signed voter cookies and hashed IPs for anonymous users
  * 4. Database-level voting eligibility checks
  * 5. Proper error handling without information leakage
- * 6. Transaction-like operations for data consistency
+ * 6. Duplicate checks and the insert run in one transaction, so concurrent
+ *    submissions can't both get through
  * 
  * @param pollId - UUID of the poll to vote on
- * @param optionId - UUID of the poll option being voted for
- * @param userId - Optional UUID of the authenticated user
+ * @param optionIds - UUIDs of the chosen options; for ranked-choice polls, in preference order
+ * @param inviteToken - Invite token, required to vote on someone else's private poll
  * 
  * @returns Promise<ServerActionResponse<{success: true}>> - Success status or error
  * 
  * @throws Error if rate limit exceeded
  * @throws Error if validation fails
  * @throws Error if user cannot vote on this poll
+ * @throws Error if a private poll's invite is missing, revoked, expired or used up
+ * @throws Error if the voter doesn't meet the poll's eligibility rule
  * @throws Error if poll is not found or expired
  * @throws Error if vote submission fails
  * 
  * @example
  * ```tsx
- * // Authenticated user voting
- * const result = await submitVote(pollId, optionId, user.id)
- * 
- * // Anonymous voting
- * const result = await submitVote(pollId, optionId)
+ * // The voter is the signed-in user, or the anonymous visitor's cookie
+ * const result = await submitVote(pollId, [optionId])
  * 
  * if (result.success) {
  *   console.log('Vote submitted successfully')
@@ -564,134 +764,106 @@ export async function getPollWithResults(pollId: string) {
  * }
  * ```
  */
-export async function submitVote(pollId: string, optionIds: string[], userId?: string): Promise<ServerActionResponse<{ success: true }>> {
-  try {
-    // Rate limiting check
-    const clientIP = await getClientIP()
-    const rateLimitKey = userId ? `vote:user:${userId}` : `vote:ip:${clientIP}`
-    const { success: rateLimitOk } = await ratelimit.limit(rateLimitKey)
-    
-    if (!rateLimitOk) {
-      throw new Error('Too many voting attempts. Please try again later.')
-    }
-
-    // Validate input data using Zod schema
-    const validationResult = VoteSubmissionSchema.safeParse({
-      pollId,
-      optionIds
-    })
-    
-    if (!validationResult.success) {
-      const errorMessage = validationResult.error.issues
-        .map((err: any) => `${err.path.join('.')}: ${err.message}`)
-        .join(', ')
-      throw new Error(`Validation failed: ${errorMessage}`)
-    }
-
-    const { pollId: validatedPollId, optionIds: validatedOptionIds } = validationResult.data
-    
-    const supabase = await createServerSupabaseClient()
-    
-    // Check if poll exists and is active
-    const { data: poll, error: pollError } = await supabase
-      .from('polls')
-      .select('id, allow_multiple_selections, end_date, is_public')
-      .eq('id', validatedPollId)
-      .single()
-
-    if (pollError || !poll) {
-      throw new Error('Poll not found or no longer available')
-    }
+export async function submitVote(pollId: string, optionIds: string[], inviteToken?: string | null): Promise<ServerActionResponse<{ success: true }>> {
+  return toActionResponse(await pollService.castVote({ pollId, optionIds, inviteToken }))
+}
 
-    // Check if poll has ended
-    if (poll.end_date && new Date(poll.end_date) < new Date()) {
-      throw new Error('This poll has ended and no longer accepts votes')
-    }
+/**
+ * Replaces the signed-in user's ballot on a poll with a new one
+ * 
+ * WHAT: Swaps every option the user voted for with a new selection, or a new
+ * preference order on ranked-choice polls, and records the change in the
+ * poll's ballot history.
+ * 
+ * WHY: submitVote refuses a second ballot on single-choice and ranked polls so
+ * a stray submission can't quietly overwrite a vote. Changing a vote is an
+ * explicit step instead, which owners can see in their statistics and switch
+ * off by locking votes.
+ * 
+ * HOW (in the poll service):
+ * 1. Rate limit, validate input and require a signed-in user
+ * 2. Run the same poll checks as submitVote (open, invite, eligibility)
+ * 3. Refuse if the poll locks votes or the user hasn't voted yet
+ * 4. Call change_ballot(), which swaps the ballot and records the change in
+ *    vote_history in one transaction, without charging another invite use
+ * 
+ * Anonymous votes can't be changed: without an account there is no way to
+ * prove the earlier ballot is yours once the voter cookie is gone.
+ * 
+ * @param pollId - UUID of the poll
+ * @param optionIds - The new selection; for ranked-choice polls, in preference order
+ * @param inviteToken - Optional invite token for a private poll
+ * @returns Promise<ServerActionResponse<{ success: true }>> - Success status or error
+ * 
+ * @example
+ * ```tsx
+ * const result = await changeVote(pollId, [optionId])
+ * if (!result.success) setError(result.error)
+ * ```
+ */
+export async function changeVote(pollId: string, optionIds: string[], inviteToken?: string | null): Promise<ServerActionResponse<{ success: true }>> {
+  return toActionResponse(await pollService.changeVote({ pollId, optionIds, inviteToken }))
+}
 
-    // Validate option count based on poll settings
-    if (!poll.allow_multiple_selections && validatedOptionIds.length > 1) {
-      throw new Error('This poll only allows one selection')
-    }
+/**
+ * Withdraws the signed-in user's ballot from a poll
+ * 
+ * WHAT: Deletes every vote the user cast on the poll and records the
+ * retraction in the poll's ballot history, in one transaction.
+ * 
+ * WHY: Voters sometimes vote by mistake or change their mind about taking
+ * part at all. Retracting is only possible while the poll is open and the
+ * owner hasn't locked votes; RLS enforces the same rule on deletes.
+ * 
+ * @param pollId - UUID of the poll
+ * @param inviteToken - Optional invite token for a private poll
+ * @returns Promise<ServerActionResponse<{ success: true }>> - Success status or error
+ * 
+ * @example
+ * ```tsx
+ * const result = await retractVote(pollId)
+ * if (result.success) router.refresh()
+ * ```
+ */
+export async function retractVote(pollId: string, inviteToken?: string | null): Promise<ServerActionResponse<{ success: true }>> {
+  return toActionResponse(await pollService.retractVote(pollId, inviteToken))
+}
 
-    // Check if all options exist for this poll
-    const { data: options, error: optionsError } = await supabase
-      .from('poll_options')
-      .select('id')
-      .eq('poll_id', validatedPollId)
-      .in('id', validatedOptionIds)
+/**
+ * Counts how many ballots on a poll were changed or retracted
+ * 
+ * The poll owner sees counts for the whole poll; RLS limits anyone else to
+ * their own history entries.
+ * 
+ * @param pollId - UUID of the poll
+ * @returns Promise<VoteChangeStats> - Change and retraction counts (zeros on error)
+ */
+export async function getVoteChangeStats(pollId: string): Promise<VoteChangeStats> {
+  try {
+    const supabase = await createServerSupabaseClient()
 
-    if (optionsError || !options || options.length !== validatedOptionIds.length) {
-      throw new Error('Invalid poll options')
-    }
+    const countAction = (action: 'changed' | 'retracted') => supabase
+      .from('vote_history')
+      .select('id', { count: 'exact', head: true })
+      .eq('poll_id', pollId)
+      .eq('action', action)
 
-    // Check for existing votes
-    const { data: existingVotes, error: voteCheckError } = await supabase
-      .from('votes')
-      .select('option_id')
-      .eq('poll_id', validatedPollId)
-      .eq('user_id', userId || null)
+    const [changedResult, retractedResult] = await Promise.all([
+      countAction('changed'),
+      countAction('retracted')
+    ])
 
-    if (voteCheckError) {
-      console.error('Vote check error:', voteCheckError)
-      throw new Error('Error checking existing votes')
+    if (changedResult.error || retractedResult.error) {
+      console.error('Error counting vote changes:', changedResult.error || retractedResult.error)
+      return { changed: 0, retracted: 0 }
     }
 
-    // For single selection polls, remove existing votes
-    if (!poll.allow_multiple_selections && existingVotes && existingVotes.length > 0) {
-      const { error: deleteError } = await supabase
-        .from('votes')
-        .delete()
-        .eq('poll_id', validatedPollId)
-        .eq('user_id', userId || null)
-
-      if (deleteError) {
-        console.error('Vote deletion error:', deleteError)
-        throw new Error('Error updating vote')
-      }
-    }
-
-    // For multiple selection polls, check for duplicate votes
-    if (poll.allow_multiple_selections && existingVotes) {
-      const existingOptionIds = existingVotes.map(vote => vote.option_id)
-      const duplicateOptions = validatedOptionIds.filter(id => existingOptionIds.includes(id))
-      
-      if (duplicateOptions.length > 0) {
-        throw new Error('You have already voted for some of these options')
-      }
-    }
-
-    // Submit the votes
-    const voteInserts = validatedOptionIds.map(optionId => ({
-      poll_id: validatedPollId,
-      option_id: optionId,
-      user_id: userId || null,
-      voter_ip: clientIP,
-      created_at: new Date().toISOString()
-    }))
-
-    const { error: voteError } = await supabase
-      .from('votes')
-      .insert(voteInserts)
-
-    if (voteError) {
-      console.error('Vote submission error:', voteError)
-      throw new Error('Failed to submit vote. Please try again.')
-    }
-
-    // Smart cache revalidation for immediate updates
-    revalidatePath(`/polls/${validatedPollId}`)
-    revalidatePath('/polls') // Update polls list if it shows vote counts
-    
-    return { success: true, data: { success: true } }
-  } catch (error) {
-    logError(error, 'submitVote');
-    const voteError = mapVoteError(error);
-    return {
-      success: false,
-      error: voteError.message
-    };
-  }
-}
+    return { changed: changedResult.count || 0, retracted: retractedResult.count || 0 }
+  } catch (error) {
+    console.error('Error in getVoteChangeStats:', error)
+    return { changed: 0, retracted: 0 }
+  }
+}
 
 /**
  * Checks if a user has voted on a specific poll
@@ -741,7 +913,9 @@ export async function hasUserVoted(pollId: string, userId?: string) {
  * showing which options are selected in the UI and handling multiple-choice polls.
  * 
  * @param pollId - UUID of the poll to get votes for
- * @param userId - Optional UUID of the user (returns empty array if undefined)
+ * @param userId - Optional UUID of the user; when undefined, the votes of the
+ *   visitor's anonymous voter cookie are returned (empty if there is none)
+ * @param inviteToken - Optional invite token, needed to read votes on a private poll
  * @returns Promise<string[]> - Array of option IDs the user voted for
  * 
  * @example
@@ -754,16 +928,23 @@ export async function hasUserVoted(pollId: string, userId?: string) {
  * })
  * ```
  */
-export async function getUserVotes(pollId: string, userId?: string) {
-  if (!userId) return []
-
+export async function getUserVotes(pollId: string, userId?: string, inviteToken?: string | null) {
   try {
-    const supabase = await createServerSupabaseClient()
-    const { data, error } = await supabase
+    // Signed-out visitors are matched by their anonymous voter cookie, if they have one
+    const anonymousVoterToken = userId ? null : await readAnonymousVoterToken()
+    if (!userId && !anonymousVoterToken) return []
+
+    const supabase = await createServerSupabaseClient({ inviteToken: parseInviteToken(inviteToken) })
+    // Ranked ballots come back in preference order
+    const votesQuery = supabase
       .from('votes')
       .select('option_id')
       .eq('poll_id', pollId)
-      .eq('user_id', userId)
+      .order('rank', { ascending: true, nullsFirst: false })
+
+    const { data, error } = anonymousVoterToken
+      ? await votesQuery.is('user_id', null).eq('voter_token', anonymousVoterToken)
+      : await votesQuery.eq('user_id', userId)
 
     if (error) {
       console.error('Error getting user votes:', error)
@@ -777,12 +958,84 @@ export async function getUserVotes(pollId: string, userId?: string) {
   }
 }
 
+/**
+ * Checks whether the current user may vote under a poll's eligibility rule
+ * 
+ * Lets the poll page explain up front why someone can't vote, instead of
+ * failing when they submit.
+ * 
+ * @param pollId - UUID of the poll to check
+ * @returns Promise<VoteEligibilityStatus> - 'eligible', or the reason the user isn't.
+ *   Returns 'eligible' on error; submitVote and RLS still enforce the rule.
+ */
+export async function getVoteEligibility(pollId: string): Promise<VoteEligibilityStatus> {
+  try {
+    const supabase = await createServerSupabaseClient()
+    // Checks the session's own user
+    const { data, error } = await supabase.rpc('check_vote_eligibility', { poll_uuid: pollId })
+
+    if (error) {
+      console.error('Error checking vote eligibility:', error)
+      return 'eligible'
+    }
+
+    return (data as VoteEligibilityStatus) || 'eligible'
+  } catch (error) {
+    console.error('Error in getVoteEligibility:', error)
+    return 'eligible'
+  }
+}
+
+/**
+ * Updates an existing poll and its options (Creator Authorization Required)
+ * 
+ * WHAT: Lets the poll owner change the title, description, end date and visibility,
+ * and reorder, add or remove options.
+ * 
+ * WHY: Options that already have votes need protecting - rewording them would change
+ * what people voted for, and removing them silently would drop those votes. Voted
+ * options therefore keep their text, and can only be removed when the caller sets
+ * `confirmRemoveVotedOptions`.
+ * 
+ * HOW (in the poll service, shared with PATCH /api/polls/[id]):
+ * 1. Apply per-user rate limiting, verify authentication and validate input
+ *    with PollUpdateSchema
+ * 2. Verify poll ownership
+ * 3. Check a changed end date is in the future
+ * 4. Call update_poll_with_options(), which updates the poll fields, removes,
+ *    reorders, rewords and adds options in one transaction, keeping the text of
+ *    options with votes at any rank
+ * 5. Revalidate affected pages and report a close to webhooks
+ * 
+ * @param pollId - UUID of the poll to update
+ * @param pollData - Updated poll data; `options` is in the new display order and
+ *   existing options are identified by `id`
+ * 
+ * @returns Promise<ServerActionResponse<{ pollId: string }>> - Success with poll ID, or
+ *   an error when rate limited, signed out, not the owner, invalid, removing voted
+ *   options without confirmation, or the update fails
+ * 
+ * @example
+ * ```tsx
+ * const result = await updatePoll(poll.id, {
+ *   title: 'Lunch on Friday?',
+ *   options: [{ id: pizzaId, text: 'Pizza' }, { text: 'Sushi' }],
+ *   isPublic: true,
+ *   confirmRemoveVotedOptions: false
+ * })
+ * ```
+ */
+export async function updatePoll(pollId: string, pollData: unknown): Promise<ServerActionResponse<{ pollId: string }>> {
+  return toActionResponse(await pollService.updatePoll(pollId, pollData))
+}
+
 /**
  * Deletes a poll and all associated data (Creator Authorization Required)
  * 
  * Permanently removes a poll and all related data including options and votes.
  * Only the poll creator can delete their own polls. Uses database cascade
- * deletion to ensure all related records are properly cleaned up.
+ * deletion to ensure all related records are properly cleaned up. Shares its
+ * code path, including the rate limit, with DELETE /api/polls/[id].
  * 
  * @param pollId - UUID of the poll to delete
  * @returns Promise<{success: boolean}> - Success status object
@@ -793,8 +1046,10 @@ export async function getUserVotes(pollId: string, userId?: string) {
  * @throws Error if deletion fails
  * 
  * Security Features:
+ * - Rate limits deletions per user
  * - Verifies user authentication
  * - Validates poll ownership before deletion
+ * - Requires the two-factor challenge when the account has it turned on
  * - Uses database cascade for complete cleanup
  * - Revalidates related pages after deletion
  * 
@@ -809,18 +1064,112 @@ export async function getUserVotes(pollId: string, userId?: string) {
  * ```
  */
 export async function deletePoll(pollId: string): Promise<ServerActionResponse<{ success: true }>> {
+  return toActionResponse(await pollService.deletePoll(pollId))
+}
+/**
+ * Duplicates a poll and its options into a new draft (Creator Authorization Required)
+ * 
+ * WHAT: Copies the poll settings and options of one of the user's polls into a new,
+ * inactive, private poll with no votes.
+ * 
+ * WHY: Teams re-run the same polls (retros, lunch choices) every week. The copy starts
+ * closed and private so the owner can adjust it on the edit page before opening it for
+ * voting; a public copy would show up in listings as an ended poll.
+ * The end date is not copied, since the original one has usually passed.
+ * 
+ * HOW:
+ * 1. Apply rate limiting and verify authentication
+ * 2. Call duplicate_poll(), which checks ownership and copies the poll, its
+ *    options in the original order and any allow-list in one transaction
+ * 
+ * @param pollId - UUID of the poll to copy
+ * 
+ * @throws Error if rate limit exceeded
+ * @throws Error if user is not authenticated or does not own the poll
+ * @throws Error if database operations fail
+ * 
+ * @returns Promise<ServerActionResponse<{ pollId: string }>> - Success with the new poll ID or error
+ * 
+ * @example
+ * ```tsx
+ * const result = await duplicatePoll(poll.id)
+ * if (result.success) router.push(`/polls/${result.data.pollId}/edit`)
+ * ```
+ */
+export async function duplicatePoll(pollId: string): Promise<ServerActionResponse<{ pollId: string }>> {
   try {
+    const clientIP = await getClientIP()
+    const { success: rateLimitOk } = await ratelimit.limit(`duplicate-poll:${clientIP}`)
+
+    if (!rateLimitOk) {
+      throw new Error('Too many poll duplication attempts. Please try again later.')
+    }
+
     const supabase = await createServerSupabaseClient()
     const { data: { user }, error: authError } = await supabase.auth.getUser()
-    
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to duplicate a poll')
+    }
+
+    const { data: copyId, error: copyError } = await supabase.rpc('duplicate_poll', { poll_uuid: pollId })
+
+    if (copyError || !copyId) {
+      console.error('Error duplicating poll:', copyError)
+      // Messages raised by the function itself are meant for the user
+      throw new Error(copyError?.code === 'P0001' ? copyError.message : 'Failed to duplicate poll. Please try again.')
+    }
+
+    revalidatePath('/dashboard')
+    revalidatePath('/polls')
+
+    return { success: true, data: { pollId: copyId as string } }
+  } catch (error) {
+    if (isNextRedirect(error)) {
+      throw error;
+    }
+
+    logError(error, 'duplicatePoll');
+    const pollError = mapPollError(error);
+    return {
+      success: false,
+      error: pollError.message
+    };
+  }
+}
+
+/**
+ * Saves one of the user's polls as a reusable template
+ * 
+ * Stores the title, description, options and voting settings in poll_templates,
+ * where /polls/new offers them next to the built-in templates.
+ * 
+ * @param pollId - UUID of the poll to save
+ * @param name - Template name shown in the picker; defaults to the poll title
+ * @returns Promise<ServerActionResponse<{ templateId: string }>> - Success with template ID or error
+ */
+export async function savePollAsTemplate(pollId: string, name?: string): Promise<ServerActionResponse<{ templateId: string }>> {
+  try {
+    const clientIP = await getClientIP()
+    const { success: rateLimitOk } = await ratelimit.limit(`save-template:${clientIP}`)
+
+    if (!rateLimitOk) {
+      throw new Error('Too many templates saved. Please try again later.')
+    }
+
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
     if (authError || !user) {
-      throw new Error('You must be logged in to delete a poll')
+      throw new Error('You must be logged in to save a template')
     }
 
-    // Verify the user owns this poll
     const { data: poll, error: pollError } = await supabase
       .from('polls')
-      .select('created_by')
+      .select(`
+        title, description, created_by, allow_multiple_selections, voting_method,
+        poll_options(text, order_index)
+      `)
       .eq('id', pollId)
       .single()
 
@@ -829,28 +1178,1217 @@ export async function deletePoll(pollId: string): Promise<ServerActionResponse<{
     }
 
     if (poll.created_by !== user.id) {
-      throw new Error('You can only delete your own polls')
+      throw new Error('You do not have permission to save this poll as a template')
+    }
+
+    const nameResult = PollTemplateNameSchema.safeParse(name ?? poll.title.slice(0, 100))
+    if (!nameResult.success) {
+      const errorMessages = nameResult.error.issues.map(issue => issue.message).join(', ')
+      throw new Error(`Validation failed: ${errorMessages}`)
+    }
+
+    const options = [...(poll.poll_options || [])]
+      .sort((a, b) => a.order_index - b.order_index)
+      .map(option => option.text)
+
+    const { data: template, error: templateError } = await supabase
+      .from('poll_templates')
+      .insert({
+        created_by: user.id,
+        name: nameResult.data,
+        title: poll.title,
+        description: poll.description,
+        options,
+        allow_multiple_selections: poll.allow_multiple_selections,
+        voting_method: poll.voting_method
+      })
+      .select('id')
+      .single()
+
+    if (templateError || !template) {
+      console.error('Error saving poll template:', templateError)
+      throw new Error('Failed to save template. Please try again.')
+    }
+
+    return { success: true, data: { templateId: template.id } }
+  } catch (error) {
+    if (isNextRedirect(error)) {
+      throw error;
+    }
+
+    logError(error, 'savePollAsTemplate');
+    const pollError = mapPollError(error);
+    return {
+      success: false,
+      error: pollError.message
+    };
+  }
+}
+
+/**
+ * Retrieves the current user's saved poll templates, newest first
+ * 
+ * @returns Promise<PollTemplate[]> - The user's templates, or an empty array when
+ *   signed out or on error. Built-in templates come from BUILT_IN_TEMPLATES.
+ */
+export async function getPollTemplates(): Promise<PollTemplate[]> {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return []
+    }
+
+    const { data, error } = await supabase
+      .from('poll_templates')
+      .select('id, name, title, description, options, allow_multiple_selections, voting_method, created_at')
+      .eq('created_by', user.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching poll templates:', error)
+      return []
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error in getPollTemplates:', error)
+    return []
+  }
+}
+
+/**
+ * Deletes one of the current user's saved poll templates
+ * 
+ * @param templateId - UUID of the template to delete
+ * @returns Promise<ServerActionResponse<{ success: true }>> - Success or error
+ */
+export async function deletePollTemplate(templateId: string): Promise<ServerActionResponse<{ success: true }>> {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to delete a template')
     }
 
-    // Delete the poll (cascade will handle related records)
+    // RLS limits deletes to the owner; the created_by filter makes that explicit
     const { error: deleteError } = await supabase
-      .from('polls')
+      .from('poll_templates')
       .delete()
-      .eq('id', pollId)
+      .eq('id', templateId)
+      .eq('created_by', user.id)
 
     if (deleteError) {
-      console.error('Error deleting poll:', deleteError)
-      throw new Error('Failed to delete poll. Please try again.')
+      console.error('Error deleting poll template:', deleteError)
+      throw new Error('Failed to delete template. Please try again.')
     }
 
-    revalidatePath('/polls')
     return { success: true, data: { success: true } }
   } catch (error) {
-    logError(error, 'deletePoll');
+    logError(error, 'deletePollTemplate');
+    const pollError = mapPollError(error);
+    return {
+      success: false,
+      error: pollError.message
+    };
+  }
+}
+
+/**
+ * Creates an invite link for one of the user's private polls (Creator Authorization Required)
+ * 
+ * WHAT: Generates an unguessable token that lets anyone holding
+ * `/polls/[id]?invite=<token>` view the poll and vote on it.
+ * 
+ * WHY: Private polls are otherwise visible only to their creator. Invites let a
+ * team vote without making the poll public, and each link can be limited and
+ * revoked on its own.
+ * 
+ * HOW:
+ * 1. Apply rate limiting and validate the optional expiry and usage cap
+ * 2. Verify authentication, poll ownership and that the poll is private
+ * 3. Store a 32 character token from generateSecureToken in poll_invites
+ * 
+ * @param pollId - UUID of the private poll
+ * @param inviteData - `{ expiresAt?, maxUses? }`; both optional
+ * 
+ * @throws Error if rate limit exceeded
+ * @throws Error if user is not authenticated or does not own the poll
+ * @throws Error if validation fails or the poll is public
+ * 
+ * @returns Promise<ServerActionResponse<{ invite: PollInvite }>> - Success with the new invite or error
+ * 
+ * @example
+ * ```tsx
+ * const result = await createPollInvite(poll.id, { maxUses: 20 })
+ * if (result.success) copy(`${origin}/polls/${poll.id}?invite=${result.data.invite.token}`)
+ * ```
+ */
+export async function createPollInvite(pollId: string, inviteData: unknown): Promise<ServerActionResponse<{ invite: PollInvite }>> {
+  try {
+    const clientIP = await getClientIP()
+    const { success: rateLimitOk } = await ratelimit.limit(`create-invite:${clientIP}`)
+
+    if (!rateLimitOk) {
+      throw new Error('Too many invite links created. Please try again later.')
+    }
+
+    const validationResult = PollInviteSchema.safeParse(inviteData)
+    if (!validationResult.success) {
+      const errorMessages = validationResult.error.issues.map(issue => issue.message).join(', ')
+      throw new Error(`Validation failed: ${errorMessages}`)
+    }
+
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to create an invite link')
+    }
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('created_by, is_public')
+      .eq('id', pollId)
+      .single()
+
+    if (pollError || !poll) {
+      throw new Error('Poll not found')
+    }
+
+    if (poll.created_by !== user.id) {
+      throw new Error('You do not have permission to invite people to this poll')
+    }
+
+    if (poll.is_public) {
+      throw new Error('Public polls can be shared without an invite link')
+    }
+
+    const { expiresAt, maxUses } = validationResult.data
+
+    const { data: invite, error: inviteError } = await supabase
+      .from('poll_invites')
+      .insert({
+        poll_id: pollId,
+        token: generateSecureToken(32),
+        created_by: user.id,
+        expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+        max_uses: maxUses ?? null
+      })
+      .select('id, poll_id, token, expires_at, max_uses, use_count, revoked_at, created_at')
+      .single()
+
+    if (inviteError || !invite) {
+      console.error('Error creating poll invite:', inviteError)
+      throw new Error('Failed to create invite link. Please try again.')
+    }
+
+    return { success: true, data: { invite } }
+  } catch (error) {
+    logError(error, 'createPollInvite');
     const pollError = mapPollError(error);
     return {
       success: false,
       error: pollError.message
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Retrieves the invite links of one of the current user's polls, newest first
+ * 
+ * @param pollId - UUID of the poll
+ * @returns Promise<PollInvite[]> - The poll's invites including revoked ones, or an
+ *   empty array for other users' polls (RLS) and on error
+ */
+export async function getPollInvites(pollId: string): Promise<PollInvite[]> {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase
+      .from('poll_invites')
+      .select('id, poll_id, token, expires_at, max_uses, use_count, revoked_at, created_at')
+      .eq('poll_id', pollId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching poll invites:', error)
+      return []
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error in getPollInvites:', error)
+    return []
+  }
+}
+
+/**
+ * Revokes an invite link so it stops granting access to its poll
+ * 
+ * The invite is kept, marked with `revoked_at`, so the owner can still see how
+ * many people used it. Votes already cast through it are not affected.
+ * 
+ * @param inviteId - UUID of the invite to revoke
+ * @returns Promise<ServerActionResponse<{ success: true }>> - Success or error
+ */
+export async function revokePollInvite(inviteId: string): Promise<ServerActionResponse<{ success: true }>> {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to revoke an invite link')
+    }
+
+    // RLS limits updates to the poll owner, so other users' invites match no rows
+    const { data: revoked, error: revokeError } = await supabase
+      .from('poll_invites')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', inviteId)
+      .is('revoked_at', null)
+      .select('poll_id')
+
+    if (revokeError) {
+      console.error('Error revoking poll invite:', revokeError)
+      throw new Error('Failed to revoke invite link. Please try again.')
+    }
+
+    if (!revoked || revoked.length === 0) {
+      throw new Error('Invite link not found or already revoked')
+    }
+
+    revalidatePath(`/polls/${revoked[0].poll_id}`)
+
+    return { success: true, data: { success: true } }
+  } catch (error) {
+    logError(error, 'revokePollInvite');
+    const pollError = mapPollError(error);
+    return {
+      success: false,
+      error: pollError.message
+    };
+  }
+}
+
+/**
+ * Explains whether an invite token works for a poll
+ * 
+ * Used by the poll page to tell visitors why a private poll link stopped working.
+ * 
+ * @param pollId - UUID of the poll
+ * @param inviteToken - Token from the `?invite=` parameter
+ * @returns Promise<PollInviteStatus> - 'valid', or the reason the invite can't be used
+ */
+export async function getPollInviteStatus(pollId: string, inviteToken: string): Promise<PollInviteStatus> {
+  const validatedToken = parseInviteToken(inviteToken)
+  if (!validatedToken) return 'invalid'
+
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data, error } = await supabase.rpc('get_poll_invite_status', {
+      poll_uuid: pollId,
+      invite_token: validatedToken
+    })
+
+    if (error) {
+      console.error('Error checking invite status:', error)
+      return 'invalid'
+    }
+
+    return (data as PollInviteStatus) || 'invalid'
+  } catch (error) {
+    console.error('Error in getPollInviteStatus:', error)
+    return 'invalid'
+  }
+}
+
+/**
+ * Creates an API key for the current user (Authentication Required)
+ * 
+ * WHAT: Generates a `polly_...` key for the /api/v1 REST API with read-only or
+ * read/write access.
+ * 
+ * WHY: Scripts and integrations can't sign in through the browser. A key acts
+ * as its owner under the same RLS policies, and each key can be revoked on its own.
+ * 
+ * HOW:
+ * 1. Apply rate limiting and validate the name and access level
+ * 2. Verify authentication, and the two-factor challenge when it's turned on
+ * 3. Store the key's SHA-256 hash and display prefix in api_keys; the full key
+ *    is returned once and never stored
+ * 
+ * @param keyData - `{ name, access? }`; access is 'read' (default) or 'read_write'
+ * 
+ * @throws Error if rate limit exceeded
+ * @throws Error if user is not authenticated or validation fails
+ * @throws Error if the account has two-factor authentication and the session hasn't passed it
+ * 
+ * @returns Promise<ServerActionResponse<{ apiKey: ApiKey; key: string }>> - The stored key and the
+ *   full key to show the user, or error
+ * 
+ * @example
+ * ```tsx
+ * const result = await createApiKey({ name: 'Slack bot', access: 'read_write' })
+ * if (result.success) setNewKey(result.data.key)
+ * ```
+ */
+export async function createApiKey(keyData: unknown): Promise<ServerActionResponse<{ apiKey: ApiKey; key: string }>> {
+  try {
+    const clientIP = await getClientIP()
+    const { success: rateLimitOk } = await ratelimit.limit(`create-api-key:${clientIP}`)
+
+    if (!rateLimitOk) {
+      throw new Error('Too many API keys created. Please try again later.')
+    }
+
+    const validationResult = ApiKeySchema.safeParse(keyData)
+    if (!validationResult.success) {
+      const errorMessages = validationResult.error.issues.map(issue => issue.message).join(', ')
+      throw new Error(`Validation failed: ${errorMessages}`)
+    }
+
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to create an API key')
+    }
+
+    await assertMfaVerified(supabase, user)
+
+    const { name, access } = validationResult.data
+    const { key, keyPrefix, keyHash } = generateApiKey()
+
+    const { data: apiKey, error: insertError } = await supabase
+      .from('api_keys')
+      .insert({
+        user_id: user.id,
+        name,
+        key_prefix: keyPrefix,
+        key_hash: keyHash,
+        scopes: access === 'read_write' ? ['read', 'write'] : ['read']
+      })
+      .select('id, name, key_prefix, scopes, last_used_at, revoked_at, created_at')
+      .single()
+
+    if (insertError || !apiKey) {
+      console.error('Error creating API key:', insertError)
+      throw new Error('Failed to create API key. Please try again.')
+    }
+
+    return { success: true, data: { apiKey, key } }
+  } catch (error) {
+    logError(error, 'createApiKey');
+    const pollError = mapPollError(error);
+    return {
+      success: false,
+      error: pollError.message
+    };
+  }
+}
+
+/**
+ * Retrieves the current user's API keys, newest first
+ * 
+ * @returns Promise<ApiKey[]> - The user's keys including revoked ones, or an empty
+ *   array when signed out and on error
+ */
+export async function getApiKeys(): Promise<ApiKey[]> {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select('id, name, key_prefix, scopes, last_used_at, revoked_at, created_at')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching API keys:', error)
+      return []
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error in getApiKeys:', error)
+    return []
+  }
+}
+
+/**
+ * Revokes an API key so requests made with it are refused
+ * 
+ * The key is kept, marked with `revoked_at`, so the owner can still see when it
+ * was last used. Needs the two-factor challenge when it's turned on.
+ * 
+ * @param keyId - UUID of the key to revoke
+ * @returns Promise<ServerActionResponse<{ success: true }>> - Success or error
+ */
+export async function revokeApiKey(keyId: string): Promise<ServerActionResponse<{ success: true }>> {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to revoke an API key')
+    }
+
+    await assertMfaVerified(supabase, user)
+
+    // RLS limits updates to the key's owner, so other users' keys match no rows
+    const { data: revoked, error: revokeError } = await supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', keyId)
+      .is('revoked_at', null)
+      .select('id')
+
+    if (revokeError) {
+      console.error('Error revoking API key:', revokeError)
+      throw new Error('Failed to revoke API key. Please try again.')
+    }
+
+    if (!revoked || revoked.length === 0) {
+      throw new Error('API key not found or already revoked')
+    }
+
+    return { success: true, data: { success: true } }
+  } catch (error) {
+    logError(error, 'revokeApiKey');
+    const pollError = mapPollError(error);
+    return {
+      success: false,
+      error: pollError.message
+    };
+  }
+}
+
+/**
+ * Registers a webhook for the current user's polls (Authentication Required)
+ * 
+ * WHAT: Stores a URL that is sent a signed POST whenever one of the chosen
+ * events happens: on all of the user's polls, or on one poll when `pollId` is set.
+ * 
+ * WHY: Slack bots and internal services want to hear about new polls, votes
+ * and closes without polling the API.
+ * 
+ * HOW:
+ * 1. Apply rate limiting and validate the URL and events with WebhookSchema
+ * 2. Verify authentication; RLS checks ownership of the poll, if given
+ * 3. Check the URL resolves to public addresses only
+ * 4. Store the webhook with a fresh signing secret
+ * 
+ * @param webhookData - `{ url, events, pollId? }`
+ * 
+ * @throws Error if rate limit exceeded
+ * @throws Error if user is not authenticated, validation fails or the poll isn't theirs
+ * @throws Error if the URL resolves to a private, loopback or link-local address
+ * 
+ * @returns Promise<ServerActionResponse<{ webhook: Webhook }>> - The webhook, including its secret, or error
+ * 
+ * @example
+ * ```tsx
+ * const result = await createWebhook({ url: 'https://hooks.example.com/polly', events: ['vote.cast'], pollId: poll.id })
+ * ```
+ */
+export async function createWebhook(webhookData: unknown): Promise<ServerActionResponse<{ webhook: Webhook }>> {
+  try {
+    const clientIP = await getClientIP()
+    const { success: rateLimitOk } = await ratelimit.limit(`create-webhook:${clientIP}`)
+
+    if (!rateLimitOk) {
+      throw new Error('Too many webhooks created. Please try again later.')
+    }
+
+    const validationResult = WebhookSchema.safeParse(webhookData)
+    if (!validationResult.success) {
+      const errorMessages = validationResult.error.issues.map(issue => issue.message).join(', ')
+      throw new Error(`Validation failed: ${errorMessages}`)
+    }
+
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to add a webhook')
+    }
+
+    const { url, events, pollId } = validationResult.data
+    await assertPublicWebhookUrl(url)
+
+    const { data: webhook, error: insertError } = await supabase
+      .from('webhooks')
+      .insert({
+        user_id: user.id,
+        poll_id: pollId ?? null,
+        url,
+        secret: generateWebhookSecret(),
+        events
+      })
+      .select('id, poll_id, url, secret, events, created_at')
+      .single()
+
+    if (insertError || !webhook) {
+      console.error('Error creating webhook:', insertError)
+      // RLS refuses poll-level webhooks on other users' polls
+      throw new Error(insertError?.code === '42501'
+        ? 'You do not have permission to add webhooks to this poll'
+        : 'Failed to add webhook. Please try again.')
+    }
+
+    return { success: true, data: { webhook } }
+  } catch (error) {
+    logError(error, 'createWebhook');
+    const pollError = mapPollError(error);
+    return {
+      success: false,
+      error: pollError.message
+    };
+  }
+}
+
+/**
+ * Retrieves the current user's webhooks, newest first
+ * 
+ * @param pollId - UUID of a poll for its poll-level webhooks; omit for account-level ones
+ * @returns Promise<Webhook[]> - The webhooks, or an empty array when signed out and on error
+ */
+export async function getWebhooks(pollId?: string | null): Promise<Webhook[]> {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    let query = supabase
+      .from('webhooks')
+      .select('id, poll_id, url, secret, events, created_at')
+      .order('created_at', { ascending: false })
+
+    query = pollId ? query.eq('poll_id', pollId) : query.is('poll_id', null)
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Error fetching webhooks:', error)
+      return []
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error in getWebhooks:', error)
+    return []
+  }
+}
+
+/**
+ * Retrieves the most recent deliveries of one of the current user's webhooks
+ * 
+ * @param webhookId - UUID of the webhook
+ * @returns Promise<WebhookDelivery[]> - Up to 20 deliveries, newest first, or an
+ *   empty array for other users' webhooks (RLS) and on error
+ */
+export async function getWebhookDeliveries(webhookId: string): Promise<WebhookDelivery[]> {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('id, event, status, attempts, next_attempt_at, response_status, last_error, delivered_at, created_at')
+      .eq('webhook_id', webhookId)
+      .order('created_at', { ascending: false })
+      .limit(20)
+
+    if (error) {
+      console.error('Error fetching webhook deliveries:', error)
+      return []
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error in getWebhookDeliveries:', error)
+    return []
+  }
+}
+
+/**
+ * Sends a `webhook.test` event to one of the current user's webhooks
+ * 
+ * The delivery is queued and sent like any other event, so it shows up in
+ * the webhook's delivery log and is retried if the receiver is down.
+ * 
+ * @param webhookId - UUID of the webhook
+ * @returns Promise<ServerActionResponse<{ success: true }>> - Success once queued, or error
+ */
+export async function sendTestWebhook(webhookId: string): Promise<ServerActionResponse<{ success: true }>> {
+  try {
+    const clientIP = await getClientIP()
+    const { success: rateLimitOk } = await ratelimit.limit(`test-webhook:${clientIP}`)
+
+    if (!rateLimitOk) {
+      throw new Error('Too many test deliveries. Please try again later.')
+    }
+
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to test a webhook')
+    }
+
+    // RLS only returns the user's own webhooks
+    const { data: webhook, error: webhookError } = await supabase
+      .from('webhooks')
+      .select('id')
+      .eq('id', webhookId)
+      .single()
+
+    if (webhookError || !webhook) {
+      throw new Error('Webhook not found')
+    }
+
+    await queueTestDelivery(webhook.id)
+
+    return { success: true, data: { success: true } }
+  } catch (error) {
+    logError(error, 'sendTestWebhook');
+    const pollError = mapPollError(error);
+    return {
+      success: false,
+      error: pollError.message
+    };
+  }
+}
+
+/**
+ * Deletes one of the current user's webhooks along with its delivery log
+ * 
+ * @param webhookId - UUID of the webhook
+ * @returns Promise<ServerActionResponse<{ success: true }>> - Success or error
+ */
+export async function deleteWebhook(webhookId: string): Promise<ServerActionResponse<{ success: true }>> {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to delete a webhook')
+    }
+
+    // RLS limits deletes to the owner, so other users' webhooks match no rows
+    const { data: deleted, error: deleteError } = await supabase
+      .from('webhooks')
+      .delete()
+      .eq('id', webhookId)
+      .select('id')
+
+    if (deleteError) {
+      console.error('Error deleting webhook:', deleteError)
+      throw new Error('Failed to delete webhook. Please try again.')
+    }
+
+    if (!deleted || deleted.length === 0) {
+      throw new Error('Webhook not found')
+    }
+
+    return { success: true, data: { success: true } }
+  } catch (error) {
+    logError(error, 'deleteWebhook');
+    const pollError = mapPollError(error);
+    return {
+      success: false,
+      error: pollError.message
+    };
+  }
+}
+
+/**
+ * Issues a new set of two-factor recovery codes (Two-Factor Session Required)
+ * 
+ * WHAT: Replaces the current user's recovery codes with ten new ones.
+ * 
+ * WHY: A recovery code is the way back in when the authenticator app is lost.
+ * Codes are issued right after two-factor authentication is turned on, and
+ * can be reissued when they run low or someone else may have seen them.
+ * 
+ * HOW:
+ * 1. Verify authentication, a verified authenticator and an AAL2 session
+ * 2. Delete the old codes and store the SHA-256 hashes of the new ones
+ * 3. Return the codes once; they can't be shown again
+ * 
+ * @throws Error if user is not authenticated or two-factor authentication is off
+ * @throws Error if the session hasn't passed the two-factor challenge
+ * 
+ * @returns Promise<ServerActionResponse<{ codes: string[] }>> - The new codes, or error
+ * 
+ * @example
+ * ```tsx
+ * const result = await createRecoveryCodes()
+ * if (result.success) setRecoveryCodes(result.data.codes)
+ * ```
+ */
+export async function createRecoveryCodes(): Promise<ServerActionResponse<{ codes: string[] }>> {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to create recovery codes')
+    }
+
+    if (!hasVerifiedFactor(user)) {
+      throw new Error('Turn on two-factor authentication before creating recovery codes')
+    }
+
+    await assertMfaVerified(supabase, user)
+
+    // RLS only lets a two-factor session replace the codes
+    const { error: deleteError } = await supabase
+      .from('mfa_recovery_codes')
+      .delete()
+      .eq('user_id', user.id)
+
+    if (deleteError) {
+      console.error('Error deleting recovery codes:', deleteError)
+      throw new Error('Failed to create recovery codes. Please try again.')
+    }
+
+    const codes = generateRecoveryCodes()
+    const { error: insertError } = await supabase
+      .from('mfa_recovery_codes')
+      .insert(codes.map(code => ({ user_id: user.id, code_hash: hashRecoveryCode(user.id, code) })))
+
+    if (insertError) {
+      console.error('Error storing recovery codes:', insertError)
+      throw new Error('Failed to create recovery codes. Please try again.')
+    }
+
+    return { success: true, data: { codes } }
+  } catch (error) {
+    logError(error, 'createRecoveryCodes');
+    const pollError = mapPollError(error);
+    return {
+      success: false,
+      error: pollError.message
+    };
+  }
+}
+
+/**
+ * Counts the current user's unused recovery codes
+ * 
+ * @returns Promise<number> - Codes left, or 0 when signed out and on error
+ */
+export async function getRecoveryCodeCount(): Promise<number> {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const { count, error } = await supabase
+      .from('mfa_recovery_codes')
+      .select('id', { count: 'exact', head: true })
+      .is('used_at', null)
+
+    if (error) {
+      console.error('Error counting recovery codes:', error)
+      return 0
+    }
+
+    return count ?? 0
+  } catch (error) {
+    console.error('Error in getRecoveryCodeCount:', error)
+    return 0
+  }
+}
+
+/**
+ * Gets past the two-factor challenge with a recovery code (Authentication Required)
+ * 
+ * WHAT: Uses up one of the user's recovery codes and turns two-factor
+ * authentication off, so the current session is let through.
+ * 
+ * WHY: Supabase only raises a session to AAL2 with a factor, so a lost
+ * authenticator is removed instead; the challenge page then asks the user to
+ * set up a new one.
+ * 
+ * HOW:
+ * 1. Apply rate limiting per user and validate the code's format
+ * 2. Mark the matching unused code as used, with the service role since the
+ *    session is only AAL1
+ * 3. Delete the user's authenticator factors and their remaining codes
+ * 
+ * @param code - A recovery code, with or without its dashes
+ * 
+ * @throws Error if rate limit exceeded or user is not authenticated
+ * @throws Error if the code is invalid or already used
+ * 
+ * @returns Promise<ServerActionResponse<{ success: true }>> - Success or error
+ * 
+ * @example
+ * ```tsx
+ * const result = await redeemRecoveryCode('abcd-efgh-jkmn')
+ * if (result.success) await supabase.auth.refreshSession()
+ * ```
+ */
+export async function redeemRecoveryCode(code: string): Promise<ServerActionResponse<{ success: true }>> {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to use a recovery code')
+    }
+
+    const { success: rateLimitOk } = await ratelimit.limit(`recovery-code:${user.id}`)
+    if (!rateLimitOk) {
+      throw new Error('Too many recovery code attempts. Please try again later.')
+    }
+
+    const codeResult = RecoveryCodeSchema.safeParse(code)
+    if (!codeResult.success) {
+      throw new Error('Invalid recovery code')
+    }
+
+    const admin = await createServerSupabaseAdminClient()
+
+    const { data: redeemed, error: redeemError } = await admin
+      .from('mfa_recovery_codes')
+      .update({ used_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .eq('code_hash', hashRecoveryCode(user.id, codeResult.data))
+      .is('used_at', null)
+      .select('id')
+
+    if (redeemError) {
+      console.error('Error redeeming recovery code:', redeemError)
+      throw new Error('Failed to check the recovery code. Please try again.')
+    }
+
+    if (!redeemed || redeemed.length === 0) {
+      throw new Error('That recovery code is invalid or has already been used')
+    }
+
+    const { data: factorList, error: listError } = await admin.auth.admin.mfa.listFactors({ userId: user.id })
+    if (listError) {
+      console.error('Error listing MFA factors:', listError)
+      throw new Error('Failed to turn off two-factor authentication. Please try again.')
+    }
+
+    for (const factor of factorList.factors) {
+      const { error: factorError } = await admin.auth.admin.mfa.deleteFactor({ id: factor.id, userId: user.id })
+      if (factorError) {
+        console.error('Error deleting MFA factor:', factorError)
+        throw new Error('Failed to turn off two-factor authentication. Please try again.')
+      }
+    }
+
+    // The remaining codes belonged to the removed authenticator
+    const { error: cleanupError } = await admin
+      .from('mfa_recovery_codes')
+      .delete()
+      .eq('user_id', user.id)
+
+    if (cleanupError) {
+      console.warn('Failed to delete old recovery codes:', cleanupError)
+    }
+
+    return { success: true, data: { success: true } }
+  } catch (error) {
+    logError(error, 'redeemRecoveryCode');
+    const pollError = mapPollError(error);
+    return {
+      success: false,
+      error: pollError.message
+    };
+  }
+}
+
+/**
+ * Turns two-factor authentication off (Two-Factor Session Required)
+ * 
+ * Removes the user's authenticator apps and their recovery codes. Supabase
+ * only lets an AAL2 session remove a verified factor.
+ * 
+ * @returns Promise<ServerActionResponse<{ success: true }>> - Success or error
+ */
+export async function disableTwoFactor(): Promise<ServerActionResponse<{ success: true }>> {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to turn off two-factor authentication')
+    }
+
+    await assertMfaVerified(supabase, user)
+
+    for (const factor of user.factors ?? []) {
+      const { error: unenrollError } = await supabase.auth.mfa.unenroll({ factorId: factor.id })
+      if (unenrollError) {
+        console.error('Error removing MFA factor:', unenrollError)
+        throw new Error('Failed to turn off two-factor authentication. Please try again.')
+      }
+    }
+
+    // With no factor left, RLS lets the session clear the codes
+    const { error: deleteError } = await supabase
+      .from('mfa_recovery_codes')
+      .delete()
+      .eq('user_id', user.id)
+
+    if (deleteError) {
+      console.warn('Failed to delete recovery codes:', deleteError)
+    }
+
+    return { success: true, data: { success: true } }
+  } catch (error) {
+    logError(error, 'disableTwoFactor');
+    const pollError = mapPollError(error);
+    return {
+      success: false,
+      error: pollError.message
+    };
+  }
+}
+
+/**
+ * Points the current user's profile at the avatar they just uploaded
+ * 
+ * WHAT: Saves the public URL of `avatars/<user id>/avatar` to
+ * profiles.avatar_url, with a version parameter so browsers fetch the new picture.
+ * 
+ * WHY: Users can't write avatar_url themselves, or they could show any image
+ * on the internet on their public profile and polls. The URL is built here
+ * from the user's own storage folder instead.
+ * 
+ * HOW:
+ * 1. Verify authentication
+ * 2. Check the avatar file is in the user's folder
+ * 3. Save its public URL with the service role, which the profile trigger allows
+ * 
+ * @throws Error if user is not authenticated or hasn't uploaded an avatar
+ * 
+ * @returns Promise<ServerActionResponse<{ avatarUrl: string }>> - The saved URL, or error
+ * 
+ * @example
+ * ```tsx
+ * await supabase.storage.from('avatars').upload(`${userId}/avatar`, blob, { upsert: true })
+ * const result = await saveAvatar()
+ * if (result.success) setAvatarUrl(result.data.avatarUrl)
+ * ```
+ */
+export async function saveAvatar(): Promise<ServerActionResponse<{ avatarUrl: string }>> {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to change your avatar')
+    }
+
+    const { data: files, error: listError } = await supabase.storage
+      .from('avatars')
+      .list(user.id, { search: 'avatar' })
+
+    if (listError) {
+      console.error('Error checking avatar upload:', listError)
+      throw new Error('Failed to save your avatar. Please try again.')
+    }
+
+    if (!files?.some(file => file.name === 'avatar')) {
+      throw new Error('Avatar not found. Please upload it again.')
+    }
+
+    const { data: { publicUrl } } = supabase.storage.from('avatars').getPublicUrl(`${user.id}/avatar`)
+    const avatarUrl = `${publicUrl}?v=${Date.now()}`
+
+    const admin = await createServerSupabaseAdminClient()
+    const { error: updateError } = await admin
+      .from('profiles')
+      .update({ avatar_url: avatarUrl })
+      .eq('id', user.id)
+
+    if (updateError) {
+      console.error('Error saving avatar URL:', updateError)
+      throw new Error('Failed to save your avatar. Please try again.')
+    }
+
+    return { success: true, data: { avatarUrl } }
+  } catch (error) {
+    logError(error, 'saveAvatar');
+    const pollError = mapPollError(error);
+    return {
+      success: false,
+      error: pollError.message
+    };
+  }
+}
+
+/**
+ * Removes the current user's avatar file and clears it from their profile
+ * 
+ * @returns Promise<ServerActionResponse<{ success: true }>> - Success or error
+ */
+export async function removeAvatar(): Promise<ServerActionResponse<{ success: true }>> {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to remove your avatar')
+    }
+
+    const { error: removeError } = await supabase.storage.from('avatars').remove([`${user.id}/avatar`])
+
+    if (removeError) {
+      console.error('Error removing avatar file:', removeError)
+      throw new Error('Failed to remove your avatar. Please try again.')
+    }
+
+    const admin = await createServerSupabaseAdminClient()
+    const { error: updateError } = await admin
+      .from('profiles')
+      .update({ avatar_url: null })
+      .eq('id', user.id)
+
+    if (updateError) {
+      console.error('Error clearing avatar URL:', updateError)
+      throw new Error('Failed to remove your avatar. Please try again.')
+    }
+
+    return { success: true, data: { success: true } }
+  } catch (error) {
+    logError(error, 'removeAvatar');
+    const pollError = mapPollError(error);
+    return {
+      success: false,
+      error: pollError.message
+    };
+  }
+}
+
+/**
+ * Schedules the current user's account for deletion (Recent Sign-In Required)
+ * 
+ * WHAT: Marks the account to be deleted once the grace period is over. The
+ * deletion sweep then removes the user's polls, anonymises their votes on
+ * other polls and deletes the account.
+ * 
+ * WHY: Users must be able to leave. The recent sign-in check keeps someone at
+ * an unlocked computer from deleting the account, and the grace period lets
+ * the user change their mind.
+ * 
+ * HOW:
+ * 1. Verify authentication and the two-factor challenge when it's turned on
+ * 2. Require a sign-in within the last few minutes, read from the verified session
+ * 3. Schedule the deletion ACCOUNT_DELETION_GRACE_DAYS from now with
+ *    schedule_account_deletion(), which only the service role may call, since
+ *    users can't write the schedule themselves
+ * 
+ * @throws Error if user is not authenticated or hasn't signed in recently
+ * 
+ * @returns Promise<ServerActionResponse<{ scheduledFor: string }>> - When the account
+ *   will be deleted, or error
+ * 
+ * @example
+ * ```tsx
+ * const result = await requestAccountDeletion()
+ * if (result.success) setScheduledFor(result.data.scheduledFor)
+ * ```
+ */
+export async function requestAccountDeletion(): Promise<ServerActionResponse<{ scheduledFor: string }>> {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to delete your account')
+    }
+
+    await assertMfaVerified(supabase, user)
+
+    if (!await hasRecentSignIn(supabase)) {
+      throw new Error('Please confirm it\'s you again before deleting your account')
+    }
+
+    const admin = await createServerSupabaseAdminClient()
+    const { data: scheduledFor, error: scheduleError } = await admin.rpc('schedule_account_deletion', {
+      user_uuid: user.id,
+      grace: `${ACCOUNT_DELETION_GRACE_DAYS} days`
+    })
+
+    if (scheduleError || !scheduledFor) {
+      console.error('Error scheduling account deletion:', scheduleError)
+      throw new Error('Failed to schedule account deletion. Please try again.')
+    }
+
+    return { success: true, data: { scheduledFor: scheduledFor as string } }
+  } catch (error) {
+    logError(error, 'requestAccountDeletion');
+    const pollError = mapPollError(error);
+    return {
+      success: false,
+      error: pollError.message
+    };
+  }
+}
+
+/**
+ * Cancels a scheduled account deletion during its grace period
+ * 
+ * @returns Promise<ServerActionResponse<{ success: true }>> - Success or error
+ */
+export async function cancelAccountDeletion(): Promise<ServerActionResponse<{ success: true }>> {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      throw new Error('You must be logged in to cancel account deletion')
+    }
+
+    const { error: cancelError } = await supabase.rpc('cancel_account_deletion')
+
+    if (cancelError) {
+      console.error('Error cancelling account deletion:', cancelError)
+      throw new Error('Failed to cancel account deletion. Please try again.')
+    }
+
+    return { success: true, data: { success: true } }
+  } catch (error) {
+    logError(error, 'cancelAccountDeletion');
+    const pollError = mapPollError(error);
+    return {
+      success: false,
+      error: pollError.message
+    };
+  }
+}
+
+/**
+ * Retrieves when the current user's account is due to be deleted
+ * 
+ * @returns Promise<string | null> - The scheduled time, or null when no deletion is
+ *   scheduled, when signed out and on error
+ */
+export async function getAccountDeletionDate(): Promise<string | null> {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) return null
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('deletion_scheduled_for')
+      .eq('id', user.id)
+      .single()
+
+    if (error) {
+      console.error('Error fetching account deletion date:', error)
+      return null
+    }
+
+    return data?.deletion_scheduled_for ?? null
+  } catch (error) {
+    console.error('Error in getAccountDeletionDate:', error)
+    return null
+  }
+}
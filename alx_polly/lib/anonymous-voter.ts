@@ -0,0 +1,154 @@
+/**
+ * Anonymous Voter Identity
+ *
+ * Gives visitors who vote without an account a stable, signed identity so their
+ * votes can be deduplicated. Each browser gets a random voter ID in an httpOnly
+ * cookie, signed so it can't be swapped for someone else's; votes store a keyed
+ * hash of that ID and of the client IP rather than the raw values.
+ *
+ * Security Features:
+ * - Forged or tampered cookies are discarded and replaced with a fresh identity
+ * - Stored hashes can't be turned back into a cookie or an IP address without
+ *   the server secret
+ * - People sharing one IP (offices, NAT) no longer count as a single voter
+ *
+ * Votes cast on the poll page get an ordinary first-party cookie. Votes cast
+ * in an embed framed on another site get a partitioned one (CHIPS), which the
+ * browser keeps separately for each embedding site, so an anonymous visitor is
+ * a different voter on the poll page and in each site's embed. Polls that need
+ * one vote per person should turn off anonymous votes.
+ *
+ * @fileoverview Signed anonymous voter cookie and hashed voter identifiers
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import { cookies, headers } from 'next/headers'
+
+export const ANONYMOUS_VOTER_COOKIE = 'polly_voter'
+
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 365 // 1 year
+
+/** Pages whose votes come from inside a frame on another site */
+const EMBED_PATH_PREFIX = '/embed/'
+
+/** Identifiers stored with an anonymous vote */
+export interface AnonymousVoter {
+  /** Keyed hash of the cookie's voter ID, stored in votes.voter_token */
+  token: string
+  /** Keyed hash of the client IP, stored in votes.voter_ip_hash */
+  ipHash: string
+}
+
+/**
+ * Returns the HMAC key for anonymous voter identifiers
+ *
+ * Deliberately a dedicated secret: the service role key must not feed into
+ * hashes stored alongside votes.
+ *
+ * @throws Error if no secret is configured
+ */
+function getVoterSecret(): string {
+  const secret = process.env.ANONYMOUS_VOTER_SECRET
+  if (!secret) {
+    throw new Error('Missing required environment variable: ANONYMOUS_VOTER_SECRET')
+  }
+  return secret
+}
+
+/** Keyed hash with a purpose prefix, so one value can't stand in for another */
+function keyedHash(purpose: string, value: string): string {
+  return createHmac('sha256', getVoterSecret()).update(`${purpose}:${value}`).digest('hex')
+}
+
+/**
+ * Reads the voter ID from a signed cookie value (`<id>.<signature>`)
+ * @returns The voter ID, or null if the value is missing or the signature doesn't match
+ */
+function verifyVoterCookie(value: string | undefined): string | null {
+  if (!value) return null
+
+  const [voterId, signature] = value.split('.')
+  if (!voterId || !signature) return null
+
+  const expected = Buffer.from(keyedHash('cookie', voterId), 'hex')
+  const received = Buffer.from(signature, 'hex')
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return null
+  }
+
+  return voterId
+}
+
+/**
+ * Tells whether the current request was made from an embed page
+ *
+ * Server Actions post back to the page they were called from, and the embed
+ * pages send their full URL as the Referer to their own origin.
+ */
+async function isEmbedRequest(): Promise<boolean> {
+  const referer = (await headers()).get('referer')
+  if (!referer) return false
+
+  try {
+    return new URL(referer).pathname.startsWith(EMBED_PATH_PREFIX)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Hashes a client IP address for storage with a vote
+ * @param ip - Client IP from the request headers
+ * @returns Hex HMAC of the address
+ */
+export function hashVoterIp(ip: string): string {
+  return keyedHash('ip', ip)
+}
+
+/**
+ * Returns the anonymous voter token of the current visitor without issuing one
+ *
+ * Safe to call from Server Components, which can't set cookies.
+ *
+ * @returns The stored voter token, or null if the visitor has never voted anonymously
+ */
+export async function readAnonymousVoterToken(): Promise<string | null> {
+  const cookieStore = await cookies()
+  const voterId = verifyVoterCookie(cookieStore.get(ANONYMOUS_VOTER_COOKIE)?.value)
+  return voterId ? keyedHash('voter', voterId) : null
+}
+
+/**
+ * Returns the identifiers for an anonymous vote, issuing a voter cookie if needed
+ *
+ * Must be called from a Server Action or Route Handler, where cookies can be set.
+ *
+ * @param ip - Client IP from the request headers
+ * @returns The voter token and hashed IP to store with the vote
+ */
+export async function getAnonymousVoter(ip: string): Promise<AnonymousVoter> {
+  const cookieStore = await cookies()
+  let voterId = verifyVoterCookie(cookieStore.get(ANONYMOUS_VOTER_COOKIE)?.value)
+
+  if (!voterId) {
+    voterId = randomUUID()
+    // Only an embed needs a cookie that works inside another site's frame:
+    // cross-site, and so partitioned per embedding site. Browsers refuse those
+    // over plain http, so local development always gets a first-party cookie.
+    const isProduction = process.env.NODE_ENV === 'production'
+    const isEmbedded = isProduction && await isEmbedRequest()
+    cookieStore.set(ANONYMOUS_VOTER_COOKIE, `${voterId}.${keyedHash('cookie', voterId)}`, {
+      httpOnly: true,
+      secure: isProduction,
+      sameSite: isEmbedded ? 'none' : 'lax',
+      partitioned: isEmbedded,
+      path: '/',
+      maxAge: COOKIE_MAX_AGE
+    })
+  }
+
+  return {
+    token: keyedHash('voter', voterId),
+    ipHash: hashVoterIp(ip)
+  }
+}
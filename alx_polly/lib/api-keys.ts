@@ -0,0 +1,141 @@
+/**
+ * API Keys
+ *
+ * Per-user keys for the /api/v1 REST API. A key is `polly_` followed by 40
+ * random characters; only its SHA-256 hash is stored, so a leaked database
+ * doesn't leak working keys. Keys are random enough that an unsalted hash is
+ * safe.
+ *
+ * A request made with a key runs as the key's owner: the key is exchanged for
+ * a short-lived Supabase access token signed with the project's JWT secret, so
+ * the same RLS policies apply as for a signed-in user. The token counts as a
+ * two-factor session: when two-factor authentication is on, every live key
+ * was created from one, since turning it on revokes the keys made before.
+ *
+ * Server-only: uses Node's crypto module and the JWT secret.
+ *
+ * @fileoverview API key generation, hashing and authentication
+ */
+
+import { createHash, createHmac } from 'crypto'
+import { createServerSupabaseClient } from './supabase-server'
+import { ApiKeyTokenSchema, generateSecureToken } from './validation-utils'
+import type { ApiKeyScope } from './types'
+
+const API_KEY_PREFIX = 'polly_'
+
+/** Characters of the key kept in api_keys.key_prefix for display */
+const DISPLAY_PREFIX_LENGTH = 12
+
+/** Lifetime of the access token issued for one API request */
+const ACCESS_TOKEN_TTL = 5 * 60 // 5 minutes
+
+/** A newly generated key; `key` must be shown to the owner and then discarded */
+export interface GeneratedApiKey {
+  key: string
+  keyPrefix: string
+  keyHash: string
+}
+
+/** The owner of the API key a request was made with */
+export interface ApiCaller {
+  keyId: string
+  userId: string
+  scopes: ApiKeyScope[]
+  /** Supabase access token acting as the owner, for createServerSupabaseClient */
+  accessToken: string
+}
+
+/**
+ * Hashes an API key for storage and lookup
+ * @param key - The full API key
+ * @returns Hex SHA-256 of the key
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+/**
+ * Generates a new API key with its display prefix and hash
+ */
+export function generateApiKey(): GeneratedApiKey {
+  const key = `${API_KEY_PREFIX}${generateSecureToken(40)}`
+  return {
+    key,
+    keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key)
+  }
+}
+
+/**
+ * Signs a Supabase access token for a user
+ *
+ * Carries the same claims PostgREST and the auth server expect from a
+ * session token (`sub`, `role`, `aud`), so auth.uid() resolves to the user,
+ * and `aal: 'aal2'` so is_mfa_satisfied() accepts it.
+ *
+ * @param userId - UUID of the user to act as
+ * @returns HS256 JWT valid for ACCESS_TOKEN_TTL seconds
+ * @throws Error if SUPABASE_JWT_SECRET is not configured
+ */
+function signAccessToken(userId: string): string {
+  const secret = process.env.SUPABASE_JWT_SECRET
+  if (!secret) {
+    throw new Error('Missing required environment variable: SUPABASE_JWT_SECRET')
+  }
+
+  const issuedAt = Math.floor(Date.now() / 1000)
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url')
+  const payload = Buffer.from(JSON.stringify({
+    sub: userId,
+    role: 'authenticated',
+    aud: 'authenticated',
+    aal: 'aal2',
+    iat: issuedAt,
+    exp: issuedAt + ACCESS_TOKEN_TTL
+  })).toString('base64url')
+  const signature = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url')
+
+  return `${header}.${payload}.${signature}`
+}
+
+/**
+ * Reads the API key from an `Authorization: Bearer <key>` header
+ * @returns The key, or null if the header is missing or isn't a well-formed key
+ */
+export function parseApiKey(authorization: string | null): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i)
+  if (!match) return null
+
+  const result = ApiKeyTokenSchema.safeParse(match[1])
+  return result.success ? result.data : null
+}
+
+/**
+ * Looks up the owner and scopes of an API key
+ *
+ * @param key - Well-formed key from parseApiKey
+ * @returns The caller, or null if the key is unknown or revoked
+ * @throws Error if the lookup fails or the JWT secret is missing
+ */
+export async function authenticateApiKey(key: string): Promise<ApiCaller | null> {
+  const supabase = await createServerSupabaseClient()
+  const { data, error } = await supabase.rpc('authenticate_api_key', {
+    api_key_hash: hashApiKey(key)
+  })
+
+  if (error) {
+    console.error('Error authenticating API key:', error)
+    throw new Error('Error checking API key')
+  }
+
+  const row = (data as Array<{ key_id: string; key_user_id: string; key_scopes: ApiKeyScope[] }> | null)?.[0]
+  if (!row) return null
+
+  return {
+    keyId: row.key_id,
+    userId: row.key_user_id,
+    scopes: row.key_scopes,
+    accessToken: signAccessToken(row.key_user_id)
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * /api/v1 Route Helpers
+ *
+ * Every /api/v1 route authenticates with an API key in the Authorization
+ * header instead of the cookie session, checks the key's scope and applies
+ * the per-key 'api' rate limit. Successful responses are `{ data }`; errors
+ * are an ApiError `{ message, code, details? }` with a matching status.
+ *
+ * @fileoverview API key authentication and responses for the versioned API
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateApiKey, parseApiKey, type ApiCaller } from './api-keys'
+import { ratelimit, type RateLimitResult } from './rate-limit'
+import { rateLimitedResponse, withRateLimitHeaders } from './route-rate-limit'
+import { POLL_ERROR_STATUS, VOTE_ERROR_STATUS, type ServiceAuth } from './services/polls'
+import type { ApiError, ApiKeyScope, PollError, VoteError } from './types'
+
+/** The authenticated key owner, as passed to a v1 route handler */
+export interface ApiRequestContext {
+  caller: ApiCaller
+  /** Pass to the poll service to act as the key's owner */
+  auth: ServiceAuth
+}
+
+type ApiRouteHandler<Context> = (request: NextRequest, context: Context, api: ApiRequestContext) => Promise<Response>
+
+/**
+ * Builds a success response
+ * @param data - Response payload, sent as `{ data }`
+ * @param status - HTTP status, 200 by default
+ */
+export function apiData<T>(data: T, status = 200): NextResponse<{ data: T }> {
+  return NextResponse.json({ data }, { status })
+}
+
+/**
+ * Builds an error response with an ApiError body
+ * @param status - HTTP status
+ * @param message - Message for the caller
+ * @param code - Machine-readable code, e.g. a PollError or VoteError code
+ */
+export function apiError(status: number, message: string, code?: string, details?: Record<string, unknown>): NextResponse<ApiError> {
+  const error: ApiError = { message, code, ...(details ? { details } : {}) }
+  return NextResponse.json(error, { status })
+}
+
+/**
+ * Builds the error response for a failed poll service call
+ * @param error - The service's PollError
+ * @param rateLimit - Rate limit state from the service, if it was checked
+ */
+export function pollErrorResponse(error: PollError, rateLimit?: RateLimitResult): NextResponse {
+  if (error.code === 'RATE_LIMITED' && rateLimit) {
+    return rateLimitedResponse(rateLimit)
+  }
+  const code = error.code ?? 'CREATION_FAILED'
+  return apiError(POLL_ERROR_STATUS[code], error.message, code)
+}
+
+/**
+ * Builds the error response for a failed vote service call
+ * @param error - The service's VoteError
+ * @param rateLimit - Rate limit state from the service, if it was checked
+ */
+export function voteErrorResponse(error: VoteError, rateLimit?: RateLimitResult): NextResponse {
+  if (error.code === 'RATE_LIMITED' && rateLimit) {
+    return rateLimitedResponse(rateLimit)
+  }
+  const code = error.code ?? 'SUBMISSION_FAILED'
+  return apiError(VOTE_ERROR_STATUS[code], error.message, code)
+}
+
+/**
+ * Protects a route handler with an API key of the given scope
+ *
+ * @param scope - Scope the key needs, 'read' or 'write'
+ * @param handler - The route handler, called with the authenticated caller
+ * @returns A handler that answers 401 without a valid key, 403 without the
+ *   scope and 429 over the rate limit
+ *
+ * @example
+ * ```ts
+ * export const GET = withApiKey('read', async (request, context, { auth }) => { ... })
+ * ```
+ */
+export function withApiKey<Context>(scope: ApiKeyScope, handler: ApiRouteHandler<Context>) {
+  return async (request: NextRequest, context: Context): Promise<Response> => {
+    const key = parseApiKey(request.headers.get('authorization'))
+    if (!key) {
+      return apiError(401, 'Send an API key as "Authorization: Bearer <key>"', 'UNAUTHENTICATED')
+    }
+
+    let caller: ApiCaller | null
+    try {
+      caller = await authenticateApiKey(key)
+    } catch (error) {
+      console.error('Error authenticating API request:', error)
+      return apiError(500, 'An unexpected error occurred')
+    }
+
+    if (!caller) {
+      return apiError(401, 'Invalid or revoked API key', 'UNAUTHENTICATED')
+    }
+
+    if (!caller.scopes.includes(scope)) {
+      return apiError(403, `This API key does not have the '${scope}' scope`, 'INSUFFICIENT_SCOPE')
+    }
+
+    const rateLimit = await ratelimit.limit(`api:key:${caller.keyId}`)
+    if (!rateLimit.success) {
+      return rateLimitedResponse(rateLimit)
+    }
+
+    const response = await handler(request, context, { caller, auth: { accessToken: caller.accessToken } })
+    return withRateLimitHeaders(response, rateLimit)
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Scheduled Route Authentication
+ *
+ * The sweeper routes under /api/cron are called by a scheduler (Vercel Cron
+ * or any other) with `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * @fileoverview Shared authorization check for cron routes
+ */
+
+import type { NextRequest } from 'next/server'
+import { validateCSRFToken } from './validation-utils'
+
+/**
+ * Checks the `Authorization: Bearer <CRON_SECRET>` header sent by the scheduler
+ * Fails closed when CRON_SECRET is not configured.
+ */
+export function isAuthorizedCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  const authorization = request.headers.get('authorization') || ''
+  const token = authorization.startsWith('Bearer ') ? authorization.slice(7) : ''
+
+  return Boolean(secret) && validateCSRFToken(token, secret as string)
+}
@@ -108,13 +108,21 @@ export function mapAuthError(error: unknown): AuthError {
 export function mapPollError(error: unknown): PollError {
   const message = sanitizeError(error);
   
+  const normalized = message.toLowerCase();
+  
   let code: PollError['code'] = 'CREATION_FAILED';
   
-  if (message.includes('not found')) {
+  if (normalized.includes('too many')) {
+    code = 'RATE_LIMITED';
+  } else if (normalized.includes('not found')) {
     code = 'POLL_NOT_FOUND';
-  } else if (message.includes('unauthorized') || message.includes('permission')) {
+  } else if (normalized.includes('logged in')) {
+    code = 'UNAUTHENTICATED';
+  } else if (normalized.includes('unauthorized') || normalized.includes('permission') || normalized.includes('your own') || normalized.includes('two-factor verification')) {
     code = 'UNAUTHORIZED';
-  } else if (message.includes('validation') || message.includes('required')) {
+  } else if (normalized.includes('already have votes')) {
+    code = 'OPTIONS_HAVE_VOTES';
+  } else if (normalized.includes('validation') || normalized.includes('required') || normalized.includes('invalid')) {
     code = 'VALIDATION_ERROR';
   }
   
@@ -129,12 +137,28 @@ export function mapVoteError(error: unknown): VoteError {
   
   let code: VoteError['code'] = 'SUBMISSION_FAILED';
   
-  if (message.includes('already voted')) {
+  if (message.includes('Too many')) {
+    code = 'RATE_LIMITED';
+  } else if (message.includes('Validation failed')) {
+    code = 'VALIDATION_ERROR';
+  } else if (message.includes('logged in')) {
+    code = 'UNAUTHENTICATED';
+  } else if (message.includes('not found')) {
+    code = 'POLL_NOT_FOUND';
+  } else if (message.includes('eligible')) {
+    code = 'NOT_ELIGIBLE';
+  } else if (message.includes('already voted')) {
     code = 'ALREADY_VOTED';
+  } else if (message.includes('locked')) {
+    code = 'VOTES_LOCKED';
+  } else if (message.includes('not started')) {
+    code = 'POLL_NOT_STARTED';
   } else if (message.includes('ended') || message.includes('inactive')) {
     code = 'POLL_ENDED';
   } else if (message.includes('invalid option')) {
     code = 'INVALID_OPTION';
+  } else if (message.includes('invite link')) {
+    code = 'INVITE_INVALID';
   }
   
   return { message, code };
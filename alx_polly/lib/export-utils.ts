@@ -0,0 +1,123 @@
+/**
+ * Poll Export Utilities
+ *
+ * Serialises poll results and ballots to CSV, JSON and XLSX for
+ * GET /api/polls/[id]/export, and pseudonymises voter identities.
+ *
+ * Security Features:
+ * - Voters are replaced with keyed, per-poll pseudonyms by default, so exports
+ *   can't be joined across polls or reversed by hashing known user IDs or IPs
+ * - Spreadsheet formula injection is neutralised in CSV cells
+ *
+ * @fileoverview Export formatting for poll owners
+ */
+
+import { createHmac } from 'crypto'
+import ExcelJS from 'exceljs'
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx'
+export type ExportType = 'results' | 'ballots'
+
+export type ExportCell = string | number | null
+export type ExportRow = Record<string, ExportCell>
+
+/** Column of an export sheet: row key and header label */
+export interface ExportColumn {
+  key: string
+  header: string
+}
+
+/** Everything a serialiser needs to produce one export file */
+export interface ExportSheet {
+  name: string
+  columns: ExportColumn[]
+  rows: ExportRow[]
+  /** Extra top-level fields for the JSON format */
+  meta: Record<string, unknown>
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+}
+
+/**
+ * Derives a stable pseudonym for a voter within one poll
+ *
+ * The same voter gets the same pseudonym across exports of a poll, so owners
+ * can still count repeat ballots, but different polls yield unrelated values.
+ *
+ * @param pollId - Poll the vote belongs to
+ * @param identity - User ID, or IP address for anonymous votes
+ * @returns A short pseudonym such as `voter-1a2b3c4d5e6f`
+ * @throws Error if no pseudonymisation secret is configured
+ */
+export function pseudonymiseVoter(pollId: string, identity: string): string {
+  // A dedicated key, so the service role key never feeds into values owners can see
+  const secret = process.env.EXPORT_PSEUDONYM_SECRET
+  if (!secret) {
+    throw new Error('Missing required environment variable: EXPORT_PSEUDONYM_SECRET')
+  }
+
+  const digest = createHmac('sha256', secret).update(`${pollId}:${identity}`).digest('hex')
+  return `voter-${digest.slice(0, 12)}`
+}
+
+/**
+ * Escapes a value for a CSV cell (RFC 4180)
+ * Cells that a spreadsheet would evaluate as a formula get a leading quote
+ */
+function toCsvCell(value: ExportCell): string {
+  if (value === null) return ''
+
+  let text = String(value)
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv({ columns, rows }: ExportSheet): string {
+  const lines = [
+    columns.map(column => toCsvCell(column.header)).join(','),
+    ...rows.map(row => columns.map(column => toCsvCell(row[column.key])).join(',')),
+  ]
+  return lines.join('\r\n') + '\r\n'
+}
+
+export function toJson({ name, rows, meta }: ExportSheet): string {
+  return JSON.stringify({ ...meta, [name.toLowerCase()]: rows }, null, 2)
+}
+
+export async function toXlsx({ name, columns, rows }: ExportSheet): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook()
+  workbook.created = new Date()
+
+  const worksheet = workbook.addWorksheet(name)
+  worksheet.columns = columns.map(column => ({
+    header: column.header,
+    key: column.key,
+    width: Math.max(column.header.length + 2, 14),
+  }))
+  worksheet.getRow(1).font = { bold: true }
+  worksheet.addRows(rows)
+
+  const buffer = await workbook.xlsx.writeBuffer()
+  return Buffer.from(buffer)
+}
+
+/**
+ * Builds a safe download filename from the poll title
+ * @example exportFilename('Lunch: Friday?', 'results', 'csv') // 'lunch-friday-results.csv'
+ */
+export function exportFilename(title: string, type: ExportType, format: ExportFormat): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50) || 'poll'
+
+  return `${slug}-${type}.${format}`
+}
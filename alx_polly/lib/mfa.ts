@@ -0,0 +1,103 @@
+/**
+ * Two-Factor Authentication
+ *
+ * Users can add a TOTP authenticator app (a Supabase MFA factor) on the edit
+ * profile page. Signing in gives an AAL1 session; once the account has a
+ * verified factor, the session has to be stepped up to AAL2 by entering a
+ * code on /mfa before protected pages and sensitive actions (deleting polls,
+ * managing API keys) are allowed.
+ *
+ * Deleting the account also needs a recent sign-in, read from the sign-in
+ * methods recorded in the session's access token.
+ *
+ * Works in the browser, on the server and in middleware.
+ *
+ * @fileoverview Assurance level and recent sign-in checks
+ */
+
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+
+/** Page where a signed-in user enters a code from their authenticator app */
+export const MFA_CHALLENGE_PATH = '/mfa'
+
+/** How recently the user must have signed in to delete their account */
+export const REAUTHENTICATION_WINDOW_MS = 10 * 60 * 1000 // 10 minutes
+
+/** Error thrown by assertMfaVerified; mapPollError maps it to UNAUTHORIZED */
+export const MFA_REQUIRED_MESSAGE = 'Two-factor verification required. Enter a code from your authenticator app and try again.'
+
+/**
+ * Checks whether the user has a verified authenticator, i.e. two-factor
+ * authentication is turned on
+ */
+export function hasVerifiedFactor(user: User): boolean {
+  return (user.factors ?? []).some(factor => factor.status === 'verified')
+}
+
+/**
+ * Checks whether the session still has to pass the two-factor challenge
+ *
+ * The session's own copy of the user isn't signed, so on the server pass the
+ * user returned by getUser() to decide whether the account has a factor.
+ * Errs on the side of asking when the assurance level can't be read.
+ *
+ * @param supabase - Client holding the session
+ * @param user - User from supabase.auth.getUser(), when already fetched
+ * @returns true when the account has a verified factor and the session is only AAL1
+ */
+export async function needsMfaChallenge(supabase: SupabaseClient, user?: User | null): Promise<boolean> {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel()
+  if (error || !data) return true
+
+  const hasFactor = user ? hasVerifiedFactor(user) : data.nextLevel === 'aal2'
+  return hasFactor && data.currentLevel !== 'aal2'
+}
+
+/**
+ * Builds the challenge page URL that continues to `redirectTo` afterwards
+ */
+export function getMfaChallengePath(redirectTo: string): string {
+  return `${MFA_CHALLENGE_PATH}?redirectTo=${encodeURIComponent(redirectTo)}`
+}
+
+/**
+ * Picks where to send a user who just signed in: the challenge page first
+ * when their account has two-factor authentication turned on
+ *
+ * @param supabase - Client holding the new session
+ * @param redirectTo - Same-site path the user was heading to
+ */
+export async function getPostSignInPath(supabase: SupabaseClient, redirectTo: string): Promise<string> {
+  return await needsMfaChallenge(supabase) ? getMfaChallengePath(redirectTo) : redirectTo
+}
+
+/**
+ * Guards a sensitive server action
+ *
+ * @param supabase - Server client for the request
+ * @param user - User from supabase.auth.getUser()
+ * @throws Error with MFA_REQUIRED_MESSAGE if the session hasn't passed the challenge
+ */
+export async function assertMfaVerified(supabase: SupabaseClient, user: User): Promise<void> {
+  if (await needsMfaChallenge(supabase, user)) {
+    throw new Error(MFA_REQUIRED_MESSAGE)
+  }
+}
+
+/**
+ * Checks whether the user signed in, or passed the two-factor challenge,
+ * within REAUTHENTICATION_WINDOW_MS. Refreshing the session doesn't count.
+ *
+ * On the server, call supabase.auth.getUser() first so the access token the
+ * timestamps come from has been verified.
+ *
+ * @param supabase - Client holding the session
+ */
+export async function hasRecentSignIn(supabase: SupabaseClient): Promise<boolean> {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel()
+  if (error || !data) return false
+
+  // AMR timestamps are in seconds
+  const lastSignIn = Math.max(0, ...data.currentAuthenticationMethods.map(method => method.timestamp))
+  return Date.now() - lastSignIn * 1000 <= REAUTHENTICATION_WINDOW_MS
+}
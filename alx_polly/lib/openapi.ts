@@ -0,0 +1,309 @@
+/**
+ * OpenAPI Document for /api/v1
+ *
+ * Request schemas come straight from the zod schemas in validation-utils.ts,
+ * so the document can't drift from what the routes accept. Response schemas
+ * are described here with zod for the same reason: one toJSONSchema call
+ * turns everything into OpenAPI 3.0 schema objects.
+ *
+ * @fileoverview Builds the OpenAPI 3.0 document served at /api/v1/openapi.json
+ */
+
+import { z } from 'zod'
+import {
+  InviteTokenSchema,
+  PollCreationSchema,
+  PollListQuerySchema,
+  VoteSubmissionSchema
+} from './validation-utils'
+
+type JsonSchema = Record<string, unknown>
+
+/**
+ * Converts a zod schema to an OpenAPI 3.0 schema describing its input
+ *
+ * toJSONSchema marks preprocessed fields as required even when the inner
+ * schema accepts undefined, so required keys are re-checked against the
+ * schema itself.
+ */
+function toSchema(schema: z.ZodType): JsonSchema {
+  const jsonSchema = z.toJSONSchema(schema, {
+    io: 'input',
+    unrepresentable: 'any',
+    target: 'openapi-3.0'
+  }) as JsonSchema
+  delete jsonSchema.$schema
+
+  if (schema instanceof z.ZodObject && Array.isArray(jsonSchema.required)) {
+    const shape = schema.shape as Record<string, z.ZodType>
+    jsonSchema.required = (jsonSchema.required as string[]).filter(key => !shape[key]?.safeParse(undefined).success)
+  }
+
+  return jsonSchema
+}
+
+const ApiErrorBody = z.object({
+  message: z.string(),
+  code: z.string().optional(),
+  details: z.record(z.string(), z.unknown()).optional()
+})
+
+const PollBody = z.object({
+  id: z.string().uuid(),
+  title: z.string(),
+  description: z.string().nullable(),
+  is_active: z.boolean(),
+  is_public: z.boolean(),
+  created_at: z.string(),
+  starts_at: z.string().nullable(),
+  end_date: z.string().nullable(),
+  closed_at: z.string().nullable(),
+  created_by: z.string().uuid(),
+  allow_multiple_selections: z.boolean(),
+  voting_method: z.enum(['plurality', 'ranked_choice']),
+  eligibility: z.enum(['anyone', 'authenticated', 'email_domain', 'email_list']),
+  allow_anonymous_votes: z.boolean(),
+  lock_votes: z.boolean()
+})
+
+const OptionBody = z.object({
+  id: z.string().uuid(),
+  text: z.string(),
+  order_index: z.number().int()
+})
+
+const PollListItemBody = PollBody.pick({
+  id: true,
+  title: true,
+  description: true,
+  created_by: true,
+  is_public: true,
+  is_active: true,
+  created_at: true,
+  starts_at: true,
+  end_date: true,
+  closed_at: true,
+  voting_method: true
+}).extend({
+  option_count: z.number().int(),
+  total_votes: z.number().int(),
+  unique_voters: z.number().int()
+})
+
+const ResultsBody = z.object({
+  options: z.array(z.object({
+    option_id: z.string().uuid(),
+    option_text: z.string(),
+    order_index: z.number().int(),
+    vote_count: z.number().int(),
+    vote_percentage: z.number()
+  })),
+  totalVotes: z.number().int(),
+  runoff: z.object({
+    rounds: z.array(z.object({
+      round: z.number().int(),
+      tallies: z.record(z.string(), z.number().int()),
+      eliminated: z.array(z.string()),
+      exhaustedBallots: z.number().int()
+    })),
+    winner: z.string().nullable(),
+    tiedOptions: z.array(z.string())
+  }).nullable().describe('Instant-runoff count; null unless the poll is ranked-choice')
+})
+
+const VoteBody = VoteSubmissionSchema.omit({ pollId: true }).extend({
+  inviteToken: InviteTokenSchema.optional()
+})
+
+/** Wraps a payload schema in the `{ data }` success envelope */
+function dataEnvelope(schema: z.ZodType): JsonSchema {
+  return toSchema(z.object({ data: schema }))
+}
+
+function jsonContent(schema: JsonSchema) {
+  return { 'application/json': { schema } }
+}
+
+const errorResponse = (description: string) => ({
+  description,
+  content: jsonContent({ $ref: '#/components/schemas/ApiError' })
+})
+
+const commonErrors = {
+  401: errorResponse('Missing, invalid or revoked API key'),
+  403: errorResponse('The key lacks the required scope, or the poll refuses the caller'),
+  429: errorResponse('Rate limit exceeded; see Retry-After')
+}
+
+const pollIdParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: { type: 'string', format: 'uuid' }
+}
+
+const inviteParameter = {
+  name: 'invite',
+  in: 'query',
+  required: false,
+  description: 'Invite token for reading someone else\'s private poll',
+  schema: toSchema(InviteTokenSchema)
+}
+
+/**
+ * Lists the listing filters from PollListQuerySchema as query parameters
+ */
+function listQueryParameters() {
+  const schema = toSchema(PollListQuerySchema)
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: 'query',
+    required: false,
+    schema: property
+  }))
+}
+
+/**
+ * Builds the OpenAPI document for the versioned API
+ * @param serverUrl - Origin the API is served from
+ * @returns OpenAPI 3.0.3 document
+ */
+export function buildOpenApiDocument(serverUrl: string) {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'ALX Polly API',
+      version: '1.0.0',
+      description: 'Create polls, read results and vote. Authenticate with an API key from your profile page. ' +
+        'Read-only keys can call GET operations; read/write keys can call all of them.'
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    security: [{ apiKey: [] }],
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'API key, sent as "Authorization: Bearer polly_..."'
+        }
+      },
+      schemas: {
+        ApiError: toSchema(ApiErrorBody),
+        PollCreation: toSchema(PollCreationSchema),
+        VoteSubmission: toSchema(VoteBody)
+      }
+    },
+    paths: {
+      '/polls': {
+        get: {
+          summary: 'List public polls',
+          description: 'Scope: read. Cursor-paginated; pass pagination.nextCursor as `cursor` for the next page.',
+          parameters: listQueryParameters(),
+          responses: {
+            200: {
+              description: 'A page of polls',
+              content: jsonContent(toSchema(z.object({
+                data: z.array(PollListItemBody),
+                pagination: z.object({
+                  limit: z.number().int(),
+                  nextCursor: z.string().nullable(),
+                  hasMore: z.boolean()
+                })
+              })))
+            },
+            400: errorResponse('Invalid query parameters'),
+            ...commonErrors
+          }
+        },
+        post: {
+          summary: 'Create a poll',
+          description: 'Scope: write. The poll is owned by the key\'s owner.',
+          requestBody: {
+            required: true,
+            content: jsonContent({ $ref: '#/components/schemas/PollCreation' })
+          },
+          responses: {
+            201: { description: 'Poll created', content: jsonContent(dataEnvelope(z.object({ pollId: z.string().uuid() }))) },
+            400: errorResponse('Invalid poll'),
+            ...commonErrors
+          }
+        }
+      },
+      '/polls/{id}': {
+        parameters: [pollIdParameter],
+        get: {
+          summary: 'Get a poll',
+          description: 'Scope: read.',
+          parameters: [inviteParameter],
+          responses: {
+            200: { description: 'The poll and its options', content: jsonContent(dataEnvelope(PollBody.extend({ options: z.array(OptionBody) }))) },
+            404: errorResponse('Poll not found'),
+            ...commonErrors
+          }
+        },
+        delete: {
+          summary: 'Delete a poll',
+          description: 'Scope: write. Only the poll\'s owner can delete it.',
+          responses: {
+            200: { description: 'Poll deleted', content: jsonContent(dataEnvelope(z.object({ success: z.literal(true) }))) },
+            404: errorResponse('Poll not found'),
+            ...commonErrors
+          }
+        }
+      },
+      '/polls/{id}/options': {
+        parameters: [pollIdParameter],
+        get: {
+          summary: 'List a poll\'s options',
+          description: 'Scope: read. In display order.',
+          parameters: [inviteParameter],
+          responses: {
+            200: { description: 'The options', content: jsonContent(dataEnvelope(z.array(OptionBody))) },
+            404: errorResponse('Poll not found'),
+            ...commonErrors
+          }
+        }
+      },
+      '/polls/{id}/results': {
+        parameters: [pollIdParameter],
+        get: {
+          summary: 'Get a poll\'s results',
+          description: 'Scope: read. Ranked-choice polls include the instant-runoff rounds.',
+          parameters: [inviteParameter],
+          responses: {
+            200: { description: 'Vote tallies', content: jsonContent(dataEnvelope(ResultsBody)) },
+            404: errorResponse('Poll not found'),
+            ...commonErrors
+          }
+        }
+      },
+      '/polls/{id}/votes': {
+        parameters: [pollIdParameter],
+        get: {
+          summary: 'Get your ballot',
+          description: 'Scope: read. `optionIds` is empty if the key\'s owner hasn\'t voted.',
+          responses: {
+            200: { description: 'The owner\'s ballot', content: jsonContent(dataEnvelope(z.object({ optionIds: z.array(z.string().uuid()) }))) },
+            ...commonErrors
+          }
+        },
+        post: {
+          summary: 'Vote',
+          description: 'Scope: write. Ranked-choice polls take optionIds in preference order.',
+          requestBody: {
+            required: true,
+            content: jsonContent({ $ref: '#/components/schemas/VoteSubmission' })
+          },
+          responses: {
+            201: { description: 'Vote recorded', content: jsonContent(dataEnvelope(z.object({ success: z.literal(true) }))) },
+            400: errorResponse('Invalid ballot'),
+            404: errorResponse('Poll not found'),
+            409: errorResponse('Already voted, or votes are locked'),
+            ...commonErrors
+          }
+        }
+      }
+    }
+  }
+}
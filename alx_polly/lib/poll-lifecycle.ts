@@ -0,0 +1,64 @@
+/**
+ * Poll Lifecycle Management
+ *
+ * Server-side jobs that move polls between states over time. Kept out of
+ * lib/actions.ts on purpose: everything exported from a 'use server' module
+ * becomes callable from the browser, and these jobs must only run from the
+ * authenticated sweeper route.
+ *
+ * @fileoverview Scheduled poll lifecycle jobs
+ */
+
+import { revalidatePath } from 'next/cache'
+import { createServerSupabaseAdminClient } from './supabase-server'
+import { queueWebhookEvent } from './webhooks'
+
+/** Outcome of one sweeper run */
+export interface CloseExpiredPollsResult {
+  closedPollIds: string[]
+  closedAt: string
+}
+
+/**
+ * Closes every active poll whose end date has passed
+ *
+ * Runs the close_expired_polls() database function with the service role,
+ * which flips `is_active` off and records `closed_at` in a single statement,
+ * so overlapping sweeper runs cannot close a poll twice. Each closed poll is
+ * reported to its owner's `poll.closed` webhooks.
+ *
+ * @returns IDs of the polls closed by this run
+ * @throws Error if the service role key is missing or the update fails
+ */
+export async function closeExpiredPolls(): Promise<CloseExpiredPollsResult> {
+  const supabase = await createServerSupabaseAdminClient()
+  const { data, error } = await supabase.rpc('close_expired_polls')
+
+  if (error) {
+    console.error('Error closing expired polls:', error)
+    throw new Error('Failed to close expired polls')
+  }
+
+  const closedPollIds = ((data || []) as Array<{ poll_id: string }>).map(row => row.poll_id)
+
+  if (closedPollIds.length > 0) {
+    revalidatePath('/polls')
+    revalidatePath('/dashboard')
+    closedPollIds.forEach(pollId => revalidatePath(`/polls/${pollId}`))
+
+    const { data: closedPolls, error: pollsError } = await supabase
+      .from('polls')
+      .select('id, title, created_by')
+      .in('id', closedPollIds)
+
+    if (pollsError) {
+      console.error('Error loading closed polls for webhooks:', pollsError)
+    }
+
+    for (const poll of closedPolls || []) {
+      await queueWebhookEvent('poll.closed', poll, { reason: 'ended' })
+    }
+  }
+
+  return { closedPollIds, closedAt: new Date().toISOString() }
+}
@@ -0,0 +1,60 @@
+/**
+ * Built-in Poll Templates
+ *
+ * Ready-made setups for polls teams run again and again. They are offered
+ * next to the user's saved templates on /polls/new and live in code rather
+ * than in the poll_templates table, so every account sees them without seed data.
+ *
+ * @fileoverview Built-in poll templates
+ */
+
+import type { PollTemplate } from './types'
+
+export const BUILT_IN_TEMPLATES: PollTemplate[] = [
+  {
+    id: 'built-in-sprint-retro',
+    name: 'Sprint retro',
+    title: 'What should we focus on next sprint?',
+    description: 'Pick everything you think deserves attention.',
+    options: [
+      'Keep doing what worked',
+      'Faster code reviews',
+      'Fewer meetings',
+      'Pay down tech debt',
+      'Improve test coverage',
+    ],
+    allow_multiple_selections: true,
+    voting_method: 'plurality',
+    built_in: true,
+  },
+  {
+    id: 'built-in-lunch-choice',
+    name: 'Lunch choice',
+    title: 'Where should we get lunch?',
+    description: 'Rank the places in order of preference.',
+    options: ['Pizza', 'Sushi', 'Salad bar', 'Burgers', 'Tacos'],
+    allow_multiple_selections: false,
+    voting_method: 'ranked_choice',
+    built_in: true,
+  },
+  {
+    id: 'built-in-meeting-time',
+    name: 'Meeting time',
+    title: 'Which times work for the team meeting?',
+    description: 'Select every slot you can make.',
+    options: ['Monday morning', 'Tuesday afternoon', 'Wednesday morning', 'Thursday afternoon', 'Friday morning'],
+    allow_multiple_selections: true,
+    voting_method: 'plurality',
+    built_in: true,
+  },
+  {
+    id: 'built-in-yes-no',
+    name: 'Yes / No decision',
+    title: 'Should we go ahead with the proposal?',
+    description: null,
+    options: ['Yes', 'No', 'Abstain'],
+    allow_multiple_selections: false,
+    voting_method: 'plurality',
+    built_in: true,
+  },
+]
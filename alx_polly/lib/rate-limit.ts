@@ -2,21 +2,30 @@
  * Rate Limiting Utility for Poll Application
  * 
  * This module provides rate limiting functionality to prevent abuse and ensure
- * fair usage of the application's resources. It uses a token bucket algorithm
- * with Redis-like storage for distributed rate limiting.
+ * fair usage of the application's resources. Each operation gets a sliding
+ * window: a request is allowed if fewer than `requests` were allowed in the
+ * last `window` milliseconds.
  * 
  * Features:
  * - Configurable rate limits per operation type
  * - IP-based and user-based rate limiting
  * - Sliding window rate limiting
- * - Memory-based storage for development
- * - Redis support for production (when available)
+ * - Pluggable storage: in-memory by default, Redis for production
+ * - Standard X-RateLimit-* and Retry-After response headers
+ * 
+ * Storage is picked by environment variables:
+ * - RATE_LIMIT_STORE=memory (default) keeps windows in this process, so they
+ *   reset on every deploy and aren't shared between instances
+ * - RATE_LIMIT_STORE=redis keeps them in the Redis-compatible server at
+ *   REDIS_URL, shared by every instance
  * 
  * @fileoverview Rate limiting utility for preventing abuse
- * @version 1.0.0
+ * @version 1.1.0
  */
 
+import { randomUUID } from 'crypto'
 import { LRUCache } from 'lru-cache'
+import { RedisClient } from './redis'
 
 // Rate limit configuration
 interface RateLimitConfig {
@@ -27,18 +36,23 @@ interface RateLimitConfig {
 // Default rate limits for different operations
 const RATE_LIMITS: Record<string, RateLimitConfig> = {
   'create-poll': { requests: 5, window: 60 * 1000 }, // 5 polls per minute
+  'update-poll': { requests: 10, window: 60 * 1000 }, // 10 poll edits per minute
+  'duplicate-poll': { requests: 5, window: 60 * 1000 }, // 5 copies per minute
+  'save-template': { requests: 10, window: 60 * 1000 }, // 10 saved templates per minute
+  'create-invite': { requests: 10, window: 60 * 1000 }, // 10 invite links per minute
   'vote': { requests: 10, window: 60 * 1000 }, // 10 votes per minute
+  'change-vote': { requests: 10, window: 60 * 1000 }, // 10 vote changes or retractions per minute
+  'delete-poll': { requests: 10, window: 60 * 1000 }, // 10 poll deletions per minute
+  'create-api-key': { requests: 5, window: 60 * 1000 }, // 5 API keys per minute
+  'recovery-code': { requests: 5, window: 15 * 60 * 1000 }, // 5 recovery code attempts per 15 minutes
+  'create-webhook': { requests: 10, window: 60 * 1000 }, // 10 webhooks per minute
+  'test-webhook': { requests: 5, window: 60 * 1000 }, // 5 test deliveries per minute
+  'api': { requests: 120, window: 60 * 1000 }, // 120 /api/v1 requests per minute per key
   'login': { requests: 5, window: 15 * 60 * 1000 }, // 5 login attempts per 15 minutes
   'register': { requests: 3, window: 60 * 60 * 1000 }, // 3 registrations per hour
   'default': { requests: 20, window: 60 * 1000 } // 20 requests per minute
 }
 
-// In-memory cache for rate limiting (use Redis in production)
-const cache = new LRUCache<string, { count: number; resetTime: number }>({
-  max: 10000,
-  ttl: 60 * 60 * 1000 // 1 hour TTL
-})
-
 /**
  * Rate limiting result
  */
@@ -49,57 +63,216 @@ interface RateLimitResult {
   reset: Date
 }
 
+/**
+ * Storage for rate limit windows
+ * 
+ * `hit` must check and record a request in one atomic step, so concurrent
+ * requests can't both take the last slot in a window.
+ */
+interface RateLimitStore {
+  /** Records a request if the window has room, and returns the window's state */
+  hit(key: string, config: RateLimitConfig): Promise<RateLimitResult>
+  /** Returns the window's state without recording a request; null if it's empty */
+  peek(key: string, config: RateLimitConfig): Promise<RateLimitResult | null>
+  /** Clears the window */
+  reset(key: string): Promise<void>
+}
+
+/**
+ * Builds a result from the request timestamps in a window, oldest first
+ * The window frees its next slot when the oldest request leaves it.
+ */
+function windowResult(success: boolean, hits: number[], config: RateLimitConfig, now: number): RateLimitResult {
+  return {
+    success,
+    limit: config.requests,
+    remaining: Math.max(0, config.requests - hits.length),
+    reset: new Date((hits[0] ?? now) + config.window)
+  }
+}
+
+/**
+ * Process-local store backed by an LRU cache
+ * 
+ * Fine for development and single-instance deployments. Nothing is awaited
+ * between the check and the write, so each hit is atomic within the process.
+ */
+class MemoryRateLimitStore implements RateLimitStore {
+  private readonly cache = new LRUCache<string, number[]>({
+    max: 10000,
+    ttl: 60 * 60 * 1000 // 1 hour TTL
+  })
+
+  async hit(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
+    const now = Date.now()
+    const hits = this.recentHits(key, config, now)
+    const success = hits.length < config.requests
+
+    if (success) {
+      hits.push(now)
+      this.cache.set(key, hits, { ttl: config.window })
+    }
+
+    return windowResult(success, hits, config, now)
+  }
+
+  async peek(key: string, config: RateLimitConfig): Promise<RateLimitResult | null> {
+    const now = Date.now()
+    const hits = this.recentHits(key, config, now)
+    return hits.length ? windowResult(hits.length < config.requests, hits, config, now) : null
+  }
+
+  async reset(key: string): Promise<void> {
+    this.cache.delete(key)
+  }
+
+  /** Timestamps of the requests still inside the window */
+  private recentHits(key: string, config: RateLimitConfig, now: number): number[] {
+    return (this.cache.get(key) ?? []).filter(timestamp => timestamp > now - config.window)
+  }
+}
+
+/**
+ * Records a request in a sorted-set sliding window if it has room
+ * KEYS[1] = window key; ARGV = window (ms), request limit, unique member.
+ * Uses the server clock so every app instance agrees on the window.
+ * Returns { allowed (0/1), requests in window, ms timestamp of the oldest request }.
+ */
+const HIT_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local window = tonumber(ARGV[1])
+local limit = tonumber(ARGV[2])
+
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[3])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return { allowed, count, tonumber(oldest[2] or now) }
+`
+
+/**
+ * Reads a sorted-set sliding window without recording a request
+ * Returns { requests in window, ms timestamp of the oldest request }.
+ */
+const PEEK_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local window = tonumber(ARGV[1])
+
+local count = redis.call('ZCOUNT', KEYS[1], '(' .. (now - window), '+inf')
+local oldest = redis.call('ZRANGEBYSCORE', KEYS[1], '(' .. (now - window), '+inf', 'WITHSCORES', 'LIMIT', 0, 1)
+return { count, tonumber(oldest[2] or now) }
+`
+
+/**
+ * Store shared by every app instance, kept in a Redis-compatible server
+ * 
+ * Each window is a sorted set of request timestamps. The check and the write
+ * run in one Lua script, so concurrent requests from different instances
+ * can't overshoot the limit.
+ */
+class RedisRateLimitStore implements RateLimitStore {
+  constructor(private readonly client: RedisClient) {}
+
+  async hit(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
+    const reply = await this.client.command('EVAL', HIT_SCRIPT, 1, key, config.window, config.requests, randomUUID())
+    const [allowed, count, oldest] = reply as number[]
+
+    return {
+      success: allowed === 1,
+      limit: config.requests,
+      remaining: Math.max(0, config.requests - count),
+      reset: new Date(oldest + config.window)
+    }
+  }
+
+  async peek(key: string, config: RateLimitConfig): Promise<RateLimitResult | null> {
+    const reply = await this.client.command('EVAL', PEEK_SCRIPT, 1, key, config.window)
+    const [count, oldest] = reply as number[]
+
+    if (count === 0) return null
+
+    return {
+      success: count < config.requests,
+      limit: config.requests,
+      remaining: Math.max(0, config.requests - count),
+      reset: new Date(oldest + config.window)
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.command('DEL', key)
+  }
+}
+
+/**
+ * Creates the store selected by RATE_LIMIT_STORE
+ * @throws Error if the store is unknown, or Redis is selected without REDIS_URL
+ */
+function createRateLimitStore(): RateLimitStore {
+  const storeType = process.env.RATE_LIMIT_STORE || 'memory'
+
+  if (storeType === 'memory') {
+    return new MemoryRateLimitStore()
+  }
+
+  if (storeType === 'redis') {
+    const redisUrl = process.env.REDIS_URL
+    if (!redisUrl) {
+      throw new Error('Missing required environment variable: REDIS_URL')
+    }
+    return new RedisRateLimitStore(new RedisClient(redisUrl))
+  }
+
+  throw new Error(`Unknown RATE_LIMIT_STORE: ${storeType}`)
+}
+
 /**
  * Rate limiter class implementing sliding window algorithm
  */
 class RateLimiter {
+  private store: RateLimitStore | null
+
+  /**
+   * @param store - Storage for the windows; defaults to the one picked by RATE_LIMIT_STORE
+   */
+  constructor(store?: RateLimitStore) {
+    this.store = store ?? null
+  }
+
   /**
    * Check if a request should be rate limited
+   * 
+   * If the store can't be reached the request is let through: an outage of
+   * the rate limit store shouldn't take the whole app down with it.
+   * 
    * @param identifier - Unique identifier for the rate limit (e.g., 'create-poll:192.168.1.1')
    * @param customConfig - Optional custom rate limit configuration
    * @returns Rate limit result
    */
   async limit(identifier: string, customConfig?: RateLimitConfig): Promise<RateLimitResult> {
-    const now = Date.now()
-    const [operation] = identifier.split(':')
-    const config = customConfig || RATE_LIMITS[operation] || RATE_LIMITS.default
-    
-    const key = `ratelimit:${identifier}`
-    const current = cache.get(key)
-    
-    // If no previous record or window has expired, start fresh
-    if (!current || now > current.resetTime) {
-      const resetTime = now + config.window
-      cache.set(key, { count: 1, resetTime })
-      
+    const config = customConfig || this.configFor(identifier)
+    const store = this.getStore()
+
+    try {
+      return await store.hit(`ratelimit:${identifier}`, config)
+    } catch (error) {
+      console.error('Rate limit store error:', error)
       return {
         success: true,
         limit: config.requests,
-        remaining: config.requests - 1,
-        reset: new Date(resetTime)
-      }
-    }
-    
-    // Check if limit exceeded
-    if (current.count >= config.requests) {
-      return {
-        success: false,
-        limit: config.requests,
-        remaining: 0,
-        reset: new Date(current.resetTime)
+        remaining: config.requests,
+        reset: new Date(Date.now() + config.window)
       }
     }
-    
-    // Increment counter
-    current.count++
-    cache.set(key, current)
-    
-    return {
-      success: true,
-      limit: config.requests,
-      remaining: config.requests - current.count,
-      reset: new Date(current.resetTime)
-    }
   }
   
   /**
@@ -107,8 +280,7 @@ class RateLimiter {
    * @param identifier - The identifier to reset
    */
   async reset(identifier: string): Promise<void> {
-    const key = `ratelimit:${identifier}`
-    cache.delete(key)
+    await this.getStore().reset(`ratelimit:${identifier}`)
   }
   
   /**
@@ -117,31 +289,79 @@ class RateLimiter {
    * @returns Current rate limit status
    */
   async status(identifier: string): Promise<RateLimitResult | null> {
-    const now = Date.now()
+    return this.getStore().peek(`ratelimit:${identifier}`, this.configFor(identifier))
+  }
+
+  /** Limits for the operation named before the first ':' of an identifier */
+  private configFor(identifier: string): RateLimitConfig {
     const [operation] = identifier.split(':')
-    const config = RATE_LIMITS[operation] || RATE_LIMITS.default
-    
-    const key = `ratelimit:${identifier}`
-    const current = cache.get(key)
-    
-    if (!current || now > current.resetTime) {
-      return null
-    }
-    
-    return {
-      success: current.count < config.requests,
-      limit: config.requests,
-      remaining: Math.max(0, config.requests - current.count),
-      reset: new Date(current.resetTime)
+    return RATE_LIMITS[operation] || RATE_LIMITS.default
+  }
+
+  /** The store, created on first use so a misconfiguration fails loudly there */
+  private getStore(): RateLimitStore {
+    if (!this.store) {
+      this.store = createRateLimitStore()
     }
+    return this.store
+  }
+}
+
+/**
+ * Reads the client IP address from proxy headers
+ * 
+ * Uses the first x-forwarded-for entry, then x-real-ip, so server actions and
+ * route handlers key their limits on the same address.
+ * 
+ * @param headers - Request headers
+ * @returns Client IP, or 127.0.0.1 when no proxy header is present (development)
+ */
+export function getClientIPFromHeaders(headers: Pick<Headers, 'get'>): string {
+  const forwarded = headers.get('x-forwarded-for')
+  const realIP = headers.get('x-real-ip')
+
+  if (forwarded) {
+    return forwarded.split(',')[0].trim()
   }
+
+  if (realIP) {
+    return realIP
+  }
+
+  return '127.0.0.1' // Fallback for development
+}
+
+/**
+ * Builds the standard rate limit headers for a response
+ * 
+ * X-RateLimit-Reset is a Unix timestamp in seconds; Retry-After (seconds to
+ * wait) is only sent when the request was refused.
+ * 
+ * @param result - Result of ratelimit.limit()
+ * @returns Headers to pass to NextResponse.json(..., { headers })
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.reset.getTime() / 1000))
+  }
+
+  if (!result.success) {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil((result.reset.getTime() - Date.now()) / 1000)))
+  }
+
+  return headers
 }
 
 // Export singleton instance
 export const ratelimit = new RateLimiter()
 
+// Export the limiter and stores so they can be used with other configurations (e.g. in tests)
+export { RateLimiter, MemoryRateLimitStore, RedisRateLimitStore, createRateLimitStore }
+
 // Export types for use in other modules
-export type { RateLimitResult, RateLimitConfig }
+export type { RateLimitResult, RateLimitConfig, RateLimitStore }
 
 // Export rate limit configurations for reference
-export { RATE_LIMITS }
\ No newline at end of file
+export { RATE_LIMITS }
@@ -0,0 +1,140 @@
+/**
+ * Tests for the RESP client and the Redis rate limit store
+ *
+ * The reply parsing tests talk to a scripted TCP server. The rate limit tests
+ * need a real redis-server: they use REDIS_TEST_URL (default
+ * redis://localhost:6379/15, which they flush) and are skipped when nothing
+ * answers there.
+ *
+ * Run with `npm test`.
+ */
+
+import assert from 'node:assert/strict'
+import net from 'node:net'
+import { after, before, describe, it } from 'node:test'
+import { RedisClient } from './redis'
+import { RedisRateLimitStore } from './rate-limit'
+
+/**
+ * Starts a server that answers each command it receives with the next raw
+ * RESP reply from `replies`
+ */
+async function startScriptedServer(replies: string[]): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = net.createServer(socket => {
+    socket.on('data', chunk => {
+      // Every command the client sends is a RESP array, one per `*` header
+      const commands = chunk.toString('utf8').split('\r\n').filter(line => line.startsWith('*')).length
+      socket.write(replies.splice(0, commands).join(''))
+    })
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as net.AddressInfo
+
+  return {
+    url: `redis://127.0.0.1:${port}`,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  }
+}
+
+describe('RedisClient', () => {
+  it('keeps pipelined replies in step after an error inside an array', async () => {
+    const server = await startScriptedServer([
+      '*3\r\n:1\r\n-ERR first failed\r\n$5\r\nhello\r\n',
+      '+OK\r\n'
+    ])
+    const client = new RedisClient(server.url)
+
+    try {
+      const [first, second] = await Promise.allSettled([
+        client.command('EVAL', 'return 1', 0),
+        client.command('PING')
+      ])
+
+      assert.equal(first.status, 'rejected')
+      assert.match((first as PromiseRejectedResult).reason.message, /ERR first failed/)
+      assert.deepEqual(second, { status: 'fulfilled', value: 'OK' })
+    } finally {
+      client.disconnect()
+      await server.close()
+    }
+  })
+
+  it('reads nested arrays, integers, bulk and null replies', async () => {
+    const server = await startScriptedServer(['*4\r\n:42\r\n$-1\r\n*1\r\n+nested\r\n$3\r\nend\r\n'])
+    const client = new RedisClient(server.url)
+
+    try {
+      assert.deepEqual(await client.command('PING'), [42, null, ['nested'], 'end'])
+    } finally {
+      client.disconnect()
+      await server.close()
+    }
+  })
+})
+
+describe('RedisRateLimitStore (redis-server)', () => {
+  const url = process.env.REDIS_TEST_URL || 'redis://localhost:6379/15'
+  const client = new RedisClient(url)
+  const store = new RedisRateLimitStore(client)
+  let available = false
+
+  before(async () => {
+    try {
+      await client.command('FLUSHDB')
+      available = true
+    } catch {
+      client.disconnect()
+    }
+  })
+
+  after(() => client.disconnect())
+
+  it('allows up to the limit, then refuses', async (t) => {
+    if (!available) return t.skip(`no redis-server at ${url}`)
+
+    const config = { requests: 3, window: 60 * 1000 }
+    const results = []
+    for (let i = 0; i < 4; i++) {
+      results.push(await store.hit('test:limit', config))
+    }
+
+    assert.deepEqual(results.map(result => result.success), [true, true, true, false])
+    assert.deepEqual(results.map(result => result.remaining), [2, 1, 0, 0])
+    assert.ok(results[3].reset.getTime() > Date.now())
+  })
+
+  it('never lets concurrent requests past the limit', async (t) => {
+    if (!available) return t.skip(`no redis-server at ${url}`)
+
+    const config = { requests: 5, window: 60 * 1000 }
+    const results = await Promise.all(Array.from({ length: 20 }, () => store.hit('test:concurrent', config)))
+
+    assert.equal(results.filter(result => result.success).length, 5)
+  })
+
+  it('frees slots once requests leave the window', async (t) => {
+    if (!available) return t.skip(`no redis-server at ${url}`)
+
+    const config = { requests: 1, window: 200 }
+    assert.equal((await store.hit('test:slide', config)).success, true)
+    assert.equal((await store.hit('test:slide', config)).success, false)
+
+    await new Promise(resolve => setTimeout(resolve, 250))
+    assert.equal((await store.hit('test:slide', config)).success, true)
+  })
+
+  it('peeks without recording, and resets', async (t) => {
+    if (!available) return t.skip(`no redis-server at ${url}`)
+
+    const config = { requests: 2, window: 60 * 1000 }
+    assert.equal(await store.peek('test:peek', config), null)
+
+    await store.hit('test:peek', config)
+    assert.equal((await store.peek('test:peek', config))?.remaining, 1)
+    assert.equal((await store.peek('test:peek', config))?.remaining, 1)
+
+    await store.reset('test:peek')
+    assert.equal(await store.peek('test:peek', config), null)
+  })
+})
@@ -0,0 +1,256 @@
+/**
+ * Minimal Redis Client
+ *
+ * Speaks RESP2 over a single TCP or TLS connection to any Redis-compatible
+ * server (Redis, Valkey, KeyDB, Dragonfly). Commands are pipelined on the one
+ * socket and replies are matched to them in order. It only covers what the
+ * rate limiter needs, so the default in-memory setup pulls in no extra
+ * packages.
+ *
+ * Server-only: uses Node's net and tls modules, so it can't run in middleware
+ * or the browser.
+ *
+ * @fileoverview RESP client for Redis-compatible servers
+ */
+
+import net from 'net'
+import tls from 'tls'
+
+/** A decoded RESP2 reply */
+export type RedisReply = string | number | null | RedisReply[]
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void
+  reject: (error: Error) => void
+}
+
+/** A reply still being read; `undefined` means more bytes are needed */
+type ParseResult = { reply: RedisReply | Error; offset: number } | undefined
+
+const CONNECT_TIMEOUT = 2000
+const COMMAND_TIMEOUT = 2000
+
+/**
+ * Encodes a command as a RESP array of bulk strings
+ */
+function encodeCommand(args: Array<string | number>): string {
+  let command = `*${args.length}\r\n`
+  for (const arg of args) {
+    const value = String(arg)
+    command += `$${Buffer.byteLength(value)}\r\n${value}\r\n`
+  }
+  return command
+}
+
+/**
+ * Reads one reply from `buffer` starting at `offset`
+ *
+ * Error replies come back as Error values rather than being thrown. An array
+ * holding an error (from a pipeline or script) is still read to its end, then
+ * reported as its first error.
+ */
+function parseReply(buffer: Buffer, offset: number): ParseResult {
+  const lineEnd = buffer.indexOf('\r\n', offset)
+  if (lineEnd === -1) return undefined
+
+  const type = String.fromCharCode(buffer[offset])
+  const line = buffer.toString('utf8', offset + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (type) {
+    case '+':
+      return { reply: line, offset: next }
+    case '-':
+      return { reply: new Error(line), offset: next }
+    case ':':
+      return { reply: Number(line), offset: next }
+    case '$': {
+      const length = Number(line)
+      if (length === -1) return { reply: null, offset: next }
+      if (buffer.length < next + length + 2) return undefined
+      return { reply: buffer.toString('utf8', next, next + length), offset: next + length + 2 }
+    }
+    case '*': {
+      const count = Number(line)
+      if (count === -1) return { reply: null, offset: next }
+
+      // Read the whole array even after an error element, so the bytes that
+      // follow are matched to the next command
+      const items: RedisReply[] = []
+      let firstError: Error | null = null
+      let position = next
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position)
+        if (!item) return undefined
+        if (item.reply instanceof Error) {
+          firstError ??= item.reply
+        } else {
+          items.push(item.reply)
+        }
+        position = item.offset
+      }
+      return { reply: firstError ?? items, offset: position }
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type: ${type}`)
+  }
+}
+
+/**
+ * Lazily connected client for one Redis URL
+ *
+ * Accepts `redis://` and `rediss://` (TLS) URLs with an optional username,
+ * password and database number, e.g. `redis://:secret@localhost:6379/1`.
+ * A dropped connection fails the commands in flight and the next command
+ * reconnects.
+ */
+export class RedisClient {
+  private readonly url: URL
+  private socket: net.Socket | null = null
+  private connecting: Promise<net.Socket> | null = null
+  private buffer: Buffer = Buffer.alloc(0)
+  private pending: PendingCommand[] = []
+
+  constructor(url: string) {
+    this.url = new URL(url)
+    if (this.url.protocol !== 'redis:' && this.url.protocol !== 'rediss:') {
+      throw new Error('Redis URL must start with redis:// or rediss://')
+    }
+  }
+
+  /**
+   * Sends one command and resolves with its reply
+   * @throws Error if the server returns an error reply, the connection fails
+   *   or no reply arrives within the command timeout
+   */
+  async command(...args: Array<string | number>): Promise<RedisReply> {
+    const socket = await this.connect()
+    return this.send(socket, args)
+  }
+
+  /** Closes the connection; the next command opens a new one */
+  disconnect(): void {
+    this.socket?.destroy()
+    this.socket = null
+  }
+
+  private send(socket: net.Socket, args: Array<string | number>): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // Replies are matched by position, so a lost reply leaves the
+        // connection unusable
+        this.fail(new Error('Redis command timed out'))
+      }, COMMAND_TIMEOUT)
+
+      this.pending.push({
+        resolve: reply => {
+          clearTimeout(timer)
+          resolve(reply)
+        },
+        reject: error => {
+          clearTimeout(timer)
+          reject(error)
+        }
+      })
+      socket.write(encodeCommand(args))
+    })
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket)
+    if (this.connecting) return this.connecting
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const port = Number(this.url.port) || 6379
+      const host = this.url.hostname || 'localhost'
+      const useTls = this.url.protocol === 'rediss:'
+
+      const socket = useTls
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port })
+
+      const timer = setTimeout(() => {
+        socket.destroy(new Error('Redis connection timed out'))
+      }, CONNECT_TIMEOUT)
+
+      socket.setNoDelay(true)
+      socket.on('data', chunk => this.onData(chunk))
+      socket.on('close', () => {
+        if (this.socket === socket) this.socket = null
+        this.fail(new Error('Redis connection closed'))
+      })
+      socket.once('error', error => {
+        clearTimeout(timer)
+        this.connecting = null
+        reject(error)
+      })
+      socket.once(useTls ? 'secureConnect' : 'connect', async () => {
+        clearTimeout(timer)
+        // Keep later socket errors from crashing the process; 'close' follows them
+        socket.on('error', error => console.error('Redis connection error:', error))
+
+        try {
+          await this.handshake(socket)
+          this.socket = socket
+          resolve(socket)
+        } catch (error) {
+          socket.destroy()
+          reject(error)
+        } finally {
+          this.connecting = null
+        }
+      })
+    })
+
+    return this.connecting
+  }
+
+  /** Authenticates and selects the database from the URL */
+  private async handshake(socket: net.Socket): Promise<void> {
+    const username = decodeURIComponent(this.url.username)
+    const password = decodeURIComponent(this.url.password)
+    if (password) {
+      await this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password])
+    }
+
+    const database = this.url.pathname.slice(1)
+    if (database) {
+      await this.send(socket, ['SELECT', database])
+    }
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk
+
+    let offset = 0
+    while (offset < this.buffer.length) {
+      let parsed: ParseResult
+      try {
+        parsed = parseReply(this.buffer, offset)
+      } catch (error) {
+        this.fail(error instanceof Error ? error : new Error(String(error)))
+        return
+      }
+      if (!parsed) break
+
+      offset = parsed.offset
+      const command = this.pending.shift()
+      if (parsed.reply instanceof Error) {
+        command?.reject(parsed.reply)
+      } else {
+        command?.resolve(parsed.reply)
+      }
+    }
+
+    this.buffer = this.buffer.subarray(offset)
+  }
+
+  /** Fails every command in flight and drops the connection */
+  private fail(error: Error): void {
+    const pending = this.pending
+    this.pending = []
+    this.buffer = Buffer.alloc(0)
+    pending.forEach(command => command.reject(error))
+    this.disconnect()
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Rate Limit Responses for API Route Handlers
+ *
+ * The poll service applies the limits in RATE_LIMITS for routes and server
+ * actions alike and hands back the caller's rate limit state. These helpers
+ * turn that state into HTTP: every response gets the X-RateLimit-* headers;
+ * refused requests get a 429 with an ApiError body and Retry-After.
+ *
+ * @fileoverview Rate limit headers and 429 responses for route handlers
+ */
+
+import { NextResponse } from 'next/server'
+import { rateLimitHeaders, type RateLimitResult } from './rate-limit'
+import type { ApiError } from './types'
+
+/**
+ * Sets the X-RateLimit-* headers on a response
+ * @param response - Response to decorate
+ * @param rateLimit - Rate limit state from the service, if it was checked
+ * @returns The same response
+ */
+export function withRateLimitHeaders<R extends Response>(response: R, rateLimit?: RateLimitResult): R {
+  if (rateLimit) {
+    Object.entries(rateLimitHeaders(rateLimit)).forEach(([name, value]) => response.headers.set(name, value))
+  }
+  return response
+}
+
+/**
+ * Builds the 429 response for a caller over the limit
+ * @param rateLimit - The refused rate limit result
+ * @returns ApiError response with RATE_LIMITED and the retry delay
+ *
+ * @example
+ * ```ts
+ * if (result.error.code === 'RATE_LIMITED' && result.rateLimit) {
+ *   return rateLimitedResponse(result.rateLimit)
+ * }
+ * ```
+ */
+export function rateLimitedResponse(rateLimit: RateLimitResult): NextResponse<ApiError> {
+  const headers = rateLimitHeaders(rateLimit)
+  const error: ApiError = {
+    message: 'Too many requests. Please try again later.',
+    code: 'RATE_LIMITED',
+    details: { limit: rateLimit.limit, retryAfter: Number(headers['Retry-After']) }
+  }
+  return NextResponse.json(error, { status: 429, headers })
+}
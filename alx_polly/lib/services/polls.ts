@@ -0,0 +1,953 @@
+/**
+ * Poll Service
+ *
+ * The one code path for creating, editing and deleting polls, and voting. The server
+ * actions in lib/actions.ts and the REST routes under app/api both call these
+ * functions, so a poll created or a vote cast through the API gets the same
+ * validation, sanitization, rate limiting and error mapping as one made in
+ * the UI. Also serves the poll and ballot reads of the /api/v1 API. Created
+ * polls, cast votes and deleted polls are reported to the owner's webhooks.
+ *
+ * Functions never throw: they return a ServiceResult whose error is a
+ * PollError or VoteError with a code, plus the rate limit state so routes can
+ * send the X-RateLimit-* headers. Callers are identified from the session, or
+ * from the access token of an API key's owner, never from a user ID passed in
+ * by the client.
+ *
+ * Not a 'use server' module: only the wrappers in lib/actions.ts are callable
+ * from the browser.
+ *
+ * @fileoverview Shared poll and vote operations for actions and routes
+ */
+
+import { headers } from 'next/headers'
+import { revalidatePath } from 'next/cache'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServerSupabaseClient } from '../supabase-server'
+import { ratelimit, getClientIPFromHeaders, type RateLimitResult } from '../rate-limit'
+import { mapPollError, mapVoteError, logError } from '../error-utils'
+import { assertMfaVerified } from '../mfa'
+import { getAnonymousVoter, hashVoterIp } from '../anonymous-voter'
+import { getIneligibilityMessage } from '../utils'
+import { calculateInstantRunoff, groupRankedBallots, type InstantRunoffResult } from '../vote-utils'
+import { queueWebhookEvent } from '../webhooks'
+import {
+  PollCreationSchema,
+  PollUpdateSchema,
+  VoteSubmissionSchema,
+  InviteTokenSchema,
+  sanitizeText,
+  sanitizeHtml
+} from '../validation-utils'
+import type { BasePoll, PollError, VoteError, PollInviteStatus, PollOptionResult, VoteEligibilityStatus, VotingMethod } from '../types'
+
+/** Outcome of a service call, with the caller's rate limit state when it was checked */
+export type ServiceResult<T, E extends PollError | VoteError> =
+  | { success: true; data: T; rateLimit?: RateLimitResult }
+  | { success: false; error: E; rateLimit?: RateLimitResult }
+
+/** HTTP status for each PollError code, for the REST routes */
+export const POLL_ERROR_STATUS: Record<NonNullable<PollError['code']>, number> = {
+  VALIDATION_ERROR: 400,
+  UNAUTHENTICATED: 401,
+  UNAUTHORIZED: 403,
+  POLL_NOT_FOUND: 404,
+  OPTIONS_HAVE_VOTES: 409,
+  RATE_LIMITED: 429,
+  CREATION_FAILED: 500
+}
+
+/** HTTP status for each VoteError code, for the REST routes */
+export const VOTE_ERROR_STATUS: Record<NonNullable<VoteError['code']>, number> = {
+  VALIDATION_ERROR: 400,
+  INVALID_OPTION: 400,
+  UNAUTHENTICATED: 401,
+  NOT_ELIGIBLE: 403,
+  INVITE_INVALID: 403,
+  POLL_NOT_STARTED: 403,
+  POLL_ENDED: 403,
+  POLL_NOT_FOUND: 404,
+  ALREADY_VOTED: 409,
+  VOTES_LOCKED: 409,
+  RATE_LIMITED: 429,
+  SUBMISSION_FAILED: 500
+}
+
+/** Acts for an API key's owner instead of the cookie session */
+export interface ServiceAuth {
+  /** Supabase access token from authenticateApiKey */
+  accessToken: string
+}
+
+/** A poll with its tallies */
+export interface PollResults {
+  poll: BasePoll
+  options: PollOptionResult[]
+  /** Ballots counted; on ranked polls, one per ballot */
+  totalVotes: number
+  /** Instant-runoff count, for ranked-choice polls only */
+  runoff: InstantRunoffResult | null
+}
+
+/** A ballot to cast or change */
+export interface BallotInput {
+  pollId: string
+  /** Chosen options; for ranked-choice polls, in preference order */
+  optionIds: string[]
+  /** Invite token, required to vote on someone else's private poll */
+  inviteToken?: string | null
+}
+
+/** Poll settings the voting functions work with */
+interface VotablePoll {
+  id: string
+  title: string
+  created_by: string
+  allow_multiple_selections: boolean
+  voting_method: VotingMethod
+  lock_votes: boolean
+}
+
+/** Why a private poll invite can't be used, worded for the voter */
+const INVITE_STATUS_ERRORS: Record<Exclude<PollInviteStatus, 'valid'>, string> = {
+  invalid: 'Invalid invite link',
+  revoked: 'This invite link has been revoked',
+  expired: 'This invite link has expired',
+  used_up: 'This invite link has reached its usage limit'
+}
+
+/**
+ * Returns the invite token if it is well-formed, so malformed values never reach the database
+ */
+export function parseInviteToken(inviteToken: string | null | undefined): string | null {
+  if (!inviteToken) return null
+  const result = InviteTokenSchema.safeParse(inviteToken)
+  return result.success ? result.data : null
+}
+
+/**
+ * Parses an optional scheduled start time
+ * @param startsAt - ISO date string, or empty to open the poll immediately
+ * @param endDate - Parsed end date, if any, which must come after the start
+ * @returns The start date, or null when the poll opens immediately
+ * @throws Error if the date is invalid or not before the end date
+ */
+export function parseStartsAt(startsAt: string | null | undefined, endDate: Date | null): Date | null {
+  if (!startsAt) return null
+
+  const parsed = new Date(startsAt)
+  if (Number.isNaN(parsed.getTime())) {
+    throw new Error('Invalid start date')
+  }
+  if (endDate && endDate <= parsed) {
+    throw new Error('End date must be after the start date')
+  }
+
+  return parsed
+}
+
+/**
+ * Returns the signed-in user, or null for anonymous callers
+ */
+async function getCurrentUser(supabase: SupabaseClient) {
+  const { data: { user }, error } = await supabase.auth.getUser()
+  return error ? null : user
+}
+
+/**
+ * Applies a RATE_LIMITS entry to the caller: per account when signed in,
+ * per client IP otherwise
+ */
+function limitCaller(operation: string, userId: string | undefined, clientIP: string): Promise<RateLimitResult> {
+  return ratelimit.limit(`${operation}:${userId ? `user:${userId}` : `ip:${clientIP}`}`)
+}
+
+/**
+ * Joins zod issues into the "Validation failed: ..." message the error mappers recognise
+ */
+function validationError(issues: Array<{ path: PropertyKey[]; message: string }>): Error {
+  const errorMessage = issues
+    .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+    .join(', ')
+  return new Error(`Validation failed: ${errorMessage}`)
+}
+
+/**
+ * Loads a poll and checks that the voter may vote on it right now
+ *
+ * Shared by castVote, changeVote and retractVote so all three refuse for the
+ * same reasons: the poll is missing, closed or not open yet, private without a
+ * usable invite, or the voter doesn't meet its eligibility rule.
+ *
+ * @returns The poll, and a Supabase client that sends the invite token
+ * @throws Error describing why the voter can't vote
+ */
+async function loadPollForVoting(
+  pollId: string,
+  userId: string | undefined,
+  inviteToken: string | null | undefined,
+  auth?: ServiceAuth
+): Promise<{ supabase: SupabaseClient; poll: VotablePoll }> {
+  const validatedInviteToken = parseInviteToken(inviteToken)
+  if (inviteToken && !validatedInviteToken) {
+    throw new Error(INVITE_STATUS_ERRORS.invalid)
+  }
+
+  const supabase = await createServerSupabaseClient({ inviteToken: validatedInviteToken, accessToken: auth?.accessToken })
+
+  // Check if poll exists and is active
+  const { data: poll, error: pollError } = await supabase
+    .from('polls')
+    .select('id, title, created_by, allow_multiple_selections, voting_method, lock_votes, is_active, starts_at, end_date, is_public, eligible_email_domain')
+    .eq('id', pollId)
+    .single()
+
+  if (pollError || !poll) {
+    throw new Error('Poll not found or no longer available')
+  }
+
+  // Someone else's private poll needs a usable invite. RLS and the invite
+  // trigger enforce this too; checking here gives the voter a clear reason.
+  if (!poll.is_public && poll.created_by !== userId) {
+    if (!validatedInviteToken) {
+      throw new Error('This private poll requires an invite link')
+    }
+
+    const { data: inviteStatus, error: inviteError } = await supabase.rpc('get_poll_invite_status', {
+      poll_uuid: pollId,
+      invite_token: validatedInviteToken
+    })
+
+    if (inviteError) {
+      console.error('Invite check error:', inviteError)
+      throw new Error('Error checking invite link')
+    }
+
+    if (inviteStatus !== 'valid') {
+      throw new Error(INVITE_STATUS_ERRORS[inviteStatus as Exclude<PollInviteStatus, 'valid'>] ?? INVITE_STATUS_ERRORS.invalid)
+    }
+  }
+
+  if (!poll.is_active) {
+    throw new Error('This poll is inactive and does not accept votes')
+  }
+
+  // Check if voting has opened
+  if (poll.starts_at && new Date(poll.starts_at) > new Date()) {
+    throw new Error(`This poll has not started yet. Voting opens ${new Date(poll.starts_at).toUTCString()}`)
+  }
+
+  // Check if poll has ended
+  if (poll.end_date && new Date(poll.end_date) < new Date()) {
+    throw new Error('This poll has ended and no longer accepts votes')
+  }
+
+  // Check the poll's eligibility rule (domain, allow-list or signed-in users)
+  // The function checks the session's own user, which is userId
+  const { data: eligibility, error: eligibilityError } = await supabase.rpc('check_vote_eligibility', {
+    poll_uuid: pollId
+  })
+
+  if (eligibilityError) {
+    console.error('Eligibility check error:', eligibilityError)
+    throw new Error('Error checking voting eligibility')
+  }
+
+  if (eligibility !== 'eligible') {
+    throw new Error(getIneligibilityMessage(eligibility as Exclude<VoteEligibilityStatus, 'eligible'>, poll.eligible_email_domain))
+  }
+
+  return { supabase, poll }
+}
+
+/**
+ * Checks that a ballot fits the poll's selection rule and only uses its options
+ * @throws Error if a single-choice poll gets several options, or an option isn't in the poll
+ */
+async function validateBallotOptions(supabase: SupabaseClient, poll: VotablePoll, optionIds: string[]): Promise<void> {
+  // Ranked-choice ballots list several options in preference order
+  if (poll.voting_method !== 'ranked_choice' && !poll.allow_multiple_selections && optionIds.length > 1) {
+    throw new Error('This poll only allows one selection')
+  }
+
+  const { data: options, error: optionsError } = await supabase
+    .from('poll_options')
+    .select('id')
+    .eq('poll_id', poll.id)
+    .in('id', optionIds)
+
+  if (optionsError || !options || options.length !== optionIds.length) {
+    throw new Error('Invalid poll options')
+  }
+}
+
+/**
+ * Turns a failed cast_ballot() call into the error shown to the voter
+ */
+function voteInsertError(voteError: { code?: string; message?: string }): Error {
+  // Raised by the invite trigger when the last use was taken meanwhile
+  if (voteError.message?.includes('Invite link')) {
+    return new Error(INVITE_STATUS_ERRORS.used_up)
+  }
+  // A unique index caught a duplicate submitted at the same time
+  if (voteError.code === '23505') {
+    return new Error('You have already voted for this option')
+  }
+  // Raised by cast_ballot() with a message meant for the voter
+  if (voteError.code === 'P0001' && voteError.message) {
+    return new Error(voteError.message)
+  }
+  return new Error('Failed to submit vote. Please try again.')
+}
+
+/**
+ * Loads the signed-in voter's current ballot on a poll, in preference order
+ * @throws Error if the voter hasn't voted on the poll
+ */
+async function loadOwnBallot(supabase: SupabaseClient, pollId: string, userId: string): Promise<string[]> {
+  const { data: ballot, error } = await supabase
+    .from('votes')
+    .select('option_id')
+    .eq('poll_id', pollId)
+    .eq('user_id', userId)
+    .order('rank', { ascending: true, nullsFirst: false })
+
+  if (error) {
+    console.error('Vote check error:', error)
+    throw new Error('Error checking existing votes')
+  }
+
+  if (!ballot || ballot.length === 0) {
+    throw new Error('You have not voted on this poll yet')
+  }
+
+  return ballot.map(vote => vote.option_id)
+}
+
+/**
+ * Creates a poll owned by the signed-in user
+ *
+ * Validates and sanitizes the input with PollCreationSchema, then inserts the
+ * poll, its options and any email allow-list through create_poll_with_options(),
+ * so a failed insert leaves nothing behind.
+ *
+ * @param input - Poll data in the shape of PollCreationSchema
+ * @param auth - API key owner to act as; defaults to the cookie session
+ * @returns The new poll's ID, or a PollError
+ */
+export async function createPoll(input: unknown, auth?: ServiceAuth): Promise<ServiceResult<{ pollId: string }, PollError>> {
+  let rateLimit: RateLimitResult | undefined
+
+  try {
+    const supabase = await createServerSupabaseClient({ accessToken: auth?.accessToken })
+    const user = await getCurrentUser(supabase)
+
+    rateLimit = await limitCaller('create-poll', user?.id, getClientIPFromHeaders(await headers()))
+    if (!rateLimit.success) {
+      throw new Error('Too many poll creation attempts. Please try again later.')
+    }
+
+    if (!user) {
+      throw new Error('You must be logged in to create a poll')
+    }
+
+    const validationResult = PollCreationSchema.safeParse(input)
+    if (!validationResult.success) {
+      throw validationError(validationResult.error.issues)
+    }
+
+    const {
+      title, description, options, allowMultipleSelections, votingMethod, isPublic, allowAnonymousVotes, lockVotes,
+      startsAt, endDate, eligibility, eligibleEmailDomain, eligibleEmails
+    } = validationResult.data
+
+    // Additional server-side validation
+    let parsedEndDate = null
+    if (endDate) {
+      parsedEndDate = new Date(endDate)
+      if (parsedEndDate <= new Date()) {
+        throw new Error('End date must be in the future')
+      }
+    }
+
+    const parsedStartsAt = parseStartsAt(startsAt, parsedEndDate)
+
+    // Sanitize inputs
+    const sanitizedTitle = sanitizeText(title)
+    const sanitizedDescription = description ? sanitizeHtml(description) : null
+    const sanitizedOptions = options.map(opt => ({ text: sanitizeText(opt.text) }))
+
+    // Ensure user profile exists (create if doesn't exist)
+    const { error: profileError } = await supabase
+      .from('profiles')
+      .upsert({
+        id: user.id,
+        email: user.email,
+        full_name: user.user_metadata?.full_name || user.email?.split('@')[0] || 'User'
+      }, {
+        onConflict: 'id'
+      })
+
+    if (profileError) {
+      console.error('Error ensuring profile exists:', profileError)
+      // Continue anyway - the profile might already exist
+    }
+
+    // Inserts the poll, its options and any allow-list in one transaction
+    const { data: pollId, error: pollError } = await supabase.rpc('create_poll_with_options', {
+      poll_title: sanitizedTitle,
+      option_texts: sanitizedOptions.map(option => option.text),
+      poll_description: sanitizedDescription,
+      multiple_selections: allowMultipleSelections,
+      method: votingMethod,
+      public_poll: isPublic,
+      anonymous_votes: allowAnonymousVotes,
+      locked_votes: lockVotes,
+      opens_at: parsedStartsAt ? parsedStartsAt.toISOString() : null,
+      closes_at: parsedEndDate ? parsedEndDate.toISOString() : null,
+      eligibility_rule: eligibility,
+      email_domain: eligibility === 'email_domain' ? eligibleEmailDomain : null,
+      allowed_emails: eligibility === 'email_list' ? eligibleEmails ?? [] : null
+    })
+
+    if (pollError || !pollId) {
+      console.error('Error creating poll:', pollError)
+      // Messages raised by the function itself are meant for the user
+      throw new Error(pollError?.code === 'P0001' ? pollError.message : 'Failed to create poll. Please try again.')
+    }
+
+    revalidatePath('/polls')
+    revalidatePath(`/polls/${pollId}`)
+
+    await queueWebhookEvent('poll.created', { id: pollId as string, title: sanitizedTitle, created_by: user.id })
+
+    return { success: true, data: { pollId: pollId as string }, rateLimit }
+  } catch (error) {
+    logError(error, 'createPoll')
+    return { success: false, error: mapPollError(error), rateLimit }
+  }
+}
+
+/**
+ * Edits one of the signed-in user's polls and its options
+ *
+ * Validates and sanitizes the input with PollUpdateSchema, then writes the
+ * poll fields and the removed, reordered, reworded and added options through
+ * update_poll_with_options() in one transaction. Options with votes at any
+ * rank keep their text, and are only removed when `confirmRemoveVotedOptions`
+ * is set. A changed end date must be in the future, so ended polls stay
+ * editable. Closing the poll is reported to the owner's webhooks.
+ *
+ * @param pollId - UUID of the poll
+ * @param input - Poll data in the shape of PollUpdateSchema; `options` is in
+ *   the new display order and existing options are identified by `id`
+ * @param auth - API key owner to act as; defaults to the cookie session
+ * @returns The poll's ID, or a PollError
+ */
+export async function updatePoll(pollId: string, input: unknown, auth?: ServiceAuth): Promise<ServiceResult<{ pollId: string }, PollError>> {
+  let rateLimit: RateLimitResult | undefined
+
+  try {
+    const supabase = await createServerSupabaseClient({ accessToken: auth?.accessToken })
+    const user = await getCurrentUser(supabase)
+
+    rateLimit = await limitCaller('update-poll', user?.id, getClientIPFromHeaders(await headers()))
+    if (!rateLimit.success) {
+      throw new Error('Too many poll update attempts. Please try again later.')
+    }
+
+    if (!user) {
+      throw new Error('You must be logged in to edit a poll')
+    }
+
+    const pollIdResult = VoteSubmissionSchema.shape.pollId.safeParse(pollId)
+    if (!pollIdResult.success) {
+      throw new Error('Poll not found')
+    }
+
+    const validationResult = PollUpdateSchema.safeParse(input)
+    if (!validationResult.success) {
+      throw validationError(validationResult.error.issues)
+    }
+
+    const {
+      title, description, options, isPublic, isActive, exportVoterIdentity, allowAnonymousVotes, lockVotes,
+      startsAt, endDate, confirmRemoveVotedOptions
+    } = validationResult.data
+
+    // Verify the user owns this poll
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('id, created_by, is_active, end_date')
+      .eq('id', pollIdResult.data)
+      .single()
+
+    if (pollError || !poll) {
+      throw new Error('Poll not found')
+    }
+
+    if (poll.created_by !== user.id) {
+      throw new Error('You do not have permission to edit this poll')
+    }
+
+    // Only a changed end date has to be in the future, so ended polls stay editable
+    let parsedEndDate = null
+    if (endDate) {
+      parsedEndDate = new Date(endDate)
+      if (Number.isNaN(parsedEndDate.getTime())) {
+        throw new Error('Invalid end date')
+      }
+      const isUnchanged = poll.end_date !== null && parsedEndDate.getTime() === new Date(poll.end_date).getTime()
+      if (!isUnchanged && parsedEndDate <= new Date()) {
+        throw new Error('End date must be in the future')
+      }
+    }
+
+    const parsedStartsAt = parseStartsAt(startsAt, parsedEndDate)
+    const sanitizedTitle = sanitizeText(title)
+
+    // Writes the poll and its options in one transaction. The function locks
+    // options with votes at any rank, since poll_results only counts first
+    // preferences on ranked-choice polls
+    const { error: updateError } = await supabase.rpc('update_poll_with_options', {
+      poll_uuid: poll.id,
+      poll_title: sanitizedTitle,
+      option_ids: options.map(option => option.id ?? null),
+      option_texts: options.map(option => sanitizeText(option.text)),
+      poll_description: description ? sanitizeHtml(description) : null,
+      public_poll: isPublic,
+      active_poll: isActive ?? null,
+      export_identity: exportVoterIdentity ?? null,
+      anonymous_votes: allowAnonymousVotes ?? null,
+      locked_votes: lockVotes ?? null,
+      opens_at: parsedStartsAt ? parsedStartsAt.toISOString() : null,
+      closes_at: parsedEndDate ? parsedEndDate.toISOString() : null,
+      confirm_remove_voted: confirmRemoveVotedOptions
+    })
+
+    if (updateError) {
+      console.error('Error updating poll:', updateError)
+      // Messages raised by the function itself are meant for the user
+      throw new Error(updateError.code === 'P0001' ? updateError.message : 'Failed to update poll. Please try again.')
+    }
+
+    revalidatePath('/polls')
+    revalidatePath(`/polls/${poll.id}`)
+    revalidatePath('/dashboard')
+
+    if (isActive === false && poll.is_active) {
+      await queueWebhookEvent('poll.closed', { id: poll.id, title: sanitizedTitle, created_by: poll.created_by }, { reason: 'closed_by_owner' })
+    }
+
+    return { success: true, data: { pollId: poll.id as string }, rateLimit }
+  } catch (error) {
+    logError(error, 'updatePoll')
+    return { success: false, error: mapPollError(error), rateLimit }
+  }
+}
+
+/**
+ * Casts a ballot for the signed-in user or the anonymous visitor
+ *
+ * Anonymous voters are told apart by their signed voter cookie, issued on
+ * their first vote. The ballot is written by cast_ballot(), which enforces the
+ * selection rule and refuses repeat ballots in the same transaction:
+ * single-choice and ranked polls take one ballot per voter (changing it goes
+ * through changeVote), and a locked multiple-choice poll refuses added choices.
+ *
+ * @param ballot - Poll, chosen options and optional invite token
+ * @param auth - API key owner to act as; defaults to the cookie session
+ * @returns Success, or a VoteError
+ */
+export async function castVote(ballot: BallotInput, auth?: ServiceAuth): Promise<ServiceResult<{ success: true }, VoteError>> {
+  let rateLimit: RateLimitResult | undefined
+
+  try {
+    const authClient = await createServerSupabaseClient({ accessToken: auth?.accessToken })
+    const user = await getCurrentUser(authClient)
+    const userId = user?.id
+    const clientIP = getClientIPFromHeaders(await headers())
+
+    rateLimit = await limitCaller('vote', userId, clientIP)
+    if (!rateLimit.success) {
+      throw new Error('Too many voting attempts. Please try again later.')
+    }
+
+    const validationResult = VoteSubmissionSchema.safeParse({
+      pollId: ballot.pollId,
+      optionIds: ballot.optionIds
+    })
+
+    if (!validationResult.success) {
+      throw validationError(validationResult.error.issues)
+    }
+
+    const { pollId, optionIds } = validationResult.data
+
+    // Checked here too so the voter gets a clear reason (invite, schedule, eligibility)
+    const { supabase, poll } = await loadPollForVoting(pollId, userId, ballot.inviteToken, auth)
+
+    // Anonymous voters are told apart by their signed voter cookie rather than
+    // their IP, so people behind one NAT can each vote
+    const anonymousVoter = userId ? null : await getAnonymousVoter(clientIP)
+
+    // Checks the selection rule and earlier votes and inserts the ballot in one transaction
+    const { error: voteError } = await supabase.rpc('cast_ballot', {
+      poll_uuid: pollId,
+      option_uuids: optionIds,
+      voter_token_hash: anonymousVoter?.token ?? null,
+      ip_hash: anonymousVoter?.ipHash ?? hashVoterIp(clientIP)
+    })
+
+    if (voteError) {
+      console.error('Vote submission error:', voteError)
+      throw voteInsertError(voteError)
+    }
+
+    revalidatePath(`/polls/${pollId}`)
+    revalidatePath('/polls')
+
+    // Voter identities stay private; receivers can fetch tallies from /api/v1
+    await queueWebhookEvent('vote.cast', poll, { optionIds, voter: userId ? 'user' : 'anonymous' })
+
+    return { success: true, data: { success: true }, rateLimit }
+  } catch (error) {
+    logError(error, 'castVote')
+    return { success: false, error: mapVoteError(error), rateLimit }
+  }
+}
+
+/**
+ * Replaces the signed-in user's ballot with a new one
+ *
+ * Runs the same poll checks as castVote, then calls change_ballot(), which
+ * swaps the ballot and records the change in vote_history in one transaction
+ * without charging another invite use. An unchanged ballot is a no-op.
+ *
+ * @param ballot - Poll, new selection and optional invite token
+ * @param auth - API key owner to act as; defaults to the cookie session
+ * @returns Success, or a VoteError
+ */
+export async function changeVote(ballot: BallotInput, auth?: ServiceAuth): Promise<ServiceResult<{ success: true }, VoteError>> {
+  let rateLimit: RateLimitResult | undefined
+
+  try {
+    const authClient = await createServerSupabaseClient({ accessToken: auth?.accessToken })
+    const user = await getCurrentUser(authClient)
+    const clientIP = getClientIPFromHeaders(await headers())
+
+    rateLimit = await limitCaller('change-vote', user?.id, clientIP)
+    if (!rateLimit.success) {
+      throw new Error('Too many voting attempts. Please try again later.')
+    }
+
+    const validationResult = VoteSubmissionSchema.safeParse({
+      pollId: ballot.pollId,
+      optionIds: ballot.optionIds
+    })
+
+    if (!validationResult.success) {
+      throw validationError(validationResult.error.issues)
+    }
+
+    const { pollId, optionIds } = validationResult.data
+
+    if (!user) {
+      throw new Error('You must be logged in to change your vote')
+    }
+
+    const { supabase, poll } = await loadPollForVoting(pollId, user.id, ballot.inviteToken, auth)
+
+    if (poll.lock_votes) {
+      throw new Error('Votes on this poll are locked once cast')
+    }
+
+    await validateBallotOptions(supabase, poll, optionIds)
+
+    const previousOptionIds = await loadOwnBallot(supabase, pollId, user.id)
+
+    // Nothing to do if the ballot is the same (order matters on ranked polls)
+    const isRankedChoice = poll.voting_method === 'ranked_choice'
+    const isUnchanged = previousOptionIds.length === optionIds.length && (isRankedChoice
+      ? previousOptionIds.every((id, index) => id === optionIds[index])
+      : previousOptionIds.every(id => optionIds.includes(id)))
+
+    if (isUnchanged) {
+      return { success: true, data: { success: true }, rateLimit }
+    }
+
+    // Swaps the ballot and records the change in one transaction
+    const { error: changeError } = await supabase.rpc('change_ballot', {
+      poll_uuid: pollId,
+      option_uuids: optionIds,
+      ip_hash: hashVoterIp(clientIP)
+    })
+
+    if (changeError) {
+      console.error('Vote change error:', changeError)
+      throw new Error('Failed to change vote. Please try again.')
+    }
+
+    revalidatePath(`/polls/${pollId}`)
+    revalidatePath('/polls')
+
+    return { success: true, data: { success: true }, rateLimit }
+  } catch (error) {
+    logError(error, 'changeVote')
+    return { success: false, error: mapVoteError(error), rateLimit }
+  }
+}
+
+/**
+ * Withdraws the signed-in user's ballot from a poll
+ *
+ * Calls retract_ballot(), which deletes the votes and records the retraction
+ * in one transaction. Only possible while the poll is open and not locked.
+ *
+ * @param pollId - UUID of the poll
+ * @param inviteToken - Optional invite token for a private poll
+ * @param auth - API key owner to act as; defaults to the cookie session
+ * @returns Success, or a VoteError
+ */
+export async function retractVote(pollId: string, inviteToken?: string | null, auth?: ServiceAuth): Promise<ServiceResult<{ success: true }, VoteError>> {
+  let rateLimit: RateLimitResult | undefined
+
+  try {
+    const authClient = await createServerSupabaseClient({ accessToken: auth?.accessToken })
+    const user = await getCurrentUser(authClient)
+
+    rateLimit = await limitCaller('change-vote', user?.id, getClientIPFromHeaders(await headers()))
+    if (!rateLimit.success) {
+      throw new Error('Too many voting attempts. Please try again later.')
+    }
+
+    const pollIdResult = VoteSubmissionSchema.shape.pollId.safeParse(pollId)
+    if (!pollIdResult.success) {
+      throw validationError(pollIdResult.error.issues)
+    }
+
+    if (!user) {
+      throw new Error('You must be logged in to retract your vote')
+    }
+
+    const { supabase, poll } = await loadPollForVoting(pollIdResult.data, user.id, inviteToken, auth)
+
+    if (poll.lock_votes) {
+      throw new Error('Votes on this poll are locked once cast')
+    }
+
+    await loadOwnBallot(supabase, poll.id, user.id)
+
+    // Deletes the ballot and records the retraction in one transaction
+    const { error: retractError } = await supabase.rpc('retract_ballot', {
+      poll_uuid: poll.id
+    })
+
+    if (retractError) {
+      console.error('Error retracting vote:', retractError)
+      throw new Error('Failed to retract vote. Please try again.')
+    }
+
+    revalidatePath(`/polls/${poll.id}`)
+    revalidatePath('/polls')
+
+    return { success: true, data: { success: true }, rateLimit }
+  } catch (error) {
+    logError(error, 'retractVote')
+    return { success: false, error: mapVoteError(error), rateLimit }
+  }
+}
+
+/**
+ * Deletes one of the signed-in user's polls; the database cascades to its
+ * options, votes and invites. A cookie session needs the two-factor challenge
+ * when the account has it turned on.
+ *
+ * @param pollId - UUID of the poll
+ * @param auth - API key owner to act as; defaults to the cookie session
+ * @returns Success, or a PollError
+ */
+export async function deletePoll(pollId: string, auth?: ServiceAuth): Promise<ServiceResult<{ success: true }, PollError>> {
+  let rateLimit: RateLimitResult | undefined
+
+  try {
+    const supabase = await createServerSupabaseClient({ accessToken: auth?.accessToken })
+    const user = await getCurrentUser(supabase)
+
+    rateLimit = await limitCaller('delete-poll', user?.id, getClientIPFromHeaders(await headers()))
+    if (!rateLimit.success) {
+      throw new Error('Too many delete attempts. Please try again later.')
+    }
+
+    if (!user) {
+      throw new Error('You must be logged in to delete a poll')
+    }
+
+    // API keys only work if they were created from a two-factor session (keys
+    // made before it was turned on are revoked), so only cookie sessions are checked
+    if (!auth) {
+      await assertMfaVerified(supabase, user)
+    }
+
+    const pollIdResult = VoteSubmissionSchema.shape.pollId.safeParse(pollId)
+    if (!pollIdResult.success) {
+      throw new Error('Poll not found')
+    }
+
+    // Verify the user owns this poll
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('id, title, created_by')
+      .eq('id', pollIdResult.data)
+      .single()
+
+    if (pollError || !poll) {
+      throw new Error('Poll not found')
+    }
+
+    if (poll.created_by !== user.id) {
+      throw new Error('You can only delete your own polls')
+    }
+
+    const { error: deleteError } = await supabase
+      .from('polls')
+      .delete()
+      .eq('id', pollIdResult.data)
+
+    if (deleteError) {
+      console.error('Error deleting poll:', deleteError)
+      throw new Error('Failed to delete poll. Please try again.')
+    }
+
+    revalidatePath('/polls')
+    revalidatePath('/dashboard')
+
+    await queueWebhookEvent('poll.deleted', poll)
+
+    return { success: true, data: { success: true }, rateLimit }
+  } catch (error) {
+    logError(error, 'deletePoll')
+    return { success: false, error: mapPollError(error), rateLimit }
+  }
+}
+
+/**
+ * Loads a poll with its tallies, and the instant-runoff count on ranked polls
+ *
+ * RLS decides visibility: public polls, the caller's own polls, and private
+ * polls the invite token opens.
+ *
+ * @param pollId - UUID of the poll
+ * @param inviteToken - Optional invite token for a private poll
+ * @param auth - API key owner to act as; defaults to the cookie session
+ * @returns The poll and its results, or a PollError
+ */
+export async function getPollResults(pollId: string, inviteToken?: string | null, auth?: ServiceAuth): Promise<ServiceResult<PollResults, PollError>> {
+  try {
+    const pollIdResult = VoteSubmissionSchema.shape.pollId.safeParse(pollId)
+    if (!pollIdResult.success) {
+      throw new Error('Poll not found')
+    }
+
+    const supabase = await createServerSupabaseClient({ inviteToken: parseInviteToken(inviteToken), accessToken: auth?.accessToken })
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('id, title, description, is_active, is_public, created_at, starts_at, end_date, closed_at, created_by, allow_multiple_selections, voting_method, eligibility, allow_anonymous_votes, lock_votes')
+      .eq('id', pollIdResult.data)
+      .single()
+
+    if (pollError || !poll) {
+      throw new Error('Poll not found')
+    }
+
+    const { data: results, error: resultsError } = await supabase
+      .from('poll_results')
+      .select('option_id, option_text, order_index, vote_count, vote_percentage')
+      .eq('poll_id', poll.id)
+      .order('order_index', { ascending: true })
+
+    if (resultsError) {
+      console.error('Error fetching poll results:', resultsError)
+      throw new Error('Failed to load poll results. Please try again.')
+    }
+
+    const options: PollOptionResult[] = (results || []).map(result => ({
+      option_id: result.option_id,
+      option_text: result.option_text,
+      order_index: result.order_index,
+      vote_count: Number(result.vote_count) || 0,
+      vote_percentage: Number(result.vote_percentage) || 0
+    }))
+
+    // Ranked-choice results need the individual ballots for the instant-runoff count
+    let runoff: InstantRunoffResult | null = null
+    if (poll.voting_method === 'ranked_choice') {
+      const { data: ballotRows, error: ballotsError } = await supabase
+        .from('votes')
+        .select('ballot_id, option_id, rank')
+        .eq('poll_id', poll.id)
+        .not('ballot_id', 'is', null)
+
+      if (ballotsError) {
+        console.error('Error fetching ranked ballots:', ballotsError)
+        throw new Error('Failed to load poll results. Please try again.')
+      }
+
+      runoff = calculateInstantRunoff(options.map(option => option.option_id), groupRankedBallots(ballotRows || []))
+    }
+
+    return {
+      success: true,
+      data: {
+        poll,
+        options,
+        totalVotes: options.reduce((sum, option) => sum + option.vote_count, 0),
+        runoff
+      }
+    }
+  } catch (error) {
+    logError(error, 'getPollResults')
+    return { success: false, error: mapPollError(error) }
+  }
+}
+
+/**
+ * Loads the signed-in caller's ballot on a poll
+ *
+ * @param pollId - UUID of the poll
+ * @param auth - API key owner to act as; defaults to the cookie session
+ * @returns Option IDs in preference order (empty if the caller hasn't voted), or a VoteError
+ */
+export async function getOwnBallot(pollId: string, auth?: ServiceAuth): Promise<ServiceResult<{ optionIds: string[] }, VoteError>> {
+  try {
+    const pollIdResult = VoteSubmissionSchema.shape.pollId.safeParse(pollId)
+    if (!pollIdResult.success) {
+      throw validationError(pollIdResult.error.issues)
+    }
+
+    const supabase = await createServerSupabaseClient({ accessToken: auth?.accessToken })
+    const user = await getCurrentUser(supabase)
+
+    if (!user) {
+      throw new Error('You must be logged in to see your vote')
+    }
+
+    const { data: ballot, error } = await supabase
+      .from('votes')
+      .select('option_id')
+      .eq('poll_id', pollIdResult.data)
+      .eq('user_id', user.id)
+      .order('rank', { ascending: true, nullsFirst: false })
+
+    if (error) {
+      console.error('Error fetching own ballot:', error)
+      throw new Error('Error checking existing votes')
+    }
+
+    return { success: true, data: { optionIds: (ballot || []).map(vote => vote.option_id) } }
+  } catch (error) {
+    logError(error, 'getOwnBallot')
+    return { success: false, error: mapVoteError(error) }
+  }
+}
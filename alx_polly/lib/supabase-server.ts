@@ -56,13 +56,25 @@ function validateServerEnvironment(): void {
   }
 }
 
+/** Per-request options for the server client */
+export interface ServerClientOptions {
+  /** Private poll invite token, sent as the x-poll-invite header the RLS policies read */
+  inviteToken?: string | null
+  /**
+   * Supabase access token to act as instead of the cookie session, e.g. one
+   * issued for an API key's owner
+   */
+  accessToken?: string | null
+}
+
 /**
  * Creates a secure server-side Supabase client with enhanced security
  * 
+ * @param options - Per-request options such as a poll invite token
  * @returns Configured Supabase client for server-side operations
  * @throws Error if environment variables are invalid or client creation fails
  */
-export async function createServerSupabaseClient(): Promise<SupabaseClient> {
+export async function createServerSupabaseClient(options: ServerClientOptions = {}): Promise<SupabaseClient> {
   try {
     validateServerEnvironment()
     
@@ -128,7 +140,10 @@ export async function createServerSupabaseClient(): Promise<SupabaseClient> {
         global: {
           headers: {
             'User-Agent': 'ALX-Polly-Server/2.0.0',
-            'X-Client-Info': 'supabase-js-server'
+            'X-Client-Info': 'supabase-js-server',
+            ...(options.inviteToken ? { 'X-Poll-Invite': options.inviteToken } : {}),
+            // Takes precedence over the session; auth.getUser() reads it too
+            ...(options.accessToken ? { Authorization: `Bearer ${options.accessToken}` } : {})
           }
         }
       }
@@ -13,6 +13,15 @@ export interface PollOption {
   voters?: string[];
 }
 
+// Plurality covers single and multiple choice polls; ranked choice uses instant-runoff
+export type VotingMethod = 'plurality' | 'ranked_choice';
+
+// Who may vote on a poll
+export type PollEligibility = 'anyone' | 'authenticated' | 'email_domain' | 'email_list';
+
+/** Result of check_vote_eligibility(): 'eligible', or why the voter isn't */
+export type VoteEligibilityStatus = 'eligible' | 'login_required' | 'email_unverified' | 'wrong_domain' | 'not_on_list';
+
 export interface BasePoll {
   id: string;
   title: string;
@@ -20,9 +29,26 @@ export interface BasePoll {
   is_active: boolean;
   is_public: boolean;
   created_at: string;
+  starts_at?: string;
   end_date?: string;
+  closed_at?: string;
   created_by: string;
   allow_multiple_selections: boolean;
+  voting_method: VotingMethod;
+  eligibility?: PollEligibility;
+  eligible_email_domain?: string | null;
+  allow_anonymous_votes?: boolean;
+  /** When true, voters can't change or retract a vote once it's cast */
+  lock_votes?: boolean;
+}
+
+// One option's tally, from the poll_results view (first preferences on ranked polls)
+export interface PollOptionResult {
+  option_id: string;
+  option_text: string;
+  order_index: number;
+  vote_count: number;
+  vote_percentage: number;
 }
 
 // Poll with statistics for dashboard
@@ -30,8 +56,116 @@ export interface PollWithStats extends BasePoll {
   option_count: number;
   total_votes: number;
   unique_voters: number;
+  creator_name?: string | null;
+  creator_avatar_url?: string | null;
 }
 
+// Name and avatar anyone can see, from the public_profiles view
+export interface PublicProfile {
+  id: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  /** Profile page details; null when the user has hidden their profile */
+  handle: string | null;
+  bio: string | null;
+  created_at: string | null;
+}
+
+// Saved poll setup used to prefill the create form
+export interface PollTemplate {
+  id: string;
+  name: string;
+  title: string;
+  description: string | null;
+  options: string[];
+  allow_multiple_selections: boolean;
+  voting_method: VotingMethod;
+  /** True for templates shipped with the app; these can't be deleted */
+  built_in?: boolean;
+  created_at?: string;
+}
+
+// Link that opens a private poll to anyone holding its token
+export interface PollInvite {
+  id: string;
+  poll_id: string;
+  token: string;
+  expires_at: string | null;
+  max_uses: number | null;
+  use_count: number;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+/** Result of get_poll_invite_status(); 'used_up' means the usage cap is reached */
+export type PollInviteStatus = 'valid' | 'revoked' | 'expired' | 'used_up' | 'invalid';
+
+// How many ballots on a poll were changed or retracted, from vote_history
+export interface VoteChangeStats {
+  changed: number;
+  retracted: number;
+}
+
+// What a public poll's link preview shows: the title and the leading options
+export interface PollPreview {
+  title: string;
+  description: string | null;
+  voting_method: VotingMethod;
+  totalVotes: number;
+  /** The leading options, most votes first */
+  topOptions: Pick<PollOption, 'option_id' | 'option_text' | 'vote_count' | 'vote_percentage'>[];
+  /** How many options didn't make it into topOptions */
+  otherOptionCount: number;
+}
+
+// What an API key may do: 'read' lists polls, results and own votes; 'write' creates and deletes
+export type ApiKeyScope = 'read' | 'write';
+
+// Key for the /api/v1 REST API; the key itself is only returned once, on creation
+export interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+// Poll events webhooks can subscribe to
+export type WebhookEvent = 'poll.created' | 'vote.cast' | 'poll.closed' | 'poll.deleted';
+
+// Outgoing webhook; without a poll_id it covers all of the owner's polls
+export interface Webhook {
+  id: string;
+  poll_id: string | null;
+  url: string;
+  /** Signing secret for the X-Polly-Signature header */
+  secret: string;
+  events: WebhookEvent[];
+  created_at: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// One attempt log entry per event sent to a webhook
+export interface WebhookDelivery {
+  id: string;
+  /** A WebhookEvent, or 'webhook.test' for test deliveries */
+  event: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  response_status: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+// Poll listing filters and sort orders
+export type PollListStatus = 'all' | 'active' | 'scheduled' | 'ended' | 'closing_soon';
+export type PollListSort = 'newest' | 'most_votes' | 'ending_soon';
+
 // Poll with options for voting/results
 export interface PollWithOptions extends BasePoll {
   options: PollOption[];
@@ -47,11 +181,12 @@ export interface PollData {
   description?: string;
   options: { text: string }[];
   allowMultipleSelections: boolean;
+  votingMethod: VotingMethod;
   isPublic: boolean;
   endDate?: string;
 }
 
-export type PollStatus = 'active' | 'inactive' | 'ended' | 'private';
+export type PollStatus = 'active' | 'scheduled' | 'inactive' | 'ended' | 'private';
 
 // =====================================================
 // ERROR HANDLING TYPES
@@ -72,12 +207,12 @@ export type AuthError = {
 
 export type PollError = {
   message: string;
-  code?: 'POLL_NOT_FOUND' | 'UNAUTHORIZED' | 'VALIDATION_ERROR' | 'CREATION_FAILED';
+  code?: 'POLL_NOT_FOUND' | 'UNAUTHENTICATED' | 'UNAUTHORIZED' | 'VALIDATION_ERROR' | 'CREATION_FAILED' | 'OPTIONS_HAVE_VOTES' | 'RATE_LIMITED';
 };
 
 export type VoteError = {
   message: string;
-  code?: 'ALREADY_VOTED' | 'POLL_ENDED' | 'INVALID_OPTION' | 'SUBMISSION_FAILED';
+  code?: 'POLL_NOT_FOUND' | 'UNAUTHENTICATED' | 'VALIDATION_ERROR' | 'ALREADY_VOTED' | 'POLL_NOT_STARTED' | 'POLL_ENDED' | 'INVALID_OPTION' | 'INVITE_INVALID' | 'NOT_ELIGIBLE' | 'VOTES_LOCKED' | 'RATE_LIMITED' | 'SUBMISSION_FAILED';
 };
 
 // Generic error handler result
@@ -212,10 +347,10 @@ export interface ApiResponse<T = any> {
 
 export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   pagination?: {
-    page: number;
     limit: number;
-    total: number;
-    totalPages: number;
+    /** Opaque cursor for the next page, null on the last page */
+    nextCursor: string | null;
+    hasMore: boolean;
   };
 }
 
@@ -0,0 +1,37 @@
+/**
+ * Tests for the redirect guard used after sign-in, two-factor and password reset
+ *
+ * Run with `npm test`.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { getSafeRedirectPath } from './utils'
+
+describe('getSafeRedirectPath', () => {
+  it('keeps same-site paths', () => {
+    assert.equal(getSafeRedirectPath('/polls/123?tab=results#votes'), '/polls/123?tab=results#votes')
+    assert.equal(getSafeRedirectPath('/profile?deleteAccount=1'), '/profile?deleteAccount=1')
+  })
+
+  it('falls back when there is no path', () => {
+    assert.equal(getSafeRedirectPath(null), '/dashboard')
+    assert.equal(getSafeRedirectPath(''), '/dashboard')
+    assert.equal(getSafeRedirectPath(undefined, '/polls'), '/polls')
+  })
+
+  it('refuses other sites', () => {
+    for (const path of [
+      'https://evil.example',
+      'evil.example',
+      '//evil.example',
+      '/\\evil.example',
+      '/\t/evil.example',
+      '/\n/evil.example',
+      '/\r\n/evil.example',
+      '\\/evil.example'
+    ]) {
+      assert.equal(getSafeRedirectPath(path), '/dashboard', JSON.stringify(path))
+    }
+  })
+})
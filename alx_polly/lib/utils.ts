@@ -1,3 +1,5 @@
+import type { VoteEligibilityStatus } from "./types";
+
 export function cn(...classes: Array<string | null | undefined | false>): string {
   return classes.filter(Boolean).join(" ");
 }
@@ -12,24 +14,80 @@ export const formatDate = (dateString: string, locale: string = 'en-US'): string
   });
 };
 
+// Formats a date for a datetime-local input, in the browser's time zone
+export const toDateTimeLocalValue = (dateString: string): string => {
+  const date = new Date(dateString);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
 // Poll utility functions
 export const isPollEnded = (endDate?: string): boolean => {
   if (!endDate) return false;
   return new Date(endDate) <= new Date();
 };
 
-export const canEditPoll = (poll: { total_votes: number }): boolean => {
-  return poll.total_votes === 0;
+export const isPollScheduled = (startsAt?: string | null): boolean => {
+  if (!startsAt) return false;
+  return new Date(startsAt) > new Date();
+};
+
+// Keeps post-sign-in redirects on this site: only same-origin paths pass,
+// so a crafted ?redirectTo=https://evil.example can't send users elsewhere.
+// URL parsing drops tabs and newlines and reads \ as /, so `/\t/evil.example`
+// would become `//evil.example`: those characters are refused, and the path
+// must still resolve to the same origin.
+const REDIRECT_CHECK_ORIGIN = 'https://redirect-check.invalid';
+
+export const getSafeRedirectPath = (path: string | null | undefined, fallback: string = '/dashboard'): string => {
+  if (!path || !path.startsWith('/') || path.startsWith('//') || /[\\\u0000-\u001f\u007f]/.test(path)) {
+    return fallback;
+  }
+
+  try {
+    if (new URL(path, REDIRECT_CHECK_ORIGIN).origin !== REDIRECT_CHECK_ORIGIN) {
+      return fallback;
+    }
+  } catch {
+    return fallback;
+  }
+
+  return path;
+};
+
+// Days between asking to delete an account and it being deleted; the user
+// can cancel from their profile page before then
+export const ACCOUNT_DELETION_GRACE_DAYS = 14;
+
+// Explains why a voter can't vote under a poll's eligibility rule
+export const getIneligibilityMessage = (
+  status: Exclude<VoteEligibilityStatus, 'eligible'>,
+  emailDomain?: string | null
+): string => {
+  switch (status) {
+    case 'login_required':
+      return 'Only signed-in users are eligible to vote on this poll.';
+    case 'email_unverified':
+      return 'Confirm your email address to become eligible to vote on this poll.';
+    case 'wrong_domain':
+      return emailDomain
+        ? `Only @${emailDomain} accounts are eligible to vote on this poll.`
+        : 'Your email domain is not eligible to vote on this poll.';
+    case 'not_on_list':
+      return 'Your email address is not on the list of eligible voters for this poll.';
+  }
 };
 
 export const getPollStatus = (poll: {
   is_active: boolean;
   is_public: boolean;
+  starts_at?: string;
   end_date?: string;
 }) => {
   const statuses: string[] = [];
   
   if (!poll.is_active) statuses.push('inactive');
+  if (poll.is_active && isPollScheduled(poll.starts_at)) statuses.push('scheduled');
   if (isPollEnded(poll.end_date)) statuses.push('ended');
   if (!poll.is_public) statuses.push('private');
   
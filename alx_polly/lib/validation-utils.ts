@@ -109,8 +109,10 @@ export function sanitizeUrl(url: string): string {
 
 export const ValidationPatterns = {
   email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  emailDomain: /^([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/,
   name: /^[a-zA-Z\s]{2,50}$/,
   username: /^[a-zA-Z0-9_]{3,20}$/,
+  handle: /^[a-z0-9_]{3,30}$/,
   phone: /^[\+]?[1-9][\d]{0,15}$/,
   url: /^https?:\/\/(www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b([-a-zA-Z0-9()@:%_\+.~#?&//=]*)$/,
   strongPassword: /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$/,
@@ -123,6 +125,13 @@ export const ValidationPatterns = {
 // ZOD VALIDATION SCHEMAS
 // =====================================================
 
+/** Public profile handles, as in /u/<handle>; matched case-insensitively */
+export const HandleSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(ValidationPatterns.handle, 'Handle must be 3-30 letters, numbers or underscores');
+
 /**
  * User profile validation schema
  */
@@ -144,7 +153,15 @@ export const UserProfileSchema = z.object({
     .string()
     .max(500, 'Bio must be less than 500 characters')
     .optional()
-    .transform((val: string | undefined) => val ? sanitizeText(val) : undefined)
+    .transform((val: string | undefined) => val ? sanitizeText(val) : undefined),
+
+  // Optional until the user wants a public profile page
+  handle: z
+    .literal('')
+    .transform(() => undefined)
+    .or(HandleSchema.optional()),
+
+  isProfilePublic: z.boolean()
 });
 
 /**
@@ -208,10 +225,87 @@ export const PollCreationSchema = z.object({
     }, 'All options must be unique'),
   
   allowMultipleSelections: z.boolean().default(false),
+  votingMethod: z.enum(['plurality', 'ranked_choice']).default('plurality'),
   isPublic: z.boolean().default(true),
-  endDate: z.string().optional().nullable()
+  // FALSE makes everyone sign in to vote
+  allowAnonymousVotes: z.boolean().default(true),
+  // TRUE stops voters changing or retracting a vote once cast
+  lockVotes: z.boolean().default(false),
+  startsAt: z.string().optional().nullable(),
+  endDate: z.string().optional().nullable(),
+
+  eligibility: z.enum(['anyone', 'authenticated', 'email_domain', 'email_list']).default('anyone'),
+
+  eligibleEmailDomain: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .transform((value: string) => value.replace(/^@/, ''))
+    .refine((value: string) => !value || ValidationPatterns.emailDomain.test(value), 'Enter a domain such as example.com')
+    .optional()
+    .nullable(),
+
+  // The create form sends the allow-list as one string of comma or line separated addresses
+  eligibleEmails: z.preprocess(
+    (value: unknown) => typeof value === 'string' ? value.split(/[\s,;]+/).filter(Boolean) : value,
+    z
+      .array(z.string().toLowerCase().email('Allow-list contains an invalid email address'))
+      .max(500, 'Allow-list cannot have more than 500 addresses')
+      .optional()
+  )
+}).superRefine((data, ctx) => {
+  if (data.eligibility === 'email_domain' && !data.eligibleEmailDomain) {
+    ctx.addIssue({ code: 'custom', path: ['eligibleEmailDomain'], message: 'Enter the email domain allowed to vote' });
+  }
+  if (data.eligibility === 'email_list' && !data.eligibleEmails?.length) {
+    ctx.addIssue({ code: 'custom', path: ['eligibleEmails'], message: 'Add at least one email address to the allow-list' });
+  }
 });
 
+/**
+ * Poll update validation schema
+ * Options carry their existing ID; options without an ID are new. The order of
+ * the array is the new display order.
+ */
+export const PollUpdateSchema = z.object({
+  title: PollCreationSchema.shape.title,
+  description: PollCreationSchema.shape.description,
+
+  options: z
+    .array(
+      z.object({
+        id: z.string().uuid('Invalid option ID').optional(),
+        text: PollCreationSchema.shape.options.element.shape.text
+      })
+    )
+    .min(2, 'At least 2 options are required')
+    .max(10, 'Maximum 10 options allowed')
+    .refine((options: { text: string }[]) => {
+      const texts = options.map((opt) => opt.text.toLowerCase());
+      return new Set(texts).size === texts.length;
+    }, 'All options must be unique'),
+
+  isPublic: z.boolean().default(true),
+  // Left unchanged when omitted
+  isActive: z.boolean().optional(),
+  exportVoterIdentity: z.boolean().optional(),
+  allowAnonymousVotes: z.boolean().optional(),
+  lockVotes: z.boolean().optional(),
+  startsAt: z.string().optional().nullable(),
+  endDate: z.string().optional().nullable(),
+  confirmRemoveVotedOptions: z.boolean().default(false)
+});
+
+/**
+ * Poll template name validation schema
+ */
+export const PollTemplateNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Template name is required')
+  .max(100, 'Template name must be less than 100 characters')
+  .transform(sanitizeText);
+
 /**
  * Login validation schema
  */
@@ -264,6 +358,153 @@ export const VoteSubmissionSchema = z.object({
     .array(z.string().uuid('Invalid option ID'))
     .min(1, 'At least one option must be selected')
     .max(10, 'Too many options selected')
+    .refine((ids: string[]) => new Set(ids).size === ids.length, 'Each option can only be chosen once')
+});
+
+/**
+ * Poll invite validation schema
+ * Both limits are optional; leaving them out creates a link that works until revoked
+ */
+export const PollInviteSchema = z.object({
+  expiresAt: z
+    .string()
+    .optional()
+    .nullable()
+    .refine((value) => !value || !isNaN(Date.parse(value)), 'Invalid expiry date')
+    .refine((value) => !value || new Date(value) > new Date(), 'Expiry date must be in the future'),
+
+  maxUses: z
+    .number()
+    .int('Usage limit must be a whole number')
+    .min(1, 'Usage limit must be at least 1')
+    .max(10000, 'Usage limit cannot exceed 10,000')
+    .optional()
+    .nullable()
+});
+
+/**
+ * API key creation validation schema
+ * 'read_write' grants both scopes; there are no write-only keys
+ */
+export const ApiKeySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Key name is required')
+    .max(60, 'Key name must be less than 60 characters')
+    .transform(sanitizeText),
+
+  access: z.enum(['read', 'read_write']).default('read')
+});
+
+/**
+ * Webhook registration validation schema
+ * Poll-level webhooks are removed with their poll, so they only take the
+ * events that happen while it exists. Plain http is only accepted for
+ * localhost outside production, for testing against a local receiver.
+ */
+export const WebhookSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .max(2000, 'URL must be less than 2000 characters')
+    .url('Enter a valid URL')
+    .refine((value: string) => {
+      const { protocol, hostname } = new URL(value)
+      if (protocol === 'https:') return true
+      const isLocal = hostname === 'localhost' || hostname === '127.0.0.1'
+      return protocol === 'http:' && isLocal && process.env.NODE_ENV !== 'production'
+    }, 'Webhook URLs must use https'),
+
+  events: z
+    .array(z.enum(['poll.created', 'vote.cast', 'poll.closed', 'poll.deleted']))
+    .min(1, 'Choose at least one event')
+    .refine((events: string[]) => new Set(events).size === events.length, 'Each event can only be chosen once'),
+
+  pollId: z.string().uuid('Invalid poll ID').optional().nullable()
+}).superRefine((data, ctx) => {
+  if (data.pollId && data.events.some(event => event === 'poll.created' || event === 'poll.deleted')) {
+    ctx.addIssue({ code: 'custom', path: ['events'], message: 'Poll webhooks can only subscribe to vote.cast and poll.closed' });
+  }
+});
+
+/** API keys are `polly_` followed by 40 characters from generateSecureToken */
+export const ApiKeyTokenSchema = z
+  .string()
+  .regex(/^polly_[A-Za-z0-9]{40}$/, 'Invalid API key');
+
+/** Authenticator app codes are 6 digits */
+export const MfaCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app');
+
+/** Recovery codes are 12 letters and digits, shown as xxxx-xxxx-xxxx */
+export const RecoveryCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z0-9]{4}[-\s]?[A-Za-z0-9]{4}[-\s]?[A-Za-z0-9]{4}$/, 'Invalid recovery code');
+
+/** Invite tokens are 32 characters from generateSecureToken */
+export const InviteTokenSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9]{32}$/, 'Invalid invite link');
+
+/**
+ * Poll listing query validation schema
+ * Values arrive as URL search params, so the limit is coerced from a string
+ */
+export const PollListQuerySchema = z.object({
+  search: z
+    .string()
+    .trim()
+    .max(100, 'Search query is too long')
+    .optional()
+    .transform((value) => value || undefined),
+
+  status: z.enum(['all', 'active', 'scheduled', 'ended', 'closing_soon']).default('active'),
+
+  sort: z.enum(['newest', 'most_votes', 'ending_soon']).default('newest'),
+
+  creator: z
+    .string()
+    .uuid('Invalid creator ID')
+    .optional(),
+
+  cursor: z
+    .string()
+    .max(500, 'Invalid cursor')
+    .optional(),
+
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(50, 'Limit cannot exceed 50')
+    .default(12)
+});
+
+/**
+ * Poll export query validation schema
+ */
+export const PollExportQuerySchema = z.object({
+  format: z.enum(['csv', 'json', 'xlsx']).default('csv'),
+  type: z.enum(['results', 'ballots']).default('results')
+});
+
+/**
+ * Poll embed query validation schema
+ * Embed codes live on other sites, so bad values fall back to the defaults
+ * instead of breaking the widget. The accent is a hex colour without the `#`.
+ */
+export const EmbedOptionsSchema = z.object({
+  theme: z.enum(['light', 'dark']).catch('light'),
+  accent: z
+    .string()
+    .regex(/^[0-9a-fA-F]{6}$/)
+    .optional()
+    .catch(undefined),
+  invite: z.string().optional().catch(undefined)
 });
 
 // =====================================================
@@ -460,19 +701,22 @@ export function validateRateLimit(
  */
 export function generateSecureToken(length: number = 32): string {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  // Bytes at or above this are redrawn so every character is equally likely
+  const unbiasedLimit = 256 - (256 % chars.length);
   let result = '';
   
-  if (typeof window !== 'undefined' && window.crypto) {
-    // Browser environment
+  // Web Crypto is available in browsers and in Node 19+
+  if (!globalThis.crypto?.getRandomValues) {
+    throw new Error('Secure random number generator is not available');
+  }
+
+  while (result.length < length) {
     const array = new Uint8Array(length);
-    window.crypto.getRandomValues(array);
-    for (let i = 0; i < length; i++) {
-      result += chars[array[i] % chars.length];
-    }
-  } else {
-    // Fallback for environments without crypto
-    for (let i = 0; i < length; i++) {
-      result += chars[Math.floor(Math.random() * chars.length)];
+    globalThis.crypto.getRandomValues(array);
+    for (let i = 0; i < array.length && result.length < length; i++) {
+      if (array[i] < unbiasedLimit) {
+        result += chars[array[i] % chars.length];
+      }
     }
   }
   
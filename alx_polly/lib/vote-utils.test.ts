@@ -0,0 +1,97 @@
+/**
+ * Tests for the instant-runoff count behind ranked-choice results
+ *
+ * Run with `npm test`.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { calculateInstantRunoff, type RankedBallot } from './vote-utils'
+
+/** `count` identical ballots ranking the given options in order */
+function ballots(count: number, ...rankings: string[]): RankedBallot[] {
+  return Array.from({ length: count }, () => ({ rankings }))
+}
+
+describe('calculateInstantRunoff', () => {
+  it('has no winner without ballots', () => {
+    assert.deepEqual(calculateInstantRunoff(['A', 'B'], []), { rounds: [], winner: null, tiedOptions: [] })
+  })
+
+  it('elects a first-round majority', () => {
+    const result = calculateInstantRunoff(['A', 'B', 'C'], [...ballots(3, 'A'), ...ballots(1, 'B'), ...ballots(1, 'C')])
+
+    assert.equal(result.winner, 'A')
+    assert.equal(result.rounds.length, 1)
+  })
+
+  it('transfers an eliminated option\'s ballots to their next choice', () => {
+    const result = calculateInstantRunoff(['A', 'B', 'C'], [
+      ...ballots(4, 'A'),
+      ...ballots(3, 'B'),
+      ...ballots(2, 'C', 'B')
+    ])
+
+    assert.deepEqual(result.rounds.map(round => round.eliminated), [['C'], []])
+    assert.deepEqual(result.rounds[1].tallies, { A: 4, B: 5 })
+    assert.equal(result.winner, 'B')
+  })
+
+  it('eliminates one of the options tied for last, not both', () => {
+    // B and C tie for last and B's voters rank C second; eliminating both
+    // at once would hand A the win with 4 of 7
+    const result = calculateInstantRunoff(['A', 'C', 'B'], [
+      ...ballots(4, 'A'),
+      ...ballots(3, 'B', 'C'),
+      ...ballots(3, 'C')
+    ])
+
+    assert.deepEqual(result.rounds[0].eliminated, ['B'])
+    assert.deepEqual(result.rounds[1].tallies, { A: 4, C: 6 })
+    assert.equal(result.winner, 'C')
+  })
+
+  it('breaks a tie for last by the earlier rounds', () => {
+    // D's ballot moves to C, tying B and C on 4; C had fewer in round 1
+    const result = calculateInstantRunoff(['A', 'B', 'C', 'D'], [
+      ...ballots(6, 'A'),
+      ...ballots(4, 'B'),
+      ...ballots(3, 'C'),
+      ...ballots(1, 'D', 'C')
+    ])
+
+    assert.deepEqual(result.rounds[0].eliminated, ['D'])
+    assert.deepEqual(result.rounds[1].tallies, { A: 6, B: 4, C: 4 })
+    assert.deepEqual(result.rounds[1].eliminated, ['C'])
+  })
+
+  it('eliminates the lowest options together when they trail the next one combined', () => {
+    const result = calculateInstantRunoff(['A', 'B', 'C', 'D'], [
+      ...ballots(5, 'A'),
+      ...ballots(4, 'B'),
+      ...ballots(1, 'C', 'B'),
+      ...ballots(1, 'D', 'B')
+    ])
+
+    assert.deepEqual(result.rounds[0].eliminated, ['C', 'D'])
+    assert.equal(result.winner, 'B')
+  })
+
+  it('drops options nobody ranked along with the next lowest', () => {
+    const result = calculateInstantRunoff(['A', 'B', 'C', 'D'], [
+      ...ballots(2, 'A'),
+      ...ballots(2, 'B'),
+      ...ballots(1, 'C', 'A')
+    ])
+
+    assert.deepEqual(result.rounds[0].eliminated, ['D', 'C'])
+    assert.equal(result.winner, 'A')
+  })
+
+  it('ends in a tie when every remaining option has the same tally', () => {
+    const result = calculateInstantRunoff(['A', 'B'], [...ballots(2, 'A'), ...ballots(2, 'B')])
+
+    assert.equal(result.winner, null)
+    assert.deepEqual(result.tiedOptions, ['A', 'B'])
+  })
+})
@@ -46,6 +46,165 @@ export interface VoteStatistics {
   percentages: Record<string, number>;
 }
 
+/**
+ * One voter's ranked-choice ballot
+ * Option IDs in preference order (first element = first preference)
+ */
+export interface RankedBallot {
+  rankings: string[];
+}
+
+/** Tallies and eliminations for a single instant-runoff round */
+export interface InstantRunoffRound {
+  /** 1-based round number */
+  round: number;
+  /** Ballots counted for each option still in the race this round */
+  tallies: Record<string, number>;
+  /** Options eliminated at the end of this round */
+  eliminated: string[];
+  /** Ballots with no remaining preferences among active options */
+  exhaustedBallots: number;
+}
+
+/** Outcome of an instant-runoff count */
+export interface InstantRunoffResult {
+  rounds: InstantRunoffRound[];
+  /** Winning option ID, or null when there were no ballots or the count ended in a tie */
+  winner: string | null;
+  /** Options still tied when every remaining option had the same tally */
+  tiedOptions: string[];
+}
+
+/**
+ * Runs an instant-runoff count over ranked ballots
+ *
+ * WHY: Ranked-choice polls pick the option preferred by a majority once weaker
+ * options are eliminated, which a single first-preference count can't show.
+ *
+ * HOW: Each round counts every ballot toward its highest-ranked option that is
+ * still active. An option with more than half of the non-exhausted ballots wins.
+ * Otherwise one option is eliminated per round: the lowest, or when several
+ * share the lowest tally, the one that had fewer votes in the latest earlier
+ * round where they differed, then the one listed last. The lowest options are
+ * only eliminated together when their combined tally is below the next-lowest
+ * tally, since no transfer between them could change the result. When every
+ * remaining option has the same tally, the count ends in a tie.
+ *
+ * @param optionIds - All option IDs in the poll (options nobody ranked start at 0)
+ * @param ballots - Ranked ballots to count
+ * @returns Round-by-round tallies and the winner
+ */
+export function calculateInstantRunoff(optionIds: string[], ballots: RankedBallot[]): InstantRunoffResult {
+  const rounds: InstantRunoffRound[] = [];
+  const active = new Set(optionIds);
+
+  if (ballots.length === 0 || active.size === 0) {
+    return { rounds, winner: null, tiedOptions: [] };
+  }
+
+  while (active.size > 0) {
+    const tallies: Record<string, number> = {};
+    active.forEach(optionId => { tallies[optionId] = 0; });
+
+    let exhaustedBallots = 0;
+    for (const ballot of ballots) {
+      const choice = ballot.rankings.find(optionId => active.has(optionId));
+      if (choice) {
+        tallies[choice] += 1;
+      } else {
+        exhaustedBallots += 1;
+      }
+    }
+
+    const round: InstantRunoffRound = {
+      round: rounds.length + 1,
+      tallies,
+      eliminated: [],
+      exhaustedBallots,
+    };
+    rounds.push(round);
+
+    const continuingBallots = ballots.length - exhaustedBallots;
+    const counts = Object.values(tallies);
+    const maxTally = Math.max(...counts);
+    const minTally = Math.min(...counts);
+
+    if (active.size === 1 || (continuingBallots > 0 && maxTally * 2 > continuingBallots)) {
+      const winner = Object.keys(tallies).find(optionId => tallies[optionId] === maxTally) || null;
+      return { rounds, winner, tiedOptions: [] };
+    }
+
+    if (minTally === maxTally) {
+      return { rounds, winner: null, tiedOptions: Object.keys(tallies) };
+    }
+
+    round.eliminated = chooseEliminated(optionIds, rounds);
+    round.eliminated.forEach(optionId => active.delete(optionId));
+  }
+
+  return { rounds, winner: null, tiedOptions: [] };
+}
+
+/**
+ * Picks the options to eliminate after the latest round of an instant-runoff count
+ * @param optionIds - All option IDs in poll order, for the last-resort tie-break
+ * @param rounds - The rounds so far; the last one is being decided
+ * @returns The options to eliminate, lowest first
+ */
+function chooseEliminated(optionIds: string[], rounds: InstantRunoffRound[]): string[] {
+  const { tallies } = rounds[rounds.length - 1];
+  const ascending = Object.keys(tallies).sort((a, b) => tallies[a] - tallies[b]);
+
+  // The largest group of lowest options that together trail the next one
+  let batchSize = 0;
+  let combined = 0;
+  for (let i = 0; i < ascending.length - 1; i++) {
+    combined += tallies[ascending[i]];
+    if (combined < tallies[ascending[i + 1]]) {
+      batchSize = i + 1;
+    }
+  }
+
+  if (batchSize > 0) {
+    return ascending.slice(0, batchSize);
+  }
+
+  // Several options share the lowest tally: look back for the one that trailed
+  let tied = ascending.filter(optionId => tallies[optionId] === tallies[ascending[0]]);
+  for (let i = rounds.length - 2; i >= 0 && tied.length > 1; i--) {
+    const earlier = rounds[i].tallies;
+    const lowest = Math.min(...tied.map(optionId => earlier[optionId]));
+    tied = tied.filter(optionId => earlier[optionId] === lowest);
+  }
+
+  const lastListed = tied.reduce((last, optionId) =>
+    optionIds.indexOf(optionId) > optionIds.indexOf(last) ? optionId : last
+  );
+  return [lastListed];
+}
+
+/**
+ * Groups raw vote rows into ranked ballots
+ * @param rows - Vote rows with their ballot ID, option ID and rank
+ * @returns One ballot per ballot ID with options in rank order
+ */
+export function groupRankedBallots(
+  rows: Array<{ ballot_id: string | null; option_id: string; rank: number | null }>
+): RankedBallot[] {
+  const ballots = new Map<string, Array<{ optionId: string; rank: number }>>();
+
+  for (const row of rows) {
+    if (!row.ballot_id) continue;
+    const entries = ballots.get(row.ballot_id) || [];
+    entries.push({ optionId: row.option_id, rank: row.rank ?? Number.MAX_SAFE_INTEGER });
+    ballots.set(row.ballot_id, entries);
+  }
+
+  return Array.from(ballots.values()).map(entries => ({
+    rankings: entries.sort((a, b) => a.rank - b.rank).map(entry => entry.optionId),
+  }));
+}
+
 /**
  * High-Performance Vote Statistics Calculator
  * 
@@ -77,13 +236,15 @@ export interface VoteStatistics {
 export class VoteStatsCalculator {
   private stats: VoteStatistics | null = null;
   private lastCalculated = 0;
+  private runoff: InstantRunoffResult | null = null;
   /** Cache duration in milliseconds (1 second default) */
   private readonly CACHE_DURATION = 1000;
 
   /**
    * @param options - Array of poll options with vote counts and voter data
+   * @param ballots - Ranked ballots, only needed for ranked-choice polls
    */
-  constructor(private options: PollOption[]) {}
+  constructor(private options: PollOption[], private ballots: RankedBallot[] = []) {}
 
   /**
    * Retrieves vote statistics with intelligent caching
@@ -155,6 +316,21 @@ export class VoteStatsCalculator {
     };
   }
 
+  /**
+   * Computes the instant-runoff rounds for a ranked-choice poll
+   * Ballots don't change for the lifetime of a calculator, so the result is computed once.
+   * @returns Round-by-round tallies and the winner
+   */
+  getInstantRunoffResult(): InstantRunoffResult {
+    if (!this.runoff) {
+      this.runoff = calculateInstantRunoff(
+        this.options.map(option => option.option_id),
+        this.ballots
+      );
+    }
+    return this.runoff;
+  }
+
   /**
    * Checks if an option is currently winning (has maximum votes)
    * @param optionId - The option ID to check
@@ -298,6 +474,7 @@ export class VoteLookup {
  * and VoteLookup for maximum performance and convenience.
  * 
  * @param options - Array of poll options to process
+ * @param ballots - Ranked ballots for ranked-choice polls (optional)
  * @returns Object with calculator, lookup, and convenience methods
  * 
  * @example
@@ -313,8 +490,8 @@ export class VoteLookup {
  * const hasUserVoted = processor.hasVoter(optionId, userId)
  * ```
  */
-export function createOptimizedVoteProcessor(options: PollOption[]) {
-  const calculator = new VoteStatsCalculator(options);
+export function createOptimizedVoteProcessor(options: PollOption[], ballots: RankedBallot[] = []) {
+  const calculator = new VoteStatsCalculator(options, ballots);
   const lookup = new VoteLookup(options);
 
   return {
@@ -334,5 +511,7 @@ export function createOptimizedVoteProcessor(options: PollOption[]) {
     isWinning: (optionId: string) => calculator.isWinning(optionId),
     /** Check if a voter voted for an option */
     hasVoter: (optionId: string, voterId: string) => lookup.hasVoter(optionId, voterId),
+    /** Get instant-runoff rounds for ranked-choice polls */
+    getInstantRunoff: () => calculator.getInstantRunoffResult(),
   };
 }
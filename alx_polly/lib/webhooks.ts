@@ -0,0 +1,381 @@
+/**
+ * Outgoing Webhooks
+ *
+ * Poll events are sent to the owner's webhooks as signed JSON POSTs. Each
+ * event is first written to webhook_deliveries, then sent right after the
+ * response (next/server `after`), so a slow receiver never holds up a vote.
+ * Failed deliveries are retried with backoff by the deliver-webhooks sweeper
+ * route until they succeed or run out of attempts.
+ *
+ * Receivers verify the `X-Polly-Signature: t=<unix seconds>,v1=<hex>` header:
+ * v1 is the HMAC-SHA256 of `<t>.<raw body>` keyed with the webhook's secret.
+ *
+ * Server-only: deliveries are read and written with the service role, since
+ * an event (a vote, say) is usually caused by someone other than the owner.
+ * Webhook URLs must resolve to public addresses, checked when a webhook is
+ * added and again before every delivery, so they can't reach the server's
+ * own network or the cloud metadata endpoint.
+ *
+ * @fileoverview Webhook event queueing, signing and delivery
+ */
+
+import { createHmac } from 'crypto'
+import { lookup } from 'dns/promises'
+import { BlockList, isIP } from 'net'
+import { after } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServerSupabaseAdminClient } from './supabase-server'
+import { generateSecureToken } from './validation-utils'
+import type { WebhookEvent } from './types'
+
+/** Waits before the 2nd to 6th attempts; the 6th failure is final */
+const RETRY_DELAYS_MS = [
+  60 * 1000, // 1 minute
+  5 * 60 * 1000, // 5 minutes
+  30 * 60 * 1000, // 30 minutes
+  2 * 60 * 60 * 1000, // 2 hours
+  12 * 60 * 60 * 1000 // 12 hours
+]
+
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1
+
+/** How long a receiver gets to answer */
+const DELIVERY_TIMEOUT_MS = 10 * 1000
+
+/** How long a claimed delivery is hidden from other senders */
+const DELIVERY_LEASE_MS = 2 * 60 * 1000
+
+/** Deliveries sent per sweeper run */
+const SWEEP_BATCH_SIZE = 50
+
+/** Loopback names that may take plain http outside production */
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '::1'])
+
+/**
+ * Addresses a webhook may not resolve to: this network, private, carrier-grade
+ * NAT, loopback, link-local (which holds the metadata endpoint), benchmarking,
+ * multicast and reserved ranges, and their IPv6 counterparts including unique
+ * local addresses. IPv4-mapped IPv6 addresses are checked against the IPv4 rules.
+ */
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+/** The poll an event is about */
+export interface WebhookPoll {
+  id: string
+  title: string
+  created_by: string
+}
+
+/** Body of every delivery */
+export interface WebhookPayload {
+  event: WebhookEvent | 'webhook.test'
+  createdAt: string
+  data: Record<string, unknown>
+}
+
+/** Outcome of one batch of delivery attempts */
+export interface WebhookDeliveryResult {
+  succeeded: number
+  retrying: number
+  failed: number
+}
+
+interface ClaimedDelivery {
+  id: string
+  event: string
+  payload: WebhookPayload
+  attempts: number
+  webhooks: { url: string; secret: string } | null
+}
+
+/**
+ * Generates the signing secret for a new webhook
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${generateSecureToken(32)}`
+}
+
+/**
+ * Checks that a webhook URL points at the public internet
+ *
+ * The host is resolved and every address it resolves to must be public.
+ * Outside production, plain http to localhost is allowed for testing against
+ * a local receiver.
+ *
+ * @param url - The webhook URL
+ * @throws Error if the URL isn't https, doesn't resolve, or resolves to a
+ *   private, loopback, link-local or reserved address
+ */
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  const { protocol, hostname } = new URL(url)
+  const host = hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase()
+
+  if (LOCAL_HOSTNAMES.has(host) && process.env.NODE_ENV !== 'production' && (protocol === 'http:' || protocol === 'https:')) {
+    return
+  }
+
+  if (protocol !== 'https:') {
+    throw new Error('Webhook URLs must use https')
+  }
+
+  let addresses: { address: string; family: number }[]
+  try {
+    addresses = isIP(host)
+      ? [{ address: host, family: isIP(host) }]
+      : await lookup(host, { all: true, verbatim: true })
+  } catch {
+    throw new Error(`Could not resolve ${host}`)
+  }
+
+  const isBlocked = ({ address, family }: { address: string; family: number }) =>
+    BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+
+  if (addresses.length === 0 || addresses.some(isBlocked)) {
+    throw new Error('Webhook URLs must point to a public address')
+  }
+}
+
+/**
+ * Signs a delivery body
+ * @param secret - The webhook's secret
+ * @param timestamp - Unix seconds, sent as `t` so receivers can reject replays
+ * @param body - The exact body being sent
+ * @returns Hex HMAC-SHA256 of `<timestamp>.<body>`
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Queues an event for the poll owner's matching webhooks and sends it after
+ * the response
+ *
+ * Never throws: a webhook problem is logged and must not fail the poll
+ * operation that caused it.
+ *
+ * @param event - What happened
+ * @param poll - The poll it happened to
+ * @param data - Event details, sent alongside the poll
+ */
+export async function queueWebhookEvent(event: WebhookEvent, poll: WebhookPoll, data: Record<string, unknown> = {}): Promise<void> {
+  try {
+    const supabase = await createServerSupabaseAdminClient()
+
+    const { data: webhooks, error } = await supabase
+      .from('webhooks')
+      .select('id')
+      .eq('user_id', poll.created_by)
+      .or(`poll_id.is.null,poll_id.eq.${poll.id}`)
+      .contains('events', [event])
+
+    if (error) {
+      console.error('Error finding webhooks:', error)
+      return
+    }
+
+    if (!webhooks || webhooks.length === 0) return
+
+    const payload: WebhookPayload = {
+      event,
+      createdAt: new Date().toISOString(),
+      data: { poll: { id: poll.id, title: poll.title }, ...data }
+    }
+
+    await insertDeliveries(supabase, webhooks.map(webhook => webhook.id), payload)
+  } catch (error) {
+    console.error(`Error queueing ${event} webhooks:`, error)
+  }
+}
+
+/**
+ * Queues a `webhook.test` delivery to one webhook and sends it after the response
+ * @param webhookId - UUID of a webhook the caller has already checked they own
+ * @throws Error if the delivery can't be queued
+ */
+export async function queueTestDelivery(webhookId: string): Promise<void> {
+  const supabase = await createServerSupabaseAdminClient()
+  await insertDeliveries(supabase, [webhookId], {
+    event: 'webhook.test',
+    createdAt: new Date().toISOString(),
+    data: { message: 'Test delivery from ALX Polly' }
+  })
+}
+
+async function insertDeliveries(supabase: SupabaseClient, webhookIds: string[], payload: WebhookPayload): Promise<void> {
+  const { data: deliveries, error } = await supabase
+    .from('webhook_deliveries')
+    .insert(webhookIds.map(webhookId => ({
+      webhook_id: webhookId,
+      event: payload.event,
+      payload,
+      next_attempt_at: new Date().toISOString()
+    })))
+    .select('id')
+
+  if (error || !deliveries) {
+    console.error('Error queueing webhook deliveries:', error)
+    throw new Error('Failed to queue webhook deliveries')
+  }
+
+  const deliveryIds = deliveries.map(delivery => delivery.id as string)
+  after(() => deliverWebhooks(deliveryIds).catch(error => {
+    console.error('Error delivering webhooks:', error)
+  }))
+}
+
+/**
+ * Sends every pending delivery whose next attempt is due
+ *
+ * Called by the deliver-webhooks sweeper route. Overlapping runs are safe:
+ * each delivery is claimed before it is sent.
+ *
+ * @returns How the attempts went
+ * @throws Error if the service role key is missing or the lookup fails
+ */
+export async function deliverDueWebhooks(): Promise<WebhookDeliveryResult> {
+  const supabase = await createServerSupabaseAdminClient()
+
+  const { data: due, error } = await supabase
+    .from('webhook_deliveries')
+    .select('id')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(SWEEP_BATCH_SIZE)
+
+  if (error) {
+    console.error('Error finding due webhook deliveries:', error)
+    throw new Error('Failed to load webhook deliveries')
+  }
+
+  return deliverWebhooks((due || []).map(delivery => delivery.id as string))
+}
+
+/**
+ * Claims and sends the given deliveries, skipping any that aren't due or
+ * that another run has claimed
+ */
+async function deliverWebhooks(deliveryIds: string[]): Promise<WebhookDeliveryResult> {
+  const result: WebhookDeliveryResult = { succeeded: 0, retrying: 0, failed: 0 }
+  if (deliveryIds.length === 0) return result
+
+  const supabase = await createServerSupabaseAdminClient()
+
+  // Pushing next_attempt_at past the timeout hides the rows from other runs;
+  // if this run dies mid-send they become due again when the lease ends
+  const { data: claimed, error } = await supabase
+    .from('webhook_deliveries')
+    .update({ next_attempt_at: new Date(Date.now() + DELIVERY_LEASE_MS).toISOString() })
+    .in('id', deliveryIds)
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .select('id, event, payload, attempts, webhooks(url, secret)')
+
+  if (error) {
+    console.error('Error claiming webhook deliveries:', error)
+    throw new Error('Failed to claim webhook deliveries')
+  }
+
+  for (const delivery of (claimed || []) as unknown as ClaimedDelivery[]) {
+    const status = await attemptDelivery(supabase, delivery)
+    result[status]++
+  }
+
+  return result
+}
+
+/**
+ * Sends one delivery and records the attempt
+ * @returns 'succeeded' on a 2xx answer, else 'retrying' or, out of attempts, 'failed'
+ */
+async function attemptDelivery(supabase: SupabaseClient, delivery: ClaimedDelivery): Promise<keyof WebhookDeliveryResult> {
+  const attempts = delivery.attempts + 1
+  let responseStatus: number | null = null
+  let lastError: string | null = null
+
+  if (!delivery.webhooks) {
+    lastError = 'Webhook no longer exists'
+  } else {
+    const body = JSON.stringify(delivery.payload)
+    const timestamp = Math.floor(Date.now() / 1000)
+
+    try {
+      // Checked again here: the URL may have been inserted directly, or its
+      // name may resolve somewhere else now
+      await assertPublicWebhookUrl(delivery.webhooks.url)
+
+      const response = await fetch(delivery.webhooks.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'ALX-Polly-Webhooks/1.0',
+          'X-Polly-Event': delivery.event,
+          'X-Polly-Delivery': delivery.id,
+          'X-Polly-Signature': `t=${timestamp},v1=${signWebhookPayload(delivery.webhooks.secret, timestamp, body)}`
+        },
+        body,
+        // A redirect could point anywhere; receivers must answer at the registered URL
+        redirect: 'manual',
+        cache: 'no-store',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      })
+
+      responseStatus = response.status
+      await response.body?.cancel()
+
+      if (!response.ok) {
+        lastError = `Receiver answered HTTP ${response.status}`
+      }
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : 'Request failed'
+    }
+  }
+
+  const now = new Date()
+  const status = lastError === null ? 'succeeded' : attempts >= MAX_ATTEMPTS || !delivery.webhooks ? 'failed' : 'retrying'
+
+  const { error: updateError } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: status === 'retrying' ? 'pending' : status,
+      attempts,
+      response_status: responseStatus,
+      last_error: lastError?.slice(0, 500) ?? null,
+      delivered_at: status === 'succeeded' ? now.toISOString() : null,
+      next_attempt_at: status === 'retrying'
+        ? new Date(now.getTime() + RETRY_DELAYS_MS[attempts - 1]).toISOString()
+        : null
+    })
+    .eq('id', delivery.id)
+
+  if (updateError) {
+    console.error('Error recording webhook delivery:', updateError)
+  }
+
+  return status
+}
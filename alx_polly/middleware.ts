@@ -1,5 +1,6 @@
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
+import { MFA_CHALLENGE_PATH, needsMfaChallenge } from '@/lib/mfa'
 
 /**
  * Enhanced Middleware with Security and Authentication
@@ -47,11 +48,18 @@ export async function middleware(request: NextRequest) {
 
   // Define protected and auth routes
   const protectedRoutes = ['/dashboard', '/polls/new', '/profile']
-  const authRoutes = ['/login', '/register', '/forgot-password', '/reset-password']
+  // Not /reset-password: a recovery link signs the user in before sending
+  // them there, so it must stay reachable with a session
+  const authRoutes = ['/login', '/register', '/forgot-password']
   
+  // Routes that need a two-factor session when the account has two-factor
+  // authentication turned on: every protected route, plus editing a poll
+  const isPollEditRoute = /^\/polls\/[^/]+\/edit$/.test(pathname)
+
   // Check if current path is protected
   const isProtectedRoute = protectedRoutes.some(route => pathname.startsWith(route))
   const isAuthRoute = authRoutes.some(route => pathname.startsWith(route))
+  const isAal2Route = isProtectedRoute || isPollEditRoute
 
   // Redirect unauthenticated users from protected routes
   if (isProtectedRoute && !user) {
@@ -60,6 +68,14 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(url)
   }
 
+  // Send users who haven't entered their authenticator code to the challenge
+  if (isAal2Route && user && await needsMfaChallenge(supabase, user)) {
+    url.pathname = MFA_CHALLENGE_PATH
+    url.search = ''
+    url.searchParams.set('redirectTo', pathname)
+    return NextResponse.redirect(url)
+  }
+
   // Redirect authenticated users from auth pages to dashboard
   if (isAuthRoute && user) {
     url.pathname = '/dashboard'
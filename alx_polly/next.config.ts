@@ -1,35 +1,55 @@
 import type { NextConfig } from "next";
 
+// Shared by every page, embeds included; wss: lets Supabase Realtime open its
+// websocket, which an https: source doesn't cover
+const contentSecurityPolicy = "default-src 'self'; script-src 'self' 'unsafe-eval' 'unsafe-inline'; style-src 'self' 'unsafe-inline'; img-src 'self' data: https:; font-src 'self' data:; connect-src 'self' https://*.supabase.co wss://*.supabase.co;";
+
+const securityHeaders = [
+  {
+    key: 'X-Content-Type-Options',
+    value: 'nosniff'
+  },
+  {
+    key: 'Referrer-Policy',
+    value: 'strict-origin-when-cross-origin'
+  },
+  {
+    key: 'X-XSS-Protection',
+    value: '1; mode=block'
+  },
+  {
+    key: 'Permissions-Policy',
+    value: 'camera=(), microphone=(), geolocation=()'
+  }
+];
+
 const nextConfig: NextConfig = {
   /* Security Headers */
   async headers() {
     return [
       {
-        source: '/(.*)',
+        // Everything except the embed pages refuses to be framed
+        source: '/((?!embed/).*)',
         headers: [
           {
             key: 'X-Frame-Options',
             value: 'DENY'
           },
+          ...securityHeaders,
           {
-            key: 'X-Content-Type-Options',
-            value: 'nosniff'
-          },
-          {
-            key: 'Referrer-Policy',
-            value: 'strict-origin-when-cross-origin'
-          },
-          {
-            key: 'X-XSS-Protection',
-            value: '1; mode=block'
-          },
-          {
-            key: 'Permissions-Policy',
-            value: 'camera=(), microphone=(), geolocation=()'
-          },
+            key: 'Content-Security-Policy',
+            value: contentSecurityPolicy
+          }
+        ]
+      },
+      {
+        // Embedded polls are meant to be framed by any site
+        source: '/embed/:path*',
+        headers: [
+          ...securityHeaders,
           {
             key: 'Content-Security-Policy',
-            value: "default-src 'self'; script-src 'self' 'unsafe-eval' 'unsafe-inline'; style-src 'self' 'unsafe-inline'; img-src 'self' data: https:; font-src 'self' data:; connect-src 'self' https://*.supabase.co;"
+            value: `${contentSecurityPolicy} frame-ancestors *;`
           }
         ]
       }
@@ -0,0 +1,51 @@
+/**
+ * ALX Polly embed script
+ *
+ * Turns every `<div data-polly-poll="<poll id>">` on the page into an iframe
+ * showing that poll, and keeps each frame as tall as its content. Optional
+ * attributes: data-theme ("light" or "dark"), data-accent (hex colour without
+ * "#") and data-invite (invite token for a private poll).
+ *
+ *   <div data-polly-poll="POLL_ID" data-theme="light"></div>
+ *   <script async src="https://your-app.example.com/embed.js"></script>
+ */
+(function () {
+  var script = document.currentScript;
+  var origin = script ? new URL(script.src).origin : window.location.origin;
+  var frames = [];
+
+  function mount(container) {
+    if (container.getAttribute('data-polly-mounted')) return;
+    container.setAttribute('data-polly-mounted', 'true');
+
+    var params = new URLSearchParams();
+    ['theme', 'accent', 'invite'].forEach(function (name) {
+      var value = container.getAttribute('data-' + name);
+      if (value) params.set(name, value);
+    });
+
+    var query = params.toString();
+    var iframe = document.createElement('iframe');
+    iframe.src = origin + '/embed/polls/' + encodeURIComponent(container.getAttribute('data-polly-poll')) + (query ? '?' + query : '');
+    iframe.title = 'Poll';
+    iframe.loading = 'lazy';
+    iframe.style.width = '100%';
+    iframe.style.height = '420px';
+    iframe.style.border = '0';
+
+    container.appendChild(iframe);
+    frames.push(iframe);
+  }
+
+  window.addEventListener('message', function (event) {
+    if (event.origin !== origin || !event.data || event.data.type !== 'polly:resize') return;
+
+    frames.forEach(function (iframe) {
+      if (iframe.contentWindow === event.source) {
+        iframe.style.height = Math.ceil(event.data.height) + 'px';
+      }
+    });
+  });
+
+  document.querySelectorAll('[data-polly-poll]').forEach(mount);
+})();
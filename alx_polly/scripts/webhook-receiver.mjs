@@ -0,0 +1,47 @@
+/**
+ * Local Webhook Receiver
+ *
+ * Listens for webhook deliveries, checks their signature and prints them,
+ * for testing webhooks against a dev server. Register
+ * http://localhost:4000/webhook (plain http to localhost is accepted outside
+ * production), then run:
+ *
+ *   WEBHOOK_SECRET=whsec_... npm run webhook:receive
+ *
+ * Set WEBHOOK_FAIL=1 to answer 500 and watch the retries in the delivery log.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { createServer } from 'http'
+
+const port = Number(process.env.PORT) || 4000
+const secret = process.env.WEBHOOK_SECRET
+const fail = process.env.WEBHOOK_FAIL === '1'
+
+/** Checks `X-Polly-Signature: t=<unix seconds>,v1=<hex>` against the raw body */
+function verifySignature(header, body) {
+  const parts = Object.fromEntries((header || '').split(',').map(part => part.split('=')))
+  if (!parts.t || !parts.v1) return false
+
+  const expected = createHmac('sha256', secret).update(`${parts.t}.${body}`).digest('hex')
+  const given = Buffer.from(parts.v1, 'hex')
+  return given.length === expected.length / 2 && timingSafeEqual(given, Buffer.from(expected, 'hex'))
+}
+
+createServer((request, response) => {
+  let body = ''
+  request.on('data', chunk => { body += chunk })
+  request.on('end', () => {
+    const signature = request.headers['x-polly-signature']
+    const verified = secret ? verifySignature(signature, body) : null
+
+    console.log(`\n${request.method} ${request.url} ${request.headers['x-polly-event']} (delivery ${request.headers['x-polly-delivery']})`)
+    console.log(verified === null ? 'Signature not checked: set WEBHOOK_SECRET' : verified ? 'Signature OK' : 'Signature MISMATCH')
+    console.log(body)
+
+    response.writeHead(fail ? 500 : verified === false ? 401 : 200)
+    response.end()
+  })
+}).listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}`)
+})
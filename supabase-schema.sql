@@ -16,6 +16,16 @@ CREATE TABLE IF NOT EXISTS public.profiles (
     email TEXT,
     full_name TEXT,
     avatar_url TEXT,
+    -- Public profile lives at /u/<handle>; lowercase letters, digits and underscores
+    handle TEXT UNIQUE CHECK (handle ~ '^[a-z0-9_]{3,30}$'),
+    bio TEXT CHECK (length(bio) <= 500),
+    is_profile_public BOOLEAN NOT NULL DEFAULT TRUE, -- FALSE hides the /u/<handle> page
+    -- Set when the user asks to delete their account; the deletion sweep
+    -- removes it after this time unless the user cancels first. Only
+    -- schedule_account_deletion() and cancel_account_deletion() write these;
+    -- a trigger refuses direct changes.
+    deletion_requested_at TIMESTAMPTZ,
+    deletion_scheduled_for TIMESTAMPTZ,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -43,14 +53,37 @@ CREATE TABLE IF NOT EXISTS public.polls (
     description TEXT,
     created_by UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
     allow_multiple_selections BOOLEAN DEFAULT FALSE,
+    -- 'plurality' covers single and multiple choice; 'ranked_choice' uses instant-runoff
+    voting_method TEXT NOT NULL DEFAULT 'plurality' CHECK (voting_method IN ('plurality', 'ranked_choice')),
     is_public BOOLEAN DEFAULT TRUE,
     is_active BOOLEAN DEFAULT TRUE,
+    -- Exports pseudonymise voters unless the owner opts in to real identities
+    export_voter_identity BOOLEAN NOT NULL DEFAULT FALSE,
+    allow_anonymous_votes BOOLEAN NOT NULL DEFAULT TRUE, -- FALSE requires voters to sign in
+    lock_votes BOOLEAN NOT NULL DEFAULT FALSE, -- TRUE stops voters changing or retracting a vote
+    -- Who may vote: 'anyone', 'authenticated', 'email_domain' or 'email_list'
+    -- (the allow-list itself lives in poll_allowed_emails, readable by the owner only)
+    eligibility TEXT NOT NULL DEFAULT 'anyone' CHECK (eligibility IN ('anyone', 'authenticated', 'email_domain', 'email_list')),
+    eligible_email_domain TEXT CHECK (eligible_email_domain = lower(eligible_email_domain)), -- e.g. 'example.com'
+    starts_at TIMESTAMPTZ, -- Voting opens at this time; NULL opens immediately
     end_date TIMESTAMPTZ,
+    closed_at TIMESTAMPTZ, -- Set when the poll is closed, by its owner or the sweeper
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW(),
+    -- Full-text search over title and description
+    search_vector TSVECTOR GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(description, '')), 'B')
+    ) STORED,
     
     -- Constraints
-    CONSTRAINT valid_end_date CHECK (end_date IS NULL OR end_date > created_at)
+    CONSTRAINT valid_end_date CHECK (end_date IS NULL OR end_date > created_at),
+    CONSTRAINT valid_schedule CHECK (starts_at IS NULL OR end_date IS NULL OR end_date > starts_at),
+    CONSTRAINT valid_eligibility_domain CHECK (eligibility <> 'email_domain' OR eligible_email_domain IS NOT NULL),
+    -- Ranked ballots already express several preferences, so multi-select makes no sense
+    CONSTRAINT ranked_choice_single_ballot CHECK (
+        voting_method <> 'ranked_choice' OR allow_multiple_selections = FALSE
+    )
 );
 
 -- Enable RLS on polls
@@ -69,8 +102,176 @@ CREATE POLICY "Users can create polls" ON public.polls
 CREATE POLICY "Users can update own polls" ON public.polls
     FOR UPDATE USING (auth.uid() = created_by);
 
-CREATE POLICY "Users can delete own polls" ON public.polls
-    FOR DELETE USING (auth.uid() = created_by);
+-- =====================================================
+-- POLL INVITES TABLE
+-- =====================================================
+-- Unguessable links that open a private poll to people without an account on it.
+-- The token travels in the x-poll-invite request header, where the RLS policies
+-- below read it; revoking an invite keeps its row for the owner's records.
+CREATE TABLE IF NOT EXISTS public.poll_invites (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    token TEXT NOT NULL UNIQUE CHECK (length(token) >= 32),
+    created_by UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    expires_at TIMESTAMPTZ, -- NULL never expires
+    max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0), -- NULL is unlimited
+    use_count INTEGER NOT NULL DEFAULT 0, -- Ballots cast through this invite
+    revoked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS on poll invites
+ALTER TABLE public.poll_invites ENABLE ROW LEVEL SECURITY;
+
+-- Poll invites policies (owners only; invitees never read this table directly)
+CREATE POLICY "Users can view invites for own polls" ON public.poll_invites
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.polls 
+            WHERE polls.id = poll_invites.poll_id 
+            AND polls.created_by = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can create invites for own polls" ON public.poll_invites
+    FOR INSERT WITH CHECK (
+        auth.uid() = created_by
+        AND EXISTS (
+            SELECT 1 FROM public.polls 
+            WHERE polls.id = poll_invites.poll_id 
+            AND polls.created_by = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can revoke invites for own polls" ON public.poll_invites
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM public.polls 
+            WHERE polls.id = poll_invites.poll_id 
+            AND polls.created_by = auth.uid()
+        )
+    );
+
+-- Invite token sent with the current request, if any
+CREATE OR REPLACE FUNCTION public.request_invite_token()
+RETURNS TEXT AS $$
+    SELECT NULLIF(current_setting('request.headers', true), '')::json->>'x-poll-invite';
+$$ LANGUAGE sql STABLE;
+
+-- Whether the current request carries a live invite for the poll.
+-- The usage cap is not checked here, so people who already voted through an
+-- invite can still see the results; consume_poll_invite() enforces it on voting.
+CREATE OR REPLACE FUNCTION public.has_valid_invite(poll_uuid UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.poll_invites
+        WHERE poll_id = poll_uuid
+          AND token = public.request_invite_token()
+          AND revoked_at IS NULL
+          AND (expires_at IS NULL OR expires_at > NOW())
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Why an invite token does or doesn't work, for user-facing messages:
+-- 'valid', 'revoked', 'expired', 'used_up' or 'invalid'
+CREATE OR REPLACE FUNCTION public.get_poll_invite_status(poll_uuid UUID, invite_token TEXT)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN i.id IS NULL THEN 'invalid'
+        WHEN i.revoked_at IS NOT NULL THEN 'revoked'
+        WHEN i.expires_at IS NOT NULL AND i.expires_at <= NOW() THEN 'expired'
+        WHEN i.max_uses IS NOT NULL AND i.use_count >= i.max_uses THEN 'used_up'
+        ELSE 'valid'
+    END
+    FROM (SELECT 1) AS lookup
+    LEFT JOIN public.poll_invites i ON i.poll_id = poll_uuid AND i.token = invite_token;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE POLICY "Invitees can view private polls" ON public.polls
+    FOR SELECT USING (public.has_valid_invite(id));
+
+-- =====================================================
+-- POLL ELIGIBILITY
+-- =====================================================
+-- Email allow-lists for polls restricted to named voters
+CREATE TABLE IF NOT EXISTS public.poll_allowed_emails (
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    email TEXT NOT NULL CHECK (email = lower(email) AND position('@' IN email) > 1),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    PRIMARY KEY (poll_id, email)
+);
+
+-- Enable RLS on poll allowed emails
+ALTER TABLE public.poll_allowed_emails ENABLE ROW LEVEL SECURITY;
+
+-- Poll allowed emails policies (voters are checked by check_vote_eligibility instead)
+CREATE POLICY "Users can manage allow-lists for own polls" ON public.poll_allowed_emails
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.polls 
+            WHERE polls.id = poll_allowed_emails.poll_id 
+            AND polls.created_by = auth.uid()
+        )
+    );
+
+-- Function to check whether the caller may vote under a poll's eligibility rule
+-- (including whether anonymous votes are allowed at all).
+-- Returns 'eligible', or why not: 'login_required', 'email_unverified',
+-- 'wrong_domain' or 'not_on_list'. Email rules only trust confirmed addresses,
+-- so nobody can sign up with a colleague's domain and vote straight away.
+-- Only ever checks auth.uid(): it reads auth.users and the allow-list, so it
+-- must not answer for other users.
+CREATE OR REPLACE FUNCTION public.check_vote_eligibility(poll_uuid UUID)
+RETURNS TEXT AS $$
+DECLARE
+    poll_rule RECORD;
+    user_uuid UUID := auth.uid();
+    voter_email TEXT;
+BEGIN
+    SELECT eligibility, eligible_email_domain, allow_anonymous_votes INTO poll_rule
+    FROM public.polls WHERE id = poll_uuid;
+
+    IF NOT FOUND THEN
+        RETURN 'eligible';
+    END IF;
+
+    IF user_uuid IS NULL THEN
+        IF poll_rule.eligibility = 'anyone' AND poll_rule.allow_anonymous_votes THEN
+            RETURN 'eligible';
+        END IF;
+        RETURN 'login_required';
+    END IF;
+
+    IF poll_rule.eligibility IN ('anyone', 'authenticated') THEN
+        RETURN 'eligible';
+    END IF;
+
+    SELECT lower(email) INTO voter_email
+    FROM auth.users
+    WHERE id = user_uuid AND email_confirmed_at IS NOT NULL;
+
+    IF voter_email IS NULL THEN
+        RETURN 'email_unverified';
+    END IF;
+
+    IF poll_rule.eligibility = 'email_domain' THEN
+        IF split_part(voter_email, '@', 2) = poll_rule.eligible_email_domain THEN
+            RETURN 'eligible';
+        END IF;
+        RETURN 'wrong_domain';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.poll_allowed_emails
+        WHERE poll_id = poll_uuid AND email = voter_email
+    ) THEN
+        RETURN 'eligible';
+    END IF;
+
+    RETURN 'not_on_list';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
 
 -- =====================================================
 -- POLL_OPTIONS TABLE
@@ -109,6 +310,9 @@ CREATE POLICY "Users can view options for own polls" ON public.poll_options
         )
     );
 
+CREATE POLICY "Invitees can view options for private polls" ON public.poll_options
+    FOR SELECT USING (public.has_valid_invite(poll_id));
+
 CREATE POLICY "Users can create options for own polls" ON public.poll_options
     FOR INSERT WITH CHECK (
         EXISTS (
@@ -145,22 +349,41 @@ CREATE TABLE IF NOT EXISTS public.votes (
     poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
     option_id UUID REFERENCES public.poll_options(id) ON DELETE CASCADE NOT NULL,
     user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
-    voter_ip INET, -- For anonymous voting
+    voter_ip INET, -- Legacy raw IP of anonymous votes; new votes store voter_ip_hash instead
+    voter_token TEXT, -- Keyed hash of the signed anonymous voter cookie
+    voter_ip_hash TEXT, -- Keyed hash of the client IP
+    ballot_id UUID, -- Groups the rows of one ranked-choice ballot
+    rank INTEGER CHECK (rank IS NULL OR rank > 0), -- 1 = first preference (ranked-choice only)
     created_at TIMESTAMPTZ DEFAULT NOW(),
     
     -- Prevent duplicate votes (unless multiple selections allowed)
     -- This constraint will be enforced at the application level for polls that allow multiple selections
     UNIQUE(poll_id, user_id, option_id),
     
-    -- Ensure either user_id or voter_ip is provided
+    -- Ensure the voter is identified by account, anonymous voter token or (legacy) IP
     CONSTRAINT vote_identity_check CHECK (
-        (user_id IS NOT NULL) OR (voter_ip IS NOT NULL)
+        (user_id IS NOT NULL) OR (voter_token IS NOT NULL) OR (voter_ip IS NOT NULL)
     )
 );
 
 -- Enable RLS on votes
 ALTER TABLE public.votes ENABLE ROW LEVEL SECURITY;
 
+-- Whether the current transaction is a ballot change made by change_ballot()
+-- or retract_ballot(). API clients can't set this themselves: only functions
+-- in the public schema are callable through the API.
+CREATE OR REPLACE FUNCTION public.is_ballot_change()
+RETURNS BOOLEAN AS $$
+    SELECT coalesce(current_setting('polly.ballot_change', true), '') = 'on';
+$$ LANGUAGE sql STABLE;
+
+-- Whether the current transaction is casting a ballot through cast_ballot(),
+-- which checks the poll's selection rule and the voter's earlier votes
+CREATE OR REPLACE FUNCTION public.is_ballot_cast()
+RETURNS BOOLEAN AS $$
+    SELECT coalesce(current_setting('polly.ballot_cast', true), '') = 'on';
+$$ LANGUAGE sql STABLE;
+
 -- Votes policies
 CREATE POLICY "Users can view votes for public polls" ON public.votes
     FOR SELECT USING (
@@ -180,40 +403,342 @@ CREATE POLICY "Users can view votes for own polls" ON public.votes
         )
     );
 
+CREATE POLICY "Invitees can view votes for private polls" ON public.votes
+    FOR SELECT USING (public.has_valid_invite(poll_id));
+
 CREATE POLICY "Users can view own votes" ON public.votes
     FOR SELECT USING (auth.uid() = user_id);
 
 CREATE POLICY "Users can create votes" ON public.votes
     FOR INSERT WITH CHECK (
-        -- Can vote if poll is public and active
+        -- Can vote if poll is active and public, or private with a live invite
         EXISTS (
             SELECT 1 FROM public.polls 
             WHERE polls.id = votes.poll_id 
-            AND polls.is_public = TRUE
+            AND (polls.is_public = TRUE OR public.has_valid_invite(polls.id))
             AND polls.is_active = TRUE
+            AND (polls.starts_at IS NULL OR polls.starts_at <= NOW())
             AND (polls.end_date IS NULL OR polls.end_date > NOW())
         )
         -- And if authenticated, user_id matches auth.uid()
         AND (votes.user_id IS NULL OR votes.user_id = auth.uid())
+        -- And the voter meets the poll's eligibility rule
+        AND public.check_vote_eligibility(votes.poll_id) = 'eligible'
+        -- And the ballot comes through cast_ballot() or change_ballot(), which
+        -- enforce the selection and duplicate rules
+        AND (public.is_ballot_cast() OR public.is_ballot_change())
     );
 
-CREATE POLICY "Users can update own votes" ON public.votes
-    FOR UPDATE USING (auth.uid() = user_id);
-
+-- Votes can only be changed or withdrawn while the poll is open and the
+-- owner hasn't locked them, and only by change_ballot() and retract_ballot(),
+-- so every change is recorded in vote_history. Votes are never updated in
+-- place: a change deletes the old ballot and inserts the new one.
 CREATE POLICY "Users can delete own votes" ON public.votes
+    FOR DELETE USING (
+        auth.uid() = user_id
+        AND public.is_ballot_change()
+        AND EXISTS (
+            SELECT 1 FROM public.polls
+            WHERE polls.id = votes.poll_id
+            AND polls.is_active = TRUE
+            AND polls.lock_votes = FALSE
+            AND (polls.end_date IS NULL OR polls.end_date > NOW())
+        )
+    );
+
+-- =====================================================
+-- VOTE HISTORY TABLE
+-- =====================================================
+-- Audit trail of changed and retracted ballots, written by change_ballot()
+-- and retract_ballot() so owners can see how many votes moved
+CREATE TABLE IF NOT EXISTS public.vote_history (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('changed', 'retracted')),
+    previous_option_ids UUID[] NOT NULL, -- In preference order for ranked ballots
+    new_option_ids UUID[] NOT NULL DEFAULT '{}', -- Empty for a retraction
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS on vote history
+ALTER TABLE public.vote_history ENABLE ROW LEVEL SECURITY;
+
+-- Vote history policies (entries are never edited or removed)
+CREATE POLICY "Users can view own vote history" ON public.vote_history
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Poll owners can view vote history" ON public.vote_history
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.polls
+            WHERE polls.id = vote_history.poll_id
+            AND polls.created_by = auth.uid()
+        )
+    );
+
+-- Only the ballot functions write history, so entries match real changes
+CREATE POLICY "Ballot changes record own vote history" ON public.vote_history
+    FOR INSERT WITH CHECK (auth.uid() = user_id AND public.is_ballot_change());
+
+-- =====================================================
+-- POLL TEMPLATES TABLE
+-- =====================================================
+-- Reusable poll setups saved by users; built-in templates live in the application
+CREATE TABLE IF NOT EXISTS public.poll_templates (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL CHECK (length(name) > 0),
+    title TEXT NOT NULL CHECK (length(title) > 0),
+    description TEXT,
+    options TEXT[] NOT NULL CHECK (array_length(options, 1) BETWEEN 2 AND 10),
+    allow_multiple_selections BOOLEAN NOT NULL DEFAULT FALSE,
+    voting_method TEXT NOT NULL DEFAULT 'plurality' CHECK (voting_method IN ('plurality', 'ranked_choice')),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS on poll templates
+ALTER TABLE public.poll_templates ENABLE ROW LEVEL SECURITY;
+
+-- Poll templates policies
+CREATE POLICY "Users can view own templates" ON public.poll_templates
+    FOR SELECT USING (auth.uid() = created_by);
+
+CREATE POLICY "Users can create own templates" ON public.poll_templates
+    FOR INSERT WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Users can delete own templates" ON public.poll_templates
+    FOR DELETE USING (auth.uid() = created_by);
+
+-- =====================================================
+-- TWO-FACTOR AUTHENTICATION
+-- =====================================================
+-- Users can add a TOTP authenticator app through Supabase Auth, which keeps
+-- the factors in auth.mfa_factors. Signing in with a password, OAuth or an
+-- email link gives an AAL1 session; entering a code from the app steps it
+-- up to AAL2.
+
+-- Function to check the session has passed two-factor authentication when
+-- the account has it turned on
+-- Runs as definer because auth.mfa_factors isn't readable by users.
+CREATE OR REPLACE FUNCTION public.is_mfa_satisfied()
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(auth.jwt()->>'aal', 'aal1') = 'aal2'
+        OR NOT EXISTS (
+            SELECT 1 FROM auth.mfa_factors
+            WHERE user_id = auth.uid() AND status = 'verified'
+        );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Deleting a poll destroys its votes, so it needs the two-factor challenge
+-- when it's turned on (defined here, after is_mfa_satisfied)
+CREATE POLICY "Users can delete own polls" ON public.polls
+    FOR DELETE USING (auth.uid() = created_by AND public.is_mfa_satisfied());
+
+-- One-time codes for signing in without the authenticator app. Only a
+-- SHA-256 hash of each code is stored; the codes are shown once, when issued.
+CREATE TABLE IF NOT EXISTS public.mfa_recovery_codes (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    code_hash TEXT NOT NULL UNIQUE,
+    used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS on recovery codes
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Recovery codes policies (only a two-factor session can replace the codes,
+-- so a stolen password can't be used to issue new ones; redeeming a code
+-- happens server-side with the service role)
+CREATE POLICY "Users can view own recovery codes" ON public.mfa_recovery_codes
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own recovery codes" ON public.mfa_recovery_codes
+    FOR INSERT WITH CHECK (auth.uid() = user_id AND public.is_mfa_satisfied());
+
+CREATE POLICY "Users can delete own recovery codes" ON public.mfa_recovery_codes
+    FOR DELETE USING (auth.uid() = user_id AND public.is_mfa_satisfied());
+
+-- =====================================================
+-- API KEYS TABLE
+-- =====================================================
+-- Per-user keys for the /api/v1 REST API, used by scripts and tools that
+-- can't hold a cookie session. Only a SHA-256 hash of each key is stored;
+-- the key itself is shown to its owner once, when it is created.
+CREATE TABLE IF NOT EXISTS public.api_keys (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL CHECK (length(name) BETWEEN 1 AND 60),
+    key_prefix TEXT NOT NULL, -- Start of the key, so owners can tell their keys apart
+    key_hash TEXT NOT NULL UNIQUE,
+    -- 'read' lists polls, results and own votes; 'write' creates and deletes polls and votes
+    scopes TEXT[] NOT NULL DEFAULT '{read}' CHECK (cardinality(scopes) > 0 AND scopes <@ ARRAY['read', 'write']),
+    last_used_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ, -- Set when the owner revokes the key; revoked keys stop working at once
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS on API keys
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+-- API keys policies (keys are revoked rather than deleted, so usage stays
+-- visible; managing keys needs a two-factor session when it's turned on)
+CREATE POLICY "Users can view own API keys" ON public.api_keys
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own API keys" ON public.api_keys
+    FOR INSERT WITH CHECK (auth.uid() = user_id AND public.is_mfa_satisfied());
+
+CREATE POLICY "Users can revoke own API keys" ON public.api_keys
+    FOR UPDATE USING (auth.uid() = user_id AND public.is_mfa_satisfied());
+
+-- Function to look up the owner and scopes of an API key by its hash
+-- Called before the caller is signed in, so it runs as definer; it only
+-- answers for a live key whose hash the caller already knows, and records
+-- when the key was last used.
+CREATE OR REPLACE FUNCTION public.authenticate_api_key(api_key_hash TEXT)
+RETURNS TABLE(key_id UUID, key_user_id UUID, key_scopes TEXT[]) AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.api_keys
+    SET last_used_at = NOW()
+    WHERE key_hash = api_key_hash
+      AND revoked_at IS NULL
+    RETURNING id, user_id, scopes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to revoke a user's API keys when they turn on two-factor
+-- authentication
+-- Keys stand in for a two-factor session (see lib/api-keys.ts), which is only
+-- true of keys created from one. Keys created before the authenticator was
+-- added weren't, so they stop working and the user makes new ones.
+CREATE OR REPLACE FUNCTION public.revoke_api_keys_on_mfa_enrolment()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'verified' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'verified') THEN
+        UPDATE public.api_keys
+        SET revoked_at = NOW()
+        WHERE user_id = NEW.user_id
+          AND revoked_at IS NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER revoke_api_keys_on_mfa_enrolment
+    AFTER INSERT OR UPDATE OF status ON auth.mfa_factors
+    FOR EACH ROW EXECUTE FUNCTION public.revoke_api_keys_on_mfa_enrolment();
+
+-- =====================================================
+-- WEBHOOKS TABLES
+-- =====================================================
+-- Outgoing webhooks for poll events. An account-level webhook (no poll_id)
+-- hears about all of its owner's polls; a poll-level one only about its poll,
+-- and is removed with it, so it can't subscribe to poll.created or poll.deleted.
+CREATE TABLE IF NOT EXISTS public.webhooks (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE,
+    url TEXT NOT NULL CHECK (url ~ '^https?://' AND length(url) <= 2000),
+    secret TEXT NOT NULL, -- Signs each delivery (HMAC-SHA256); shown to the owner
+    events TEXT[] NOT NULL CHECK (
+        cardinality(events) > 0
+        AND events <@ ARRAY['poll.created', 'vote.cast', 'poll.closed', 'poll.deleted']
+        AND (poll_id IS NULL OR NOT events && ARRAY['poll.created', 'poll.deleted'])
+    ),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One row per event sent to a webhook. Written by the server with the service
+-- role: pending rows are retried with backoff until delivered or out of attempts.
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    webhook_id UUID REFERENCES public.webhooks(id) ON DELETE CASCADE NOT NULL,
+    event TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ DEFAULT NOW(), -- NULL once the delivery is finished
+    response_status INTEGER, -- HTTP status of the last attempt, if the receiver answered
+    last_error TEXT,
+    delivered_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS on webhooks
+ALTER TABLE public.webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Webhooks policies (poll-level webhooks only on the owner's own polls)
+CREATE POLICY "Users can view own webhooks" ON public.webhooks
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own webhooks" ON public.webhooks
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND (poll_id IS NULL OR EXISTS (
+            SELECT 1 FROM public.polls
+            WHERE polls.id = webhooks.poll_id
+            AND polls.created_by = auth.uid()
+        ))
+    );
+
+CREATE POLICY "Users can delete own webhooks" ON public.webhooks
     FOR DELETE USING (auth.uid() = user_id);
 
+-- Webhook deliveries policies (read-only for owners; the server writes them)
+CREATE POLICY "Users can view own webhook deliveries" ON public.webhook_deliveries
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.webhooks
+            WHERE webhooks.id = webhook_deliveries.webhook_id
+            AND webhooks.user_id = auth.uid()
+        )
+    );
+
+-- =====================================================
+-- AVATAR STORAGE
+-- =====================================================
+-- Profile pictures, resized to 256x256 in the browser before upload and
+-- stored at avatars/<user id>/avatar. The bucket is public so avatars load
+-- from a plain URL; only the owner can write to their own folder. The
+-- profile's avatar_url is set by the server once the upload is there.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', TRUE, 1048576, ARRAY['image/webp', 'image/png', 'image/jpeg'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view own avatar files" ON storage.objects
+    FOR SELECT USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload own avatar" ON storage.objects
+    FOR INSERT WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can replace own avatar" ON storage.objects
+    FOR UPDATE USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own avatar" ON storage.objects
+    FOR DELETE USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
 -- =====================================================
 -- INDEXES
 -- =====================================================
 -- Performance indexes for common queries
 
+-- Profiles indexes
+-- The deletion sweep only looks at accounts waiting to be deleted
+CREATE INDEX IF NOT EXISTS idx_profiles_deletion_scheduled_for ON public.profiles(deletion_scheduled_for)
+    WHERE deletion_scheduled_for IS NOT NULL;
+
 -- Polls indexes
 CREATE INDEX IF NOT EXISTS idx_polls_created_by ON public.polls(created_by);
 CREATE INDEX IF NOT EXISTS idx_polls_is_public ON public.polls(is_public);
 CREATE INDEX IF NOT EXISTS idx_polls_is_active ON public.polls(is_active);
 CREATE INDEX IF NOT EXISTS idx_polls_created_at ON public.polls(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_polls_end_date ON public.polls(end_date);
+CREATE INDEX IF NOT EXISTS idx_polls_starts_at ON public.polls(starts_at);
+CREATE INDEX IF NOT EXISTS idx_polls_search_vector ON public.polls USING GIN(search_vector);
 
 -- Poll options indexes
 CREATE INDEX IF NOT EXISTS idx_poll_options_poll_id ON public.poll_options(poll_id);
@@ -225,6 +750,53 @@ CREATE INDEX IF NOT EXISTS idx_votes_option_id ON public.votes(option_id);
 CREATE INDEX IF NOT EXISTS idx_votes_user_id ON public.votes(user_id);
 CREATE INDEX IF NOT EXISTS idx_votes_voter_ip ON public.votes(voter_ip);
 CREATE INDEX IF NOT EXISTS idx_votes_created_at ON public.votes(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_votes_ballot_id ON public.votes(ballot_id);
+-- One anonymous voter can pick each option only once, as with user_id above
+CREATE UNIQUE INDEX IF NOT EXISTS idx_votes_anonymous_voter_option ON public.votes(poll_id, voter_token, option_id)
+    WHERE user_id IS NULL AND voter_token IS NOT NULL;
+
+-- A ranked ballot can use each rank only once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_votes_ballot_rank ON public.votes(ballot_id, rank)
+    WHERE ballot_id IS NOT NULL;
+
+-- Poll invites indexes
+CREATE INDEX IF NOT EXISTS idx_poll_invites_poll_id ON public.poll_invites(poll_id);
+
+-- Vote history indexes
+CREATE INDEX IF NOT EXISTS idx_vote_history_poll_id ON public.vote_history(poll_id, action);
+
+-- Poll templates indexes
+CREATE INDEX IF NOT EXISTS idx_poll_templates_created_by ON public.poll_templates(created_by);
+
+-- Recovery codes indexes
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user_id ON public.mfa_recovery_codes(user_id)
+    WHERE used_at IS NULL;
+
+-- API keys indexes
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON public.api_keys(user_id);
+
+-- Webhooks indexes
+CREATE INDEX IF NOT EXISTS idx_webhooks_user_id ON public.webhooks(user_id, poll_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON public.webhook_deliveries(webhook_id, created_at DESC);
+-- The retry sweep only looks at deliveries still pending
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON public.webhook_deliveries(next_attempt_at)
+    WHERE status = 'pending';
+
+-- =====================================================
+-- REALTIME
+-- =====================================================
+-- Broadcast vote inserts so open poll pages update their results live.
+-- Insert events are checked against the votes SELECT policies before delivery.
+-- Deletes reach the page through broadcast_votes_deleted() below instead.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'votes'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.votes;
+    END IF;
+END $$;
 
 -- =====================================================
 -- FUNCTIONS AND TRIGGERS
@@ -248,12 +820,73 @@ CREATE TRIGGER update_polls_updated_at
     BEFORE UPDATE ON public.polls 
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+-- Function to keep the account deletion schedule out of users' hands
+-- "Users can update own profile" would otherwise let a user set a past
+-- deletion time through the API, skipping the recent sign-in check and the
+-- grace period. API requests run as anon or authenticated; the functions that
+-- may change the schedule run as their owner.
+CREATE OR REPLACE FUNCTION public.protect_account_deletion_schedule()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated') AND (
+        NEW.deletion_requested_at IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.deletion_requested_at END)
+        OR NEW.deletion_scheduled_for IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.deletion_scheduled_for END)
+    ) THEN
+        RAISE EXCEPTION 'Account deletion can only be scheduled from your profile page'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_account_deletion_schedule
+    BEFORE INSERT OR UPDATE ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.protect_account_deletion_schedule();
+
+-- Function to keep profile pictures to the user's own upload
+-- Otherwise a user could point avatar_url at any image on the internet and
+-- show it on their public profile and polls. The saveAvatar and removeAvatar
+-- server actions set it with the service role after checking the avatars
+-- bucket, and the sign-up triggers copy the sign-in provider's picture.
+CREATE OR REPLACE FUNCTION public.protect_avatar_url()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated')
+        AND NEW.avatar_url IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.avatar_url END)
+    THEN
+        RAISE EXCEPTION 'Profile pictures can only be changed by uploading one'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_avatar_url
+    BEFORE INSERT OR UPDATE ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.protect_avatar_url();
+
 -- Function to create user profile automatically
+-- OAuth providers name the same fields differently: GitHub sends name,
+-- user_name and avatar_url, Google sends full_name/name and picture
 CREATE OR REPLACE FUNCTION public.handle_new_user()
 RETURNS TRIGGER AS $$
 BEGIN
-    INSERT INTO public.profiles (id, email, full_name)
-    VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data->>'full_name');
+    INSERT INTO public.profiles (id, email, full_name, avatar_url)
+    VALUES (
+        NEW.id,
+        NEW.email,
+        COALESCE(
+            NEW.raw_user_meta_data->>'full_name',
+            NEW.raw_user_meta_data->>'name',
+            NEW.raw_user_meta_data->>'user_name'
+        ),
+        COALESCE(
+            NEW.raw_user_meta_data->>'avatar_url',
+            NEW.raw_user_meta_data->>'picture'
+        )
+    );
     RETURN NEW;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -263,6 +896,513 @@ CREATE TRIGGER on_auth_user_created
     AFTER INSERT ON auth.users
     FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
 
+-- Function to fill in a profile from a provider linked later
+-- Supabase links a new sign-in method to the existing user when the email
+-- matches a verified one, so an email/password account that later signs in
+-- with GitHub gets a name and picture if it didn't have them yet.
+CREATE OR REPLACE FUNCTION public.handle_new_identity()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.profiles
+    SET
+        full_name = COALESCE(
+            full_name,
+            NEW.identity_data->>'full_name',
+            NEW.identity_data->>'name',
+            NEW.identity_data->>'user_name'
+        ),
+        avatar_url = COALESCE(
+            avatar_url,
+            NEW.identity_data->>'avatar_url',
+            NEW.identity_data->>'picture'
+        ),
+        updated_at = NOW()
+    WHERE id = NEW.user_id
+      AND (full_name IS NULL OR avatar_url IS NULL);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger for provider identities linked to existing users
+CREATE TRIGGER on_auth_identity_created
+    AFTER INSERT ON auth.identities
+    FOR EACH ROW EXECUTE FUNCTION public.handle_new_identity();
+
+-- Function to count ballots cast through an invite against its usage cap
+-- Runs once per INSERT statement, so a multi-row ballot uses one invite slot.
+-- The row lock taken by the UPDATE makes concurrent voters wait their turn,
+-- so the cap can't be overshot.
+CREATE OR REPLACE FUNCTION public.consume_poll_invite()
+RETURNS TRIGGER AS $$
+DECLARE
+    private_poll RECORD;
+BEGIN
+    -- A changed ballot was already admitted and doesn't use another slot
+    IF public.is_ballot_change() THEN
+        RETURN NULL;
+    END IF;
+
+    FOR private_poll IN
+        SELECT DISTINCT p.id
+        FROM new_votes nv
+        JOIN public.polls p ON p.id = nv.poll_id
+        WHERE p.is_public = FALSE
+          AND p.created_by IS DISTINCT FROM auth.uid()
+    LOOP
+        UPDATE public.poll_invites
+        SET use_count = use_count + 1
+        WHERE poll_id = private_poll.id
+          AND token = public.request_invite_token()
+          AND revoked_at IS NULL
+          AND (expires_at IS NULL OR expires_at > NOW())
+          AND (max_uses IS NULL OR use_count < max_uses);
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Invite link is no longer valid for this poll';
+        END IF;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger for invite usage caps
+CREATE TRIGGER consume_poll_invite_on_vote
+    AFTER INSERT ON public.votes
+    REFERENCING NEW TABLE AS new_votes
+    FOR EACH STATEMENT EXECUTE FUNCTION public.consume_poll_invite();
+
+-- Function to tell open poll pages that votes were deleted
+-- Postgres Changes can't filter DELETE events by poll, so each affected poll
+-- gets one broadcast on its 'poll-votes:<poll id>' channel instead. The
+-- message carries no vote data; pages just refetch their results.
+CREATE OR REPLACE FUNCTION public.broadcast_votes_deleted()
+RETURNS TRIGGER AS $$
+DECLARE
+    deleted_poll_id UUID;
+BEGIN
+    FOR deleted_poll_id IN SELECT DISTINCT poll_id FROM old_votes LOOP
+        PERFORM realtime.send('{}'::JSONB, 'votes_deleted', 'poll-votes:' || deleted_poll_id::TEXT, FALSE);
+    END LOOP;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger for live results after a vote is changed, retracted or removed
+CREATE TRIGGER broadcast_votes_deleted_on_delete
+    AFTER DELETE ON public.votes
+    REFERENCING OLD TABLE AS old_votes
+    FOR EACH STATEMENT EXECUTE FUNCTION public.broadcast_votes_deleted();
+
+-- Function to replace the caller's ballot on a poll
+-- Runs as the caller, so the votes policies (poll open, votes not locked,
+-- eligibility, invite) still apply, and swaps the ballot and records the
+-- change in one transaction.
+CREATE OR REPLACE FUNCTION public.change_ballot(poll_uuid UUID, option_uuids UUID[], ip_hash TEXT)
+RETURNS VOID AS $$
+DECLARE
+    poll_record RECORD;
+    previous_options UUID[];
+    new_ballot_id UUID := uuid_generate_v4();
+BEGIN
+    SELECT allow_multiple_selections, voting_method, lock_votes INTO poll_record
+    FROM public.polls WHERE id = poll_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Poll not found or no longer available';
+    END IF;
+
+    IF poll_record.lock_votes THEN
+        RAISE EXCEPTION 'Votes on this poll are locked once cast';
+    END IF;
+
+    -- Same selection rules as cast_ballot(); an empty ballot is a retraction,
+    -- which goes through retract_ballot()
+    IF coalesce(cardinality(option_uuids), 0) = 0
+        OR (SELECT COUNT(DISTINCT option_id) FROM unnest(option_uuids) AS option_id) <> cardinality(option_uuids)
+        OR (SELECT COUNT(*) FROM public.poll_options WHERE poll_id = poll_uuid AND id = ANY(option_uuids)) <> cardinality(option_uuids)
+    THEN
+        RAISE EXCEPTION 'Invalid poll options';
+    END IF;
+
+    IF poll_record.voting_method <> 'ranked_choice'
+        AND NOT poll_record.allow_multiple_selections
+        AND cardinality(option_uuids) > 1
+    THEN
+        RAISE EXCEPTION 'This poll only allows one selection';
+    END IF;
+
+    -- Lets the ballot through the invite trigger and the votes and history policies
+    PERFORM set_config('polly.ballot_change', 'on', true);
+
+    WITH removed AS (
+        DELETE FROM public.votes
+        WHERE poll_id = poll_uuid AND user_id = auth.uid()
+        RETURNING option_id, rank
+    )
+    SELECT array_agg(option_id ORDER BY rank NULLS LAST) INTO previous_options FROM removed;
+
+    IF previous_options IS NULL THEN
+        RAISE EXCEPTION 'You have not voted on this poll yet';
+    END IF;
+
+    INSERT INTO public.votes (poll_id, option_id, user_id, voter_ip_hash, ballot_id, rank)
+    SELECT
+        poll_uuid,
+        choice.option_id,
+        auth.uid(),
+        ip_hash,
+        CASE WHEN poll_record.voting_method = 'ranked_choice' THEN new_ballot_id END,
+        CASE WHEN poll_record.voting_method = 'ranked_choice' THEN choice.position::INTEGER END
+    FROM unnest(option_uuids) WITH ORDINALITY AS choice(option_id, position);
+
+    INSERT INTO public.vote_history (poll_id, user_id, action, previous_option_ids, new_option_ids)
+    VALUES (poll_uuid, auth.uid(), 'changed', previous_options, option_uuids);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Function to withdraw the caller's ballot from a poll and record it
+CREATE OR REPLACE FUNCTION public.retract_ballot(poll_uuid UUID)
+RETURNS VOID AS $$
+DECLARE
+    previous_options UUID[];
+BEGIN
+    IF EXISTS (SELECT 1 FROM public.polls WHERE id = poll_uuid AND lock_votes) THEN
+        RAISE EXCEPTION 'Votes on this poll are locked once cast';
+    END IF;
+
+    -- Lets the deletion through the votes policy, and the history entry
+    PERFORM set_config('polly.ballot_change', 'on', true);
+
+    WITH removed AS (
+        DELETE FROM public.votes
+        WHERE poll_id = poll_uuid AND user_id = auth.uid()
+        RETURNING option_id, rank
+    )
+    SELECT array_agg(option_id ORDER BY rank NULLS LAST) INTO previous_options FROM removed;
+
+    IF previous_options IS NULL THEN
+        RAISE EXCEPTION 'You have not voted on this poll yet';
+    END IF;
+
+    INSERT INTO public.vote_history (poll_id, user_id, action, previous_option_ids)
+    VALUES (poll_uuid, auth.uid(), 'retracted', previous_options);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Function to create a poll with its options and allow-list in one transaction
+-- Runs as the caller, so the polls and poll_options policies still apply; if
+-- any insert fails nothing is kept. Returns the new poll's ID.
+CREATE OR REPLACE FUNCTION public.create_poll_with_options(
+    poll_title TEXT,
+    option_texts TEXT[],
+    poll_description TEXT DEFAULT NULL,
+    multiple_selections BOOLEAN DEFAULT FALSE,
+    method TEXT DEFAULT 'plurality',
+    public_poll BOOLEAN DEFAULT TRUE,
+    anonymous_votes BOOLEAN DEFAULT TRUE,
+    locked_votes BOOLEAN DEFAULT FALSE,
+    opens_at TIMESTAMPTZ DEFAULT NULL,
+    closes_at TIMESTAMPTZ DEFAULT NULL,
+    eligibility_rule TEXT DEFAULT 'anyone',
+    email_domain TEXT DEFAULT NULL,
+    allowed_emails TEXT[] DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    new_poll_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be logged in to create a poll';
+    END IF;
+
+    IF coalesce(cardinality(option_texts), 0) < 2 THEN
+        RAISE EXCEPTION 'At least 2 options are required';
+    END IF;
+
+    IF (SELECT COUNT(DISTINCT lower(option_text)) FROM unnest(option_texts) AS option_text) <> cardinality(option_texts) THEN
+        RAISE EXCEPTION 'All options must be unique';
+    END IF;
+
+    INSERT INTO public.polls (
+        title, description, allow_multiple_selections, voting_method, is_public,
+        allow_anonymous_votes, lock_votes, starts_at, end_date, eligibility,
+        eligible_email_domain, created_by
+    )
+    VALUES (
+        poll_title,
+        poll_description,
+        -- A ranked ballot already holds several preferences
+        multiple_selections AND method <> 'ranked_choice',
+        method,
+        public_poll,
+        anonymous_votes,
+        locked_votes,
+        opens_at,
+        closes_at,
+        eligibility_rule,
+        CASE WHEN eligibility_rule = 'email_domain' THEN email_domain END,
+        auth.uid()
+    )
+    RETURNING id INTO new_poll_id;
+
+    INSERT INTO public.poll_options (poll_id, text, order_index)
+    SELECT new_poll_id, choice.option_text, (choice.position - 1)::INTEGER
+    FROM unnest(option_texts) WITH ORDINALITY AS choice(option_text, position);
+
+    IF eligibility_rule = 'email_list' THEN
+        IF coalesce(cardinality(allowed_emails), 0) = 0 THEN
+            RAISE EXCEPTION 'Add at least one email address to the allow-list';
+        END IF;
+
+        INSERT INTO public.poll_allowed_emails (poll_id, email)
+        SELECT DISTINCT new_poll_id, lower(email) FROM unnest(allowed_emails) AS email;
+    END IF;
+
+    RETURN new_poll_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Function to edit a poll and its options in one transaction
+-- Runs as the caller, so the polls and poll_options policies still apply; if
+-- any write fails nothing is kept. option_ids lists the options in their new
+-- order, with NULL for new ones; existing options left out are removed.
+-- Options with votes at any rank keep their text, and removing one needs
+-- confirm_remove_voted because its votes are deleted with it. NULL settings
+-- are left unchanged.
+CREATE OR REPLACE FUNCTION public.update_poll_with_options(
+    poll_uuid UUID,
+    poll_title TEXT,
+    option_ids UUID[],
+    option_texts TEXT[],
+    poll_description TEXT DEFAULT NULL,
+    public_poll BOOLEAN DEFAULT TRUE,
+    active_poll BOOLEAN DEFAULT NULL,
+    export_identity BOOLEAN DEFAULT NULL,
+    anonymous_votes BOOLEAN DEFAULT NULL,
+    locked_votes BOOLEAN DEFAULT NULL,
+    opens_at TIMESTAMPTZ DEFAULT NULL,
+    closes_at TIMESTAMPTZ DEFAULT NULL,
+    confirm_remove_voted BOOLEAN DEFAULT FALSE
+)
+RETURNS VOID AS $$
+DECLARE
+    poll_record RECORD;
+    kept_ids UUID[] := array_remove(option_ids, NULL);
+    voted_ids UUID[];
+BEGIN
+    SELECT created_by, is_active INTO poll_record FROM public.polls WHERE id = poll_uuid FOR UPDATE;
+
+    IF NOT FOUND OR poll_record.created_by IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'You do not have permission to edit this poll';
+    END IF;
+
+    IF coalesce(cardinality(option_texts), 0) < 2 OR cardinality(option_ids) IS DISTINCT FROM cardinality(option_texts) THEN
+        RAISE EXCEPTION 'At least 2 options are required';
+    END IF;
+
+    IF (SELECT COUNT(DISTINCT lower(option_text)) FROM unnest(option_texts) AS option_text) <> cardinality(option_texts) THEN
+        RAISE EXCEPTION 'All options must be unique';
+    END IF;
+
+    IF (SELECT COUNT(DISTINCT kept_id) FROM unnest(kept_ids) AS kept_id) <> cardinality(kept_ids)
+        OR (SELECT COUNT(*) FROM public.poll_options WHERE poll_id = poll_uuid AND id = ANY(kept_ids)) <> cardinality(kept_ids) THEN
+        RAISE EXCEPTION 'Invalid poll options';
+    END IF;
+
+    SELECT coalesce(array_agg(DISTINCT option_id), '{}') INTO voted_ids
+    FROM public.votes
+    WHERE poll_id = poll_uuid;
+
+    IF NOT confirm_remove_voted AND EXISTS (
+        SELECT 1 FROM unnest(voted_ids) AS voted_id WHERE NOT (voted_id = ANY(kept_ids))
+    ) THEN
+        RAISE EXCEPTION 'Some of the removed options already have votes. Confirm removal to delete those votes.';
+    END IF;
+
+    UPDATE public.polls
+    SET title = poll_title,
+        description = poll_description,
+        is_public = public_poll,
+        is_active = coalesce(active_poll, is_active),
+        -- Record when the owner closes the poll; reopening clears it
+        closed_at = CASE
+            WHEN active_poll IS FALSE AND poll_record.is_active THEN NOW()
+            WHEN active_poll IS TRUE THEN NULL
+            ELSE closed_at
+        END,
+        export_voter_identity = coalesce(export_identity, export_voter_identity),
+        allow_anonymous_votes = coalesce(anonymous_votes, allow_anonymous_votes),
+        lock_votes = coalesce(locked_votes, lock_votes),
+        starts_at = opens_at,
+        end_date = closes_at
+    WHERE id = poll_uuid;
+
+    DELETE FROM public.poll_options
+    WHERE poll_id = poll_uuid AND NOT (id = ANY(kept_ids));
+
+    -- Move kept options out of the way first so the new order never collides
+    -- with the UNIQUE(poll_id, order_index) constraint
+    UPDATE public.poll_options o
+    SET order_index = -choice.position::INTEGER
+    FROM unnest(option_ids) WITH ORDINALITY AS choice(option_id, position)
+    WHERE o.id = choice.option_id;
+
+    UPDATE public.poll_options o
+    SET order_index = (choice.position - 1)::INTEGER,
+        text = CASE WHEN o.id = ANY(voted_ids) THEN o.text ELSE choice.option_text END
+    FROM unnest(option_ids, option_texts) WITH ORDINALITY AS choice(option_id, option_text, position)
+    WHERE o.id = choice.option_id;
+
+    INSERT INTO public.poll_options (poll_id, text, order_index)
+    SELECT poll_uuid, choice.option_text, (choice.position - 1)::INTEGER
+    FROM unnest(option_ids, option_texts) WITH ORDINALITY AS choice(option_id, option_text, position)
+    WHERE choice.option_id IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Function to copy one of the caller's polls into a new draft in one transaction
+-- Runs as the caller, so the polls, poll_options and allow-list policies
+-- still apply; if any insert fails nothing is kept. The copy is closed and
+-- private with no end date and no votes, so the owner can adjust it before
+-- opening it. Returns the new poll's ID.
+CREATE OR REPLACE FUNCTION public.duplicate_poll(poll_uuid UUID)
+RETURNS UUID AS $$
+DECLARE
+    source_poll RECORD;
+    new_poll_id UUID;
+BEGIN
+    SELECT * INTO source_poll FROM public.polls WHERE id = poll_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Poll not found';
+    END IF;
+
+    IF source_poll.created_by IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'You do not have permission to duplicate this poll';
+    END IF;
+
+    INSERT INTO public.polls (
+        title, description, allow_multiple_selections, voting_method, is_public,
+        is_active, export_voter_identity, allow_anonymous_votes, lock_votes,
+        eligibility, eligible_email_domain, end_date, created_by
+    )
+    VALUES (
+        -- Keeps the copy within the 200 character title limit
+        left(source_poll.title, 193) || ' (copy)',
+        source_poll.description,
+        source_poll.allow_multiple_selections,
+        source_poll.voting_method,
+        FALSE,
+        FALSE,
+        source_poll.export_voter_identity,
+        source_poll.allow_anonymous_votes,
+        source_poll.lock_votes,
+        source_poll.eligibility,
+        source_poll.eligible_email_domain,
+        NULL,
+        auth.uid()
+    )
+    RETURNING id INTO new_poll_id;
+
+    INSERT INTO public.poll_options (poll_id, text, order_index)
+    SELECT new_poll_id, text, order_index
+    FROM public.poll_options
+    WHERE poll_id = poll_uuid;
+
+    IF source_poll.eligibility = 'email_list' THEN
+        INSERT INTO public.poll_allowed_emails (poll_id, email)
+        SELECT new_poll_id, email
+        FROM public.poll_allowed_emails
+        WHERE poll_id = poll_uuid;
+    END IF;
+
+    RETURN new_poll_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Function to cast a ballot for the caller, or for an anonymous voter token
+-- Runs as the caller, so the votes policies (poll open, eligibility, invite)
+-- and the invite trigger still apply. Checks the ballot against the poll's
+-- selection rule and the voter's earlier votes while holding a per-voter
+-- lock, so two concurrent submissions can't both pass the duplicate check.
+CREATE OR REPLACE FUNCTION public.cast_ballot(poll_uuid UUID, option_uuids UUID[], voter_token_hash TEXT, ip_hash TEXT)
+RETURNS VOID AS $$
+DECLARE
+    poll_record RECORD;
+    voter_uuid UUID := auth.uid();
+    existing_options UUID[];
+    new_ballot_id UUID := uuid_generate_v4();
+BEGIN
+    IF voter_uuid IS NULL AND voter_token_hash IS NULL THEN
+        RAISE EXCEPTION 'Anonymous votes need a voter token';
+    END IF;
+
+    SELECT allow_multiple_selections, voting_method, lock_votes INTO poll_record
+    FROM public.polls WHERE id = poll_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Poll not found or no longer available';
+    END IF;
+
+    IF coalesce(cardinality(option_uuids), 0) = 0
+        OR (SELECT COUNT(DISTINCT option_id) FROM unnest(option_uuids) AS option_id) <> cardinality(option_uuids)
+        OR (SELECT COUNT(*) FROM public.poll_options WHERE poll_id = poll_uuid AND id = ANY(option_uuids)) <> cardinality(option_uuids)
+    THEN
+        RAISE EXCEPTION 'Invalid poll options';
+    END IF;
+
+    -- Ranked-choice ballots list several options in preference order
+    IF poll_record.voting_method <> 'ranked_choice'
+        AND NOT poll_record.allow_multiple_selections
+        AND cardinality(option_uuids) > 1
+    THEN
+        RAISE EXCEPTION 'This poll only allows one selection';
+    END IF;
+
+    -- Lets the ballot through the votes policy
+    PERFORM set_config('polly.ballot_cast', 'on', true);
+
+    -- Held until the transaction ends
+    PERFORM pg_advisory_xact_lock(hashtext(poll_uuid::TEXT || ':' || coalesce(voter_uuid::TEXT, voter_token_hash)));
+
+    SELECT array_agg(option_id) INTO existing_options
+    FROM public.votes
+    WHERE poll_id = poll_uuid
+      AND CASE WHEN voter_uuid IS NOT NULL
+          THEN user_id = voter_uuid
+          ELSE user_id IS NULL AND voter_token = voter_token_hash
+      END;
+
+    IF existing_options IS NOT NULL THEN
+        -- Single-choice and ranked polls take one ballot; changes go through change_ballot()
+        IF NOT poll_record.allow_multiple_selections THEN
+            RAISE EXCEPTION 'You have already voted on this poll';
+        END IF;
+
+        -- Adding choices to a multiple-choice ballot changes it too
+        IF poll_record.lock_votes THEN
+            RAISE EXCEPTION 'Votes on this poll are locked once cast';
+        END IF;
+
+        IF existing_options && option_uuids THEN
+            RAISE EXCEPTION 'You have already voted for some of these options';
+        END IF;
+    END IF;
+
+    INSERT INTO public.votes (poll_id, option_id, user_id, voter_token, voter_ip_hash, ballot_id, rank)
+    SELECT
+        poll_uuid,
+        choice.option_id,
+        voter_uuid,
+        CASE WHEN voter_uuid IS NULL THEN voter_token_hash END,
+        ip_hash,
+        CASE WHEN poll_record.voting_method = 'ranked_choice' THEN new_ballot_id END,
+        CASE WHEN poll_record.voting_method = 'ranked_choice' THEN choice.position::INTEGER END
+    FROM unnest(option_uuids) WITH ORDINALITY AS choice(option_id, position);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
 -- =====================================================
 -- VIEWS
 -- =====================================================
@@ -277,16 +1417,39 @@ SELECT
     p.is_public,
     p.is_active,
     p.created_at,
+    p.starts_at,
     p.end_date,
+    p.closed_at,
+    p.voting_method,
+    p.search_vector,
     COUNT(DISTINCT po.id) as option_count,
     COUNT(DISTINCT v.id) as total_votes,
-    COUNT(DISTINCT v.user_id) as unique_voters
+    COUNT(DISTINCT v.user_id) as unique_voters,
+    pr.full_name as creator_name,
+    pr.avatar_url as creator_avatar_url
 FROM public.polls p
+LEFT JOIN public.profiles pr ON pr.id = p.created_by
 LEFT JOIN public.poll_options po ON p.id = po.poll_id
-LEFT JOIN public.votes v ON p.id = v.poll_id
-GROUP BY p.id, p.title, p.description, p.created_by, p.is_public, p.is_active, p.created_at, p.end_date;
+-- Ranked ballots count once, through their first preference
+LEFT JOIN public.votes v ON p.id = v.poll_id AND (v.rank IS NULL OR v.rank = 1)
+GROUP BY p.id, p.title, p.description, p.created_by, p.is_public, p.is_active, p.created_at, p.starts_at, p.end_date, p.closed_at, p.voting_method, p.search_vector, pr.full_name, pr.avatar_url;
+
+-- Public view of profiles: the name and avatar shown next to a user's polls,
+-- plus the /u/<handle> page details unless the user has hidden their profile.
+-- The profiles table itself is readable by its owner only, since it holds the email.
+CREATE OR REPLACE VIEW public.public_profiles AS
+SELECT
+    id,
+    full_name,
+    avatar_url,
+    CASE WHEN is_profile_public AND deletion_scheduled_for IS NULL THEN handle END as handle,
+    CASE WHEN is_profile_public AND deletion_scheduled_for IS NULL THEN bio END as bio,
+    CASE WHEN is_profile_public AND deletion_scheduled_for IS NULL THEN created_at END as created_at
+FROM public.profiles;
 
 -- View for poll results
+-- For ranked-choice polls vote_count is the first-preference count; the
+-- instant-runoff rounds are computed in the application from the ballots
 CREATE OR REPLACE VIEW public.poll_results AS
 SELECT 
     p.id as poll_id,
@@ -304,11 +1467,11 @@ SELECT
     ) as vote_percentage
 FROM public.polls p
 LEFT JOIN public.poll_options po ON p.id = po.poll_id
-LEFT JOIN public.votes v ON po.id = v.option_id
+LEFT JOIN public.votes v ON po.id = v.option_id AND (v.rank IS NULL OR v.rank = 1)
 CROSS JOIN (
     SELECT p2.id as poll_id, COUNT(v2.id) as count
     FROM public.polls p2
-    LEFT JOIN public.votes v2 ON p2.id = v2.poll_id
+    LEFT JOIN public.votes v2 ON p2.id = v2.poll_id AND (v2.rank IS NULL OR v2.rank = 1)
     GROUP BY p2.id
 ) total_votes
 WHERE total_votes.poll_id = p.id
@@ -319,11 +1482,12 @@ ORDER BY p.id, po.order_index;
 -- SECURITY FUNCTIONS
 -- =====================================================
 
--- Function to check if user can vote on a poll
-CREATE OR REPLACE FUNCTION public.can_vote_on_poll(poll_uuid UUID, user_uuid UUID DEFAULT NULL)
+-- Function to check if the caller can vote on a poll
+CREATE OR REPLACE FUNCTION public.can_vote_on_poll(poll_uuid UUID)
 RETURNS BOOLEAN AS $$
 DECLARE
     poll_record RECORD;
+    user_uuid UUID := auth.uid();
     existing_votes INTEGER;
 BEGIN
     -- Get poll information
@@ -334,11 +1498,21 @@ BEGIN
         RETURN FALSE;
     END IF;
     
+    -- Check if poll has opened yet
+    IF poll_record.starts_at IS NOT NULL AND poll_record.starts_at > NOW() THEN
+        RETURN FALSE;
+    END IF;
+    
     -- Check if poll has ended
     IF poll_record.end_date IS NOT NULL AND poll_record.end_date <= NOW() THEN
         RETURN FALSE;
     END IF;
     
+    -- Check the poll's eligibility rule
+    IF public.check_vote_eligibility(poll_uuid) <> 'eligible' THEN
+        RETURN FALSE;
+    END IF;
+    
     -- If user is provided, check for existing votes
     IF user_uuid IS NOT NULL THEN
         SELECT COUNT(*) INTO existing_votes 
@@ -355,6 +1529,82 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- Function to close polls whose end date has passed
+-- Called by the sweeper route (/api/cron/close-expired-polls) on a schedule.
+-- Returns the IDs of the polls it closed.
+CREATE OR REPLACE FUNCTION public.close_expired_polls()
+RETURNS TABLE(poll_id UUID) AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.polls
+    SET is_active = FALSE,
+        closed_at = NOW()
+    WHERE is_active = TRUE
+      AND end_date IS NOT NULL
+      AND end_date <= NOW()
+    RETURNING id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the service role may run the sweeper
+REVOKE EXECUTE ON FUNCTION public.close_expired_polls() FROM PUBLIC, anon, authenticated;
+
+-- Function to remove an account's polls and anonymise its votes
+-- Called by the account deletion sweep (/api/cron/delete-accounts) before the
+-- auth user is deleted, which cascades to the rest of the account (keys,
+-- webhooks, templates and vote change history). The user's
+-- own polls go with their options, votes and invites. Votes on other people's
+-- polls stay in their results but lose the account: each of the user's
+-- ballots gets a random voter token in its place, one per poll, so
+-- per-voter counts still add up.
+CREATE OR REPLACE FUNCTION public.delete_account_data(user_uuid UUID)
+RETURNS VOID AS $$
+BEGIN
+    DELETE FROM public.polls WHERE created_by = user_uuid;
+
+    UPDATE public.votes v
+    SET user_id = NULL,
+        voter_token = ballots.anonymous_token,
+        voter_ip_hash = NULL
+    FROM (
+        SELECT poll_id, 'deleted-account:' || uuid_generate_v4()::TEXT AS anonymous_token
+        FROM public.votes
+        WHERE user_id = user_uuid
+        GROUP BY poll_id
+    ) ballots
+    WHERE v.user_id = user_uuid
+      AND v.poll_id = ballots.poll_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the service role may delete account data
+REVOKE EXECUTE ON FUNCTION public.delete_account_data(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Function to schedule an account for deletion once its grace period is over
+-- Called by requestAccountDeletion after it has checked the user signed in
+-- recently. The request time is kept so the deletion sweep can check the
+-- grace period has really passed.
+CREATE OR REPLACE FUNCTION public.schedule_account_deletion(user_uuid UUID, grace INTERVAL)
+RETURNS TIMESTAMPTZ AS $$
+    UPDATE public.profiles
+    SET deletion_requested_at = NOW(),
+        deletion_scheduled_for = NOW() + grace
+    WHERE id = user_uuid
+    RETURNING deletion_scheduled_for;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+-- Only the service role may schedule a deletion, after the re-authentication check
+REVOKE EXECUTE ON FUNCTION public.schedule_account_deletion(UUID, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Function to cancel the current user's scheduled account deletion
+CREATE OR REPLACE FUNCTION public.cancel_account_deletion()
+RETURNS VOID AS $$
+    UPDATE public.profiles
+    SET deletion_requested_at = NULL,
+        deletion_scheduled_for = NULL
+    WHERE id = auth.uid();
+$$ LANGUAGE sql SECURITY DEFINER;
+
 -- =====================================================
 -- SAMPLE DATA (OPTIONAL)
 -- =====================================================
@@ -389,7 +1639,8 @@ INSERT INTO public.poll_options (poll_id, text, order_index) VALUES
 --    - SUPABASE_SERVICE_ROLE_KEY (for server-side operations)
 --
 -- 2. The schema supports both authenticated and anonymous voting
---    Anonymous votes are tracked by IP address
+--    Anonymous votes are tracked by a signed voter cookie (stored hashed in
+--    voter_token) plus a hashed IP; owners can turn anonymous votes off per poll
 --
 -- 3. Row Level Security (RLS) is enabled on all tables
 --    This ensures data security at the database level
@@ -403,6 +1654,21 @@ INSERT INTO public.poll_options (poll_id, text, order_index) VALUES
 -- 7. The schema is designed to be scalable and supports:
 --    - Multiple poll options
 --    - Single or multiple choice polls
---    - Public and private polls
---    - Time-limited polls
+--    - Ranked-choice (instant-runoff) polls
+--    - Public polls, and private polls shared through revocable invite links
+--    - Voting restricted to signed-in users, an email domain or an allow-list
+--    - Time-limited and scheduled polls, closed automatically by close_expired_polls()
+--    - Full-text search and cursor-paginated listings
+--    - Reusable poll templates
 --    - Anonymous and authenticated voting
+--    - Changing or retracting a vote, with an audit history, unless the owner locks votes
+--    - Atomic poll creation, editing, copying and ballot casting through create_poll_with_options(),
+--      update_poll_with_options(), duplicate_poll() and cast_ballot()
+--    - Hashed, scoped API keys for the /api/v1 REST API
+--    - Signed outgoing webhooks for poll events, retried with backoff
+--    - Profile pictures in the public 'avatars' storage bucket
+--    - Public creator profiles at /u/<handle>, which users can hide
+--    - Sign-in with GitHub, Google or an emailed link/code, linked to one account per email
+--    - Two-factor authentication with an authenticator app and one-time recovery codes
+--    - Self-service data export, and account deletion after a grace period by delete_account_data()
+--    - Live results over Supabase Realtime